@@ -0,0 +1,199 @@
+// cli.ts
+// Offline entry point: transform an ICS file (or stdin) with the same options as the HTTP endpoints
+// and write the result to stdout. Nothing is fetched and no server is started.
+// - Options mirror the query parameters (--tz, --override, --tzmode, --client, filters, meetings, ...)
+// - Defaults come from the same environment variables as the server (TARGET_TZ, TZ_MODE, CLIENT_PROFILE, WINDOWS_TZ_TERRITORY)
+// - --rules reads a YAML / JSON list of rules, written like a feed's `rules:` (src/rules.ts)
+// - --explain prints a per-event report of what the transform changed instead of the calendar (src/explain.ts)
+//
+// Usage
+//   node --loader ts-node/esm cli.ts [options] [file.ics]     (reads stdin without a file or with "-")
+//   node --loader ts-node/esm cli.ts --explain --tz Europe/Zurich saved-feed.ics
+//
+// Exit codes: 0 done, 1 input is not a calendar or can't be read, 2 invalid options
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { parse as parseYaml } from "yaml";
+import { CLIENT_NAMES, type ClientName } from "./src/clientProfile.js";
+import { explainTransform } from "./src/explain.js";
+import { expandWindow } from "./src/expand.js";
+import { FilterError, parseEventFilter, type FilterInput } from "./src/filter.js";
+import { IcsParseError } from "./src/ics.js";
+import { MeetingOptionError, parseMeetingOptions, type MeetingInput } from "./src/meetings.js";
+import { PRIVACY_MODES, type PrivacyMode } from "./src/privacy.js";
+import { parseRules, RuleError, type EventRule } from "./src/rules.js";
+import { isLikelyIana, transformIcs, type TransformOptions, type TzMode } from "./src/transform.js";
+
+const USAGE = `Usage: cli.ts [options] [file.ics]
+
+Transforms an ICS file (stdin without a file or with "-") and writes it to stdout.
+
+Options:
+  --tz <zone>                 Target IANA timezone (default TARGET_TZ or Europe/Zurich)
+  --override <1|0>            Convert times that already have a TZID (default 1)
+  --tzmode <convert|preserve> Timezone mode (default TZ_MODE or convert)
+  --territory <code>          CLDR territory for Windows zone variants (default WINDOWS_TZ_TERRITORY)
+  --client <profile>          ${CLIENT_NAMES.join(", ")} (default CLIENT_PROFILE or google)
+  --name <name>               Calendar name
+  --privacy <mode>            ${PRIVACY_MODES.join(", ")} (default full)
+  --expand                    Flatten recurring series
+  --cleanup                   Clean up descriptions and extract join links
+  --joinlocation              With --cleanup: join link into LOCATION as well
+  --cancelled, --declined, --unanswered <keep|mark|drop>
+  --owner <address>           Calendar owner, repeatable (needed for --declined / --unanswered)
+  --past, --future <days>     Rolling date window, e.g. 30d, 2w, 1y
+  --include, --exclude <regex>
+  --categories, --excludecategories, --busy <value>   Repeatable
+  --rules <file>              YAML / JSON list of rules, as in a feed's rules:
+  --explain                   Print a per-event report of the changes instead of the calendar
+  -h, --help                  Show this help
+`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function readRules(file: string): EventRule[] | undefined {
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch (err: unknown) {
+    throw new UsageError(`Could not read ${file} (${err instanceof Error ? err.message : "Unknown error"})`);
+  }
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message.split("\n")[0] : "Unknown error"; // YAML errors carry a code excerpt
+    throw new UsageError(`${file}: ${msg}`);
+  }
+  try {
+    return parseRules(data);
+  } catch (err: unknown) {
+    if (err instanceof RuleError) throw new UsageError(`${file}: ${err.message}`);
+    throw err;
+  }
+}
+
+function parseOptions(argv: string[]): { opts: TransformOptions; file: string | undefined; explain: boolean } | undefined {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      tz: { type: "string" },
+      override: { type: "string" },
+      tzmode: { type: "string" },
+      territory: { type: "string" },
+      client: { type: "string" },
+      name: { type: "string" },
+      privacy: { type: "string" },
+      expand: { type: "boolean" },
+      cleanup: { type: "boolean" },
+      joinlocation: { type: "boolean" },
+      cancelled: { type: "string" },
+      declined: { type: "string" },
+      unanswered: { type: "string" },
+      owner: { type: "string", multiple: true },
+      past: { type: "string" },
+      future: { type: "string" },
+      include: { type: "string" },
+      exclude: { type: "string" },
+      categories: { type: "string", multiple: true },
+      excludecategories: { type: "string", multiple: true },
+      busy: { type: "string", multiple: true },
+      rules: { type: "string" },
+      explain: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help === true) return undefined;
+  if (positionals.length > 1) throw new UsageError("Only one input file can be given");
+
+  const targetTz = values.tz ?? process.env.TARGET_TZ ?? "Europe/Zurich";
+  if (!isLikelyIana(targetTz)) throw new UsageError(`Invalid timezone "${targetTz}" (use an IANA name such as Europe/Zurich)`);
+  if (values.override !== undefined && values.override !== "1" && values.override !== "0") throw new UsageError("--override must be 1 or 0");
+  const tzMode = values.tzmode ?? (process.env.TZ_MODE === "preserve" ? "preserve" : "convert");
+  if (tzMode !== "convert" && tzMode !== "preserve") throw new UsageError("--tzmode must be convert or preserve");
+  const client = values.client ?? (CLIENT_NAMES.includes(process.env.CLIENT_PROFILE as ClientName) ? process.env.CLIENT_PROFILE : "google");
+  if (!CLIENT_NAMES.includes(client as ClientName)) throw new UsageError(`--client must be one of ${CLIENT_NAMES.join(", ")}`);
+  const privacy = values.privacy ?? "full";
+  if (!PRIVACY_MODES.includes(privacy as PrivacyMode)) throw new UsageError(`--privacy must be one of ${PRIVACY_MODES.join(", ")}`);
+  const territory = values.territory ?? process.env.WINDOWS_TZ_TERRITORY;
+
+  const filterInput: FilterInput = {
+    ...(values.past !== undefined ? { past: values.past } : {}),
+    ...(values.future !== undefined ? { future: values.future } : {}),
+    ...(values.include !== undefined ? { include: values.include } : {}),
+    ...(values.exclude !== undefined ? { exclude: values.exclude } : {}),
+    ...(values.categories !== undefined ? { categories: values.categories } : {}),
+    ...(values.excludecategories !== undefined ? { excludeCategories: values.excludecategories } : {}),
+    ...(values.busy !== undefined ? { busy: values.busy } : {}),
+  };
+  const meetingInput: MeetingInput = {
+    ...(values.cancelled !== undefined ? { cancelled: values.cancelled } : {}),
+    ...(values.declined !== undefined ? { declined: values.declined } : {}),
+    ...(values.unanswered !== undefined ? { unanswered: values.unanswered } : {}),
+    ...(values.owner !== undefined ? { owner: values.owner } : {}),
+  };
+  const filter = parseEventFilter(filterInput);
+  const meetings = parseMeetingOptions(meetingInput);
+  const rules = values.rules !== undefined ? readRules(values.rules) : undefined;
+
+  const opts: TransformOptions = {
+    targetTz,
+    overrideExistingTz: values.override !== "0",
+    tzMode: tzMode as TzMode,
+    ...(territory !== undefined ? { windowsTerritory: territory } : {}),
+    privacy: privacy as PrivacyMode,
+    ...(filter !== undefined ? { filter } : {}),
+    ...(meetings !== undefined ? { meetings } : {}),
+    ...(values.expand === true ? { expand: expandWindow(filter) } : {}),
+    ...(values.cleanup === true ? { cleanup: { joinLocation: values.joinlocation === true } } : {}),
+    ...(rules !== undefined ? { rules } : {}),
+    client: client as ClientName,
+    ...(values.name !== undefined ? { calendarName: values.name } : {}),
+  };
+  const file = positionals[0];
+  return { opts, file: file === "-" ? undefined : file, explain: values.explain === true };
+}
+
+function main(): number {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions(process.argv.slice(2));
+  } catch (err: unknown) {
+    // parseArgs reports unknown options and missing values as TypeErrors
+    if (!(err instanceof UsageError || err instanceof FilterError || err instanceof MeetingOptionError || err instanceof TypeError)) throw err;
+    process.stderr.write(`${err.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (parsed === undefined) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const { opts, file, explain } = parsed;
+  let input: string;
+  try {
+    input = readFileSync(file ?? 0, "utf8");
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    process.stderr.write(`Could not read ${file ?? "stdin"} (${msg})\n`);
+    return 1;
+  }
+
+  try {
+    process.stdout.write(explain ? explainTransform(input, opts).report : transformIcs(input, opts));
+  } catch (err: unknown) {
+    if (!(err instanceof IcsParseError)) throw err;
+    process.stderr.write(`${file ?? "stdin"}: ${err.message}\n`);
+    return 1;
+  }
+  return 0;
+}
+
+process.exitCode = main();
@@ -4,6 +4,17 @@
 // - Attaches TZID to floating times (no Z and no TZID) without shifting the clock
 // - Leaves all-day events (VALUE=DATE) as-is
 // - Optionally overrides existing TZIDs if you pass `override=1`
+// - With `tzmode=preserve`, keeps each event's own zone (Windows names mapped to IANA)
+// - Several `url` parameters merge the feeds into one calendar (src/merge.ts)
+// - Named feeds from FEEDS_CONFIG are served at /feeds/<token>.ics (src/config.ts)
+// - `cleanup=1` strips Teams / Zoom / Webex boilerplate and extracts join links (src/cleanup.ts)
+// - `client=apple|thunderbird|outlook|generic` adapts the output to other calendar apps (src/clientProfile.ts)
+// - The same calendar as jCal at /calendar.json, and as a flat event list at /events (src/jcal.ts, src/events.ts)
+// - Responses are brotli / gzip compressed when the client accepts it (src/compress.ts)
+// - /healthz, /readyz and Prometheus /metrics; structured JSON logs with request IDs (src/health.ts, src/metrics.ts, src/log.ts)
+// - /validate and `?debug=1` report RFC 5545 problems in the upstream feed and in our output (src/validate.ts)
+// - Watched named feeds are polled for changes, served at /feeds/<token>/changes and sent to webhooks (src/watcher.ts)
+// - Named feeds are also served as read-only CalDAV collections at /dav/<token>/ (src/caldav.ts)
 //
 // Usage
 // 1) npm init -y && npm i express luxon && npm i -D typescript ts-node @types/express
@@ -13,563 +24,710 @@
 // 5) Open: http://localhost:3000/calendar.ics (or /calendar.ics?url=...&tz=Europe/Zurich)
 //
 // Notes
-// - Always adds VTIMEZONE blocks for Google Calendar compatibility
+// - Always adds VTIMEZONE blocks for Google Calendar compatibility, generated from the tz database (src/vtimezone.ts)
 // - Converts Windows timezone identifiers to IANA equivalents
+// - Parses the feed into a component tree (src/ics.ts) and transforms that tree (src/transform.ts)
 
+import { randomUUID } from "node:crypto";
 import express, { type Request, type Response } from "express";
 import cors from "cors";
 import { DateTime } from "luxon";
+import { cacheConfig, cacheSize, configureCache, strongEtag } from "./src/cache.js";
+import { buildDavCalendar, davErrorBody, DavError, davTarget, propfind, readOnlyCondition, report } from "./src/caldav.js";
+import { changesSince } from "./src/changes.js";
+import { CLIENT_NAMES, type ClientName } from "./src/clientProfile.js";
+import { compressBody, CONTENT_ENCODINGS, type ContentEncoding } from "./src/compress.js";
+import { feedForToken, feedsConfig, loadFeedsConfig, onFeedsConfigReload, type FeedConfig } from "./src/config.js";
+import { EventRangeError, listEvents, parseEventRange, type EventRange } from "./src/events.js";
+import { expandWindow } from "./src/expand.js";
+import { getTransformedFeed, type FeedResult } from "./src/feed.js";
+import { FilterError, parseEventFilter, withoutWindow, type EventFilter, type FilterInput } from "./src/filter.js";
+import { readiness } from "./src/health.js";
+import { IcsParseError, parseCalendar } from "./src/ics.js";
+import { componentToJCal } from "./src/jcal.js";
+import { configureLog, log, logConfig, LOG_LEVELS, withRequestId, type LogLevel } from "./src/log.js";
+import { MeetingOptionError, parseMeetingOptions, type MeetingInput, type MeetingOptions } from "./src/meetings.js";
+import { getMergedFeed, type MergedFeed, type SourceFeed } from "./src/merge.js";
+import { recordHttpRequest, registerGauge, renderMetrics } from "./src/metrics.js";
+import { PRIVACY_MODES, type PrivacyMode } from "./src/privacy.js";
+import { isLikelyIana, type TransformOptions, type TzMode } from "./src/transform.js";
+import { configureUpstream, DEFAULT_USER_AGENT, UpstreamError, upstreamConfig } from "./src/upstream.js";
+import { checkSourceUrl, configureUrlPolicy, DEFAULT_ALLOWED_HOSTS, UrlRejectedError, urlPolicy } from "./src/urlPolicy.js";
+import { redactReport, validateIcs, type ValidationReport } from "./src/validate.js";
+import { syncWatchers, watchStatus } from "./src/watcher.js";
+
+// Logging first, so everything below logs in the configured format
+configureLog({
+  level: LOG_LEVELS.includes(process.env.LOG_LEVEL as LogLevel) ? (process.env.LOG_LEVEL as LogLevel) : "info",
+  format: process.env.LOG_FORMAT === "text" ? "text" : "json",
+});
 
 const app = express();
 
+// Methods of the read-only CalDAV endpoints; everything else is refused as a write
+const DAV_METHODS = ["OPTIONS", "GET", "HEAD", "PROPFIND", "REPORT"];
+
+// CalDAV capabilities on every /dav response, including the OPTIONS requests the CORS middleware answers
+app.use("/dav", (_req, res, next) => {
+  res.setHeader("DAV", "1, 3, calendar-access");
+  res.setHeader("Allow", DAV_METHODS.join(", "));
+  next();
+});
+
 // Enable CORS for all origins
 app.use(cors({
   origin: true, // Allow all origins
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PROPFIND', 'REPORT'], // the last two for browser CalDAV clients
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Depth']
 }));
 
 // Strict env handling
 const DEFAULT_URL: string | undefined = process.env.SOURCE_ICS_URL;
 const DEFAULT_TZ: string = process.env.TARGET_TZ ?? "Europe/Zurich";
-
-// Minimal validator for IANA tz name (not exhaustive but avoids obvious errors)
-function isLikelyIana(name: unknown): name is string {
-  if (typeof name !== "string") return false;
-  return /\w+\/[-_A-Za-z0-9+]+/.test(name);
+// Optional CLDR territory used to pick Windows zone variants (e.g. CH maps "W. Europe Standard Time" to Europe/Zurich)
+const WINDOWS_TZ_TERRITORY: string | undefined = process.env.WINDOWS_TZ_TERRITORY;
+const DEFAULT_TZ_MODE: TzMode = process.env.TZ_MODE === "preserve" ? "preserve" : "convert";
+// Client profile used when neither the request nor the feed picks one (google, apple, thunderbird, outlook, generic)
+const DEFAULT_CLIENT: ClientName = CLIENT_NAMES.includes(process.env.CLIENT_PROFILE as ClientName) ? (process.env.CLIENT_PROFILE as ClientName) : "google";
+
+// Set ALLOW_URL_PARAM=0 to serve only SOURCE_ICS_URL and named feeds (no arbitrary ?url=)
+const ALLOW_URL_PARAM: boolean = process.env.ALLOW_URL_PARAM !== "0" && process.env.ALLOW_URL_PARAM !== "false";
+// Optional JSON/YAML file with named feeds served at /feeds/<token>.ics (reloaded on change)
+const FEEDS_CONFIG: string | undefined = process.env.FEEDS_CONFIG;
+
+// Numeric env values fall back to the default when missing or invalid
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
 }
 
-// Mapping Windows timezone identifiers to IANA equivalents (Switzerland-focused)
-function mapWindowsToIana(windowsTz: string): string {
-  const mapping: Record<string, string> = {
-    // Western Europe (Switzerland, France, etc.)
-    "W. Europe Standard Time": "Europe/Zurich",
-    "Romance Standard Time": "Europe/Zurich", 
-    "Central Europe Standard Time": "Europe/Zurich",
-    "Central European Standard Time": "Europe/Zurich",
-    
-    // Other common European mappings
-    "GMT Standard Time": "Europe/London",
-    "E. Europe Standard Time": "Europe/Bucharest",
-    "Russian Standard Time": "Europe/Moscow",
-    
-    // US mappings (if needed)
-    "Eastern Standard Time": "America/New_York",
-    "Central Standard Time": "America/Chicago",
-    "Mountain Standard Time": "America/Denver",
-    "Pacific Standard Time": "America/Los_Angeles",
-  };
-  
-  return mapping[windowsTz] || windowsTz; // Return original if no mapping found
-}
+// Poll interval suggested to clients (REFRESH-INTERVAL / X-PUBLISHED-TTL, for profiles that publish them)
+const REFRESH_INTERVAL_MINUTES = envNumber("REFRESH_INTERVAL_MINUTES", 60);
 
-// --- ICS helpers -----------------------------------------------------------
-
-// Unfold folded ICS lines (RFC5545: a CRLF followed by a single whitespace means continuation)
-function unfoldICSLines(raw: string): string[] {
-  const lines = raw.replace(/\r\n/g, "\n").split("\n");
-  const unfolded: string[] = [];
-  for (const line of lines) {
-    if (line.startsWith(" ") || line.startsWith("\t")) {
-      // continuation of previous line
-      const prev = unfolded.pop();
-      if (typeof prev === "string") {
-        unfolded.push(prev + line.slice(1));
-      } else {
-        // If there's no previous line, push as-is (shouldn't happen)
-        unfolded.push(line.trimStart());
-      }
-    } else {
-      unfolded.push(line);
-    }
-  }
-  return unfolded;
-}
+// Upstream cache: TTL before revalidating, memory bound, optional directory for persistence
+configureCache({
+  ttlSeconds: envNumber("CACHE_TTL_SECONDS", 600),
+  maxEntries: envNumber("CACHE_MAX_ENTRIES", 100),
+  ...(process.env.CACHE_DIR !== undefined ? { dir: process.env.CACHE_DIR } : {}),
+});
+registerGauge("cache_entries", "Feeds held in the memory cache", cacheSize);
+
+// Which upstream URLs may be fetched (SSRF protection); applies to every source, configured or not
+configureUrlPolicy({
+  allowHttp: process.env.ALLOW_HTTP === "1",
+  allowedHosts: process.env.ALLOWED_HOSTS !== undefined
+    ? process.env.ALLOWED_HOSTS.split(",").map((h) => h.trim()).filter((h) => h.length > 0)
+    : DEFAULT_ALLOWED_HOSTS,
+  allowPrivateNetworks: process.env.ALLOW_PRIVATE_NETWORKS === "1",
+  maxRedirects: envNumber("UPSTREAM_MAX_REDIRECTS", 3),
+  maxResponseBytes: envNumber("UPSTREAM_MAX_BYTES", 10 * 1024 * 1024),
+});
 
-// Fold long lines at 75 octets per RFC5545 (continuation line = 1 space + max 74 chars = 75 total)
-function foldICSLines(lines: string[]): string {
-  const folded: string[] = [];
-  for (const line of lines) {
-    if (line.length <= 75) {
-      folded.push(line);
-    } else {
-      let idx = 0;
-      while (idx < line.length) {
-        if (idx === 0) {
-          folded.push(line.slice(0, 75));
-          idx = 75;
-        } else {
-          const chunk = line.slice(idx, idx + 74); // 74 chars so " " + chunk = 75 octets total
-          folded.push(" " + chunk);
-          idx += 74;
-        }
-      }
-    }
+// Upstream requests: connect / total timeouts, retries for 429, 5xx and network errors
+configureUpstream({
+  connectTimeoutMs: envNumber("UPSTREAM_CONNECT_TIMEOUT_MS", 5000),
+  timeoutMs: envNumber("UPSTREAM_TIMEOUT_MS", 30_000),
+  retries: envNumber("UPSTREAM_RETRIES", 2),
+  userAgent: process.env.UPSTREAM_USER_AGENT ?? DEFAULT_USER_AGENT,
+});
+
+// Set COMPRESSION=0 when a reverse proxy in front already compresses responses
+const COMPRESSION: boolean = process.env.COMPRESSION !== "0" && process.env.COMPRESSION !== "false";
+
+if (FEEDS_CONFIG !== undefined) {
+  try {
+    loadFeedsConfig(FEEDS_CONFIG);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    log.error("Could not load feeds config", { error: msg });
+    process.exit(1);
   }
-  return folded.join("\r\n");
 }
 
-// Add a complete VTIMEZONE block compatible with Google Calendar format
-function vtimezoneBlock(tzid: string): string[] {
-  return [
-    "BEGIN:VTIMEZONE",
-    `TZID:${tzid}`,
-    `X-LIC-LOCATION:${tzid}`,
-    "BEGIN:DAYLIGHT",
-    "TZOFFSETFROM:+0100",
-    "TZOFFSETTO:+0200",
-    "TZNAME:GMT+2",
-    "DTSTART:19700329T020000",
-    "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
-    "END:DAYLIGHT",
-    "BEGIN:STANDARD",
-    "TZOFFSETFROM:+0200",
-    "TZOFFSETTO:+0100",
-    "TZNAME:GMT+1",
-    "DTSTART:19701025T030000",
-    "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
-    "END:STANDARD",
-    "END:VTIMEZONE",
-  ];
-}
+// --- Request context ---------------------------------------------------------
+
+// Probes and scrapes are frequent; their access log entries are debug level
+const QUIET_PATHS = new Set(["/healthz", "/readyz", "/metrics"]);
+// Incoming X-Request-Id values are reused when they look like an ID (from a proxy in front of us)
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Request ID (X-Request-Id), access log and request metrics. Everything logged while the request
+// is handled carries its ID.
+app.use((req, res, next) => {
+  const incoming = req.get("X-Request-Id");
+  const requestId = incoming !== undefined && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+  const started = performance.now();
+
+  res.on("finish", () => {
+    const seconds = (performance.now() - started) / 1000;
+    // Route patterns, never raw paths, so tokens stay out of metric labels
+    const route: string = typeof req.route?.path === "string" ? req.route.path : "unmatched";
+    recordHttpRequest(route, req.method, res.statusCode, seconds);
+    const fields = {
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs: Math.round(seconds * 1000),
+      ip: req.ip ?? req.socket.remoteAddress ?? "unknown",
+    };
+    withRequestId(requestId, () => {
+      if (QUIET_PATHS.has(req.path)) log.debug("Request completed", fields);
+      else log.info("Request completed", fields);
+    });
+  });
+  withRequestId(requestId, next);
+});
 
-// Transform DTSTART/DTEND lines
-// Rules:
-// - If ends with Z -> interpret as UTC, convert to target tz, output with TZID=tz and without the trailing Z
-// - If has VALUE=DATE -> leave unchanged (all-day)
-// - If has TZID already -> if override=true, convert from that TZ to target TZ, else leave as-is
-// - If floating (no Z, no TZID) -> attach TZID=tz without shifting
+// --- Express route ---------------------------------------------------------
+
+const JCAL_TYPE = "application/calendar+json";
 
-interface TransformOptions {
-  targetTz: string;
-  overrideExistingTz: boolean;
+// A query parameter as a list: repeated keys arrive as arrays, a single key as a string
+function queryList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string");
+  return typeof value === "string" ? [value] : [];
 }
 
-function isAllDay(line: string): boolean {
-  return /^(DTSTART|DTEND|RECURRENCE-ID|EXDATE);[^:]*VALUE=DATE:/i.test(line);
+// A single-valued query parameter (the first one if repeated)
+function queryString(value: unknown): string | undefined {
+  return queryList(value)[0];
 }
 
-function extractExistingTzid(params: string | undefined): string | undefined {
-  if (typeof params !== "string") return undefined;
-  const m = params.match(/TZID=([^;:]+)/i);
-  return m?.[1];
+// Event filter options from the query string (same names as the `filter:` block of named feeds)
+function queryFilter(query: Request["query"]): EventFilter | undefined {
+  const input: FilterInput = {};
+  for (const key of ["past", "future", "include", "exclude"] as const) {
+    const value = queryString(query[key]);
+    if (value !== undefined) input[key] = value;
+  }
+  for (const [param, key] of [["categories", "categories"], ["excludecategories", "excludeCategories"], ["busy", "busy"]] as const) {
+    const values = queryList(query[param]);
+    if (values.length > 0) input[key] = values;
+  }
+  return parseEventFilter(input);
 }
 
-function transformDateTimeLine(line: string, opts: TransformOptions): string {
-  // Match property, optional params, and value
-  const m = line.match(/^(DTSTART|DTEND|RECURRENCE-ID|EXDATE)(;[^:]+)?:([^\r\n]+)$/i);
-  if (m === null) return line;
+// Meeting handling options from the query string (same names as the `meetings:` block of named feeds)
+function queryMeetings(query: Request["query"]): MeetingOptions | undefined {
+  const input: MeetingInput = {};
+  for (const key of ["cancelled", "declined", "unanswered"] as const) {
+    const value = queryString(query[key]);
+    if (value !== undefined) input[key] = value;
+  }
+  const owners = queryList(query.owner);
+  if (owners.length > 0) input.owner = owners;
+  return parseMeetingOptions(input);
+}
 
-  const prop = m[1];
-  const params = typeof m[2] === "string" ? m[2] : undefined; // includes leading ';'
-  const value = m[3];
+// Map upstream failures to 502 and URL policy rejections to their 4xx status;
+// returns false for errors the caller should treat as internal
+function sendUpstreamFailure(res: Response, err: unknown): boolean {
+  if (err instanceof UrlRejectedError) {
+    log.warn("Rejected source", { error: err.message });
+    res.status(err.status).type("text/plain").send(err.message);
+    return true;
+  }
+  if (err instanceof UpstreamError) {
+    log.error("Upstream fetch failed", { error: err.message, upstreamStatus: err.status });
+    res.status(502).type("text/plain").send(err.message);
+    return true;
+  }
+  if (err instanceof IcsParseError) {
+    log.error("Upstream did not return a calendar", { error: err.message });
+    res.status(502).type("text/plain").send("Upstream did not return an iCalendar feed");
+    return true;
+  }
+  return false;
+}
 
-  if (isAllDay(line)) return line; // keep all-day intact
+// Transformed calendar text shared by every output format, with its validators and diagnostic headers
+interface LoadedCalendar {
+  body: string;
+  etag: string;
+  lastModified?: string;
+  headers: Record<string, string>; // X-Cache or X-Source-Status
+  sourceTexts: (string | undefined)[]; // upstream feeds as received, by position (undefined for failed sources)
+}
 
-  const hasZ = value?.endsWith("Z") ?? false;
-  const existingTz = extractExistingTzid(params);
+// Load the calendar for a list of sources: the cached single feed, or a merged one when there are
+// several sources or per-source decorations. Upstream failures are answered here (502 / 4xx) and
+// yield undefined; anything else is thrown.
+async function loadCalendar(res: Response, sources: SourceFeed[], opts: TransformOptions): Promise<LoadedCalendar | undefined> {
+  const decorated = sources.some((s) => s.prefix !== undefined || s.category !== undefined || s.color !== undefined);
+  if (sources.length > 1 || decorated) {
+    let merged: MergedFeed;
+    try {
+      merged = await getMergedFeed(sources, opts);
+    } catch (err: unknown) {
+      if (sendUpstreamFailure(res, err)) return undefined;
+      throw err;
+    }
 
-  // DATE-TIME formats are either YYYYMMDDTHHMMSS(Z?) or YYYYMMDDTHHMM(Z?)
-  const dtBasic = value?.replace("Z", "") ?? "";
-  const hasSeconds = /T\d{6}$/.test(dtBasic);
-  const fmt = hasSeconds ? "yyyyLLdd'T'HHmmss" : "yyyyLLdd'T'HHmm";
+    for (const report of merged.sources) {
+      if (report.status === "ok") continue;
+      log.warn("Merged source not fresh", { source: report.index, status: report.status, error: report.error });
+    }
+    log.info("Merged sources", { sources: merged.sources.length, characters: merged.body.length });
+
+    // Sources are identified by position only; their URLs may carry credentials
+    return {
+      body: merged.body,
+      etag: merged.etag,
+      ...(merged.lastModified !== undefined ? { lastModified: merged.lastModified } : {}),
+      headers: { "X-Source-Status": merged.sources.map((r) => `${r.index}=${r.status}`).join(", ") },
+      sourceTexts: merged.sourceTexts,
+    };
+  }
 
-  // Helper to rebuild params string
-  const buildParams = (p: string | undefined, inject: string): string => {
-    const base = typeof p === "string" ? p.replace(/^;/, "") : ""; // drop leading ';'
-    const parts = base.length > 0 ? base.split(";") : [];
-    // Remove existing TZID if any
-    const filtered = parts.filter((kv) => !kv.toUpperCase().startsWith("TZID="));
-    return ";" + [inject, ...filtered].join(";");
-  };
+  let feed: FeedResult;
+  try {
+    feed = await getTransformedFeed(sources[0]!.url, opts);
+  } catch (err: unknown) {
+    if (sendUpstreamFailure(res, err)) return undefined;
+    throw err;
+  }
 
-  // 1) UTC -> convert to target tz (Google Calendar style: local time with TZID)
-  if (hasZ) {
-    const dtUtc = DateTime.fromFormat(dtBasic, fmt, { zone: "utc" });
-    if (!dtUtc.isValid) return line; // don't risk corrupting
-    const local = dtUtc.setZone(opts.targetTz);
-    const localStr = local.toFormat(hasSeconds ? "yyyyLLdd'T'HHmmss" : "yyyyLLdd'T'HHmm");
-    const newParams = buildParams(params, `TZID=${opts.targetTz}`);
-    return `${prop}${newParams}:${localStr}`;
+  const { entry, cacheStatus, error } = feed;
+  if (error !== undefined) {
+    log.warn("Serving last good copy", { error: error.message, fetchedAt: new Date(entry.fetchedAt).toISOString() });
   }
+  log.info("Feed loaded", { cache: cacheStatus, characters: entry.body.length });
+  return { body: entry.body, etag: entry.etag, lastModified: entry.lastModified, headers: { "X-Cache": cacheStatus }, sourceTexts: [entry.source] };
+}
 
-  // 2) Has existing TZID
-  if (typeof existingTz === "string" && existingTz.length > 0) {
-    if (!opts.overrideExistingTz) return line; // respect
-    // Map Windows timezone to IANA equivalent, then convert to target timezone
-    const mappedTz = mapWindowsToIana(existingTz);
-    const fromZone = isLikelyIana(mappedTz) ? mappedTz : "utc"; // fallback
-    const dtLocal = DateTime.fromFormat(dtBasic, fmt, { zone: fromZone });
-    if (!dtLocal.isValid) return line;
-    const conv = dtLocal.setZone(opts.targetTz);
-    const convStr = conv.toFormat(hasSeconds ? "yyyyLLdd'T'HHmmss" : "yyyyLLdd'T'HHmm");
-    const newParams = buildParams(params, `TZID=${opts.targetTz}`);
-    return `${prop}${newParams}:${convStr}`;
+// Send a representation of the calendar, brotli / gzip compressed when the client accepts it.
+// Strong validators let clients revalidate; Express answers 304 when If-None-Match/If-Modified-Since match.
+function sendRepresentation(res: Response, calendar: LoadedCalendar, contentType: string, body: string, etag: string): void {
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Cache-Control", `public, max-age=${cacheConfig().ttlSeconds}`);
+  for (const [name, value] of Object.entries(calendar.headers)) res.setHeader(name, value);
+  if (calendar.lastModified !== undefined) res.setHeader("Last-Modified", calendar.lastModified);
+
+  if (COMPRESSION) {
+    res.vary("Accept-Encoding");
+    const accepted = res.req.acceptsEncodings([...CONTENT_ENCODINGS, "identity"]);
+    const compressed = accepted === "br" || accepted === "gzip" ? compressBody(body, etag, accepted as ContentEncoding) : undefined;
+    if (compressed !== undefined) {
+      res.setHeader("Content-Encoding", accepted as ContentEncoding);
+      res.setHeader("ETag", compressed.etag);
+      res.status(200).send(compressed.body);
+      return;
+    }
   }
+  res.setHeader("ETag", etag);
+  res.status(200).send(body);
+}
 
-  // 3) Floating -> attach TZID without shifting (treat times as local wall clock)
-  const newParams = buildParams(params, `TZID=${opts.targetTz}`);
-  return `${prop}${newParams}:${dtBasic}`;
+function sendIcs(res: Response, calendar: LoadedCalendar): void {
+  sendRepresentation(res, calendar, "text/calendar; charset=utf-8", calendar.body, calendar.etag);
 }
 
-function transformIcs(ics: string, targetTz: string, overrideExistingTz: boolean): string {
-  const lines = unfoldICSLines(ics);
+// jCal (RFC 7265) of the same transformed calendar, so the ICS and JSON views never disagree
+function sendJCal(res: Response, calendar: LoadedCalendar): void {
+  const body = JSON.stringify(componentToJCal(parseCalendar(calendar.body)));
+  sendRepresentation(res, calendar, "application/calendar+json; charset=utf-8", body, strongEtag(body));
+}
 
-  // Track if we're inside a VTIMEZONE block
-  let insideVTimezone = false;
+function sourceReport(report: ValidationReport, request: CalendarRequest): ValidationReport {
+  return request.redactSources ? redactReport(report) : report;
+}
 
-  // Transform DTSTART/DTEND/RECURRENCE-ID (but not inside VTIMEZONE blocks)
-  const transformed = lines.map((line) => {
-    const upper = line.toUpperCase();
-    
-    // Track VTIMEZONE blocks
-    if (upper === "BEGIN:VTIMEZONE") {
-      insideVTimezone = true;
-      return line;
-    }
-    if (upper === "END:VTIMEZONE") {
-      insideVTimezone = false;
-      return line;
-    }
-    
-    // Don't transform DTSTART/DTEND inside VTIMEZONE blocks
-    if (insideVTimezone) {
-      return line;
-    }
-    
-    // Transform DTSTART/DTEND/RECURRENCE-ID/EXDATE outside VTIMEZONE blocks
-    if (upper.startsWith("DTSTART") || upper.startsWith("DTEND") || upper.startsWith("RECURRENCE-ID") || upper.startsWith("EXDATE")) {
-      return transformDateTimeLine(line, { targetTz, overrideExistingTz });
-    }
-    return line;
-  });
+// RFC 5545 report for each upstream feed and for the transformed output (see src/validate.ts).
+// `valid` is the output's verdict: that is what calendar clients get. Named feeds redact the source reports
+// unless the feed allows them: they would show events that the filter, privacy mode or rules take out.
+function sendValidation(_req: Request, res: Response, calendar: LoadedCalendar, request: CalendarRequest): void {
+  const zones = {
+    targetTz: request.opts.targetTz,
+    ...(request.opts.windowsTerritory !== undefined ? { windowsTerritory: request.opts.windowsTerritory } : {}),
+  };
+  const output = validateIcs(calendar.body, zones);
+  const sources = calendar.sourceTexts.map((text, i) =>
+    text !== undefined ? { source: i + 1, ...sourceReport(validateIcs(text, zones), request) } : { source: i + 1, status: "failed" });
+  log.info("Validated feed", { errors: output.errors, warnings: output.warnings, sources: sources.length });
+  res.setHeader("Cache-Control", "no-store");
+  for (const [name, value] of Object.entries(calendar.headers)) res.setHeader(name, value);
+  res.status(200).json({ valid: output.valid, sources, output });
+}
 
-  // Replace old VTIMEZONE blocks with target timezone block (Google Calendar compatible)
-  if (isLikelyIana(targetTz)) {
-    const hasTargetVtz = transformed.some((l) => 
-      l.toUpperCase().startsWith("TZID:") && l.includes(targetTz)
-    );
-    if (!hasTargetVtz) {
-      // Find and replace the first VTIMEZONE block
-      const vtzStartIdx = transformed.findIndex((l) => l.toUpperCase().startsWith("BEGIN:VTIMEZONE"));
-      if (vtzStartIdx >= 0) {
-        const vtzEndIdx = transformed.findIndex((l, idx) => 
-          idx > vtzStartIdx && l.toUpperCase().startsWith("END:VTIMEZONE")
-        );
-        if (vtzEndIdx >= 0) {
-          // Replace the entire VTIMEZONE block
-          const block = vtimezoneBlock(targetTz);
-          transformed.splice(vtzStartIdx, vtzEndIdx - vtzStartIdx + 1, ...block);
-        }
-      } else {
-        // No VTIMEZONE found, insert before first VEVENT
-        const idx = transformed.findIndex((l) => l.toUpperCase().startsWith("BEGIN:VEVENT"));
-        const block = vtimezoneBlock(targetTz);
-        if (idx >= 0) transformed.splice(idx, 0, ...block);
-        else transformed.push(...block);
-      }
-    }
+// ICS unless the client asks for jCal (Accept: application/calendar+json); `debug=1` sends the validation report
+function sendNegotiated(req: Request, res: Response, calendar: LoadedCalendar, request: CalendarRequest): void {
+  if (queryString(req.query.debug) === "1") {
+    sendValidation(req, res, calendar, request);
+    return;
   }
+  res.vary("Accept");
+  if (req.accepts(["text/calendar", JCAL_TYPE]) === JCAL_TYPE) sendJCal(res, calendar);
+  else sendIcs(res, calendar);
+}
+
+// Per-request transform settings plus the server-wide ones
+function transformOptions(settings: Omit<TransformOptions, "windowsTerritory" | "refreshMinutes">): TransformOptions {
+  return {
+    ...settings,
+    ...(WINDOWS_TZ_TERRITORY !== undefined ? { windowsTerritory: WINDOWS_TZ_TERRITORY } : {}),
+    refreshMinutes: REFRESH_INTERVAL_MINUTES,
+  };
+}
+
+// The sources a request resolves to and how to transform them
+interface CalendarRequest {
+  sources: SourceFeed[];
+  opts: TransformOptions;
+  redactSources: boolean; // validation reports of the upstream feeds without UIDs and values
+}
 
-  // Update PRODID to be Google Calendar compatible
-  const prodidIdx = transformed.findIndex((l) => l.toUpperCase().startsWith("PRODID:"));
-  if (prodidIdx >= 0) {
-    transformed[prodidIdx] = "PRODID:-//Google Inc//Google Calendar 70.9054//EN";
+// Resolves a request, or answers it (4xx) and returns undefined
+type RequestResolver = (req: Request, res: Response) => CalendarRequest | undefined;
+// Sends the loaded calendar in the route's format
+type CalendarResponder = (req: Request, res: Response, calendar: LoadedCalendar, request: CalendarRequest) => void;
+
+// Sources and options from the query string (the /calendar.* and /events endpoints)
+// The query string is never logged: `url` carries the Outlook publishing secret
+function resolveQuery(req: Request, res: Response): CalendarRequest | undefined {
+  const tzParam: unknown = req.query.tz;
+  const overrideParam: unknown = req.query.override;
+  const tzModeParam: unknown = req.query.tzmode;
+
+  // One entry per `url`; prefix/category/color are matched to the urls by position
+  const urls = queryList(req.query.url).filter((u) => u.length > 0);
+  const prefixes = queryList(req.query.prefix);
+  const categories = queryList(req.query.category);
+  const colors = queryList(req.query.color);
+  if (urls.length > 0 && !ALLOW_URL_PARAM) {
+    log.warn("Rejected ?url= request (ALLOW_URL_PARAM=0)");
+    res.status(403).type("text/plain").send("The url parameter is disabled on this server. Use a named feed (/feeds/<token>.ics).");
+    return undefined;
+  }
+  if (urls.length === 0 && typeof DEFAULT_URL === "string" && DEFAULT_URL.length > 0) urls.push(DEFAULT_URL);
+  if (urls.length === 0) {
+    log.warn("Missing source ICS URL");
+    res.status(400).type("text/plain").send("Missing source ICS URL. Provide ?url=... or set SOURCE_ICS_URL env.");
+    return undefined;
+  }
+  const sources: SourceFeed[] = urls.map((url, i) => ({
+    url,
+    ...(prefixes[i] !== undefined ? { prefix: prefixes[i] } : {}),
+    ...(categories[i] !== undefined ? { category: categories[i] } : {}),
+    ...(colors[i] !== undefined ? { color: colors[i] } : {}),
+  }));
+
+  // Refuse disallowed URLs before the cache is consulted, so a cached copy can't bypass the policy
+  try {
+    for (const source of sources) checkSourceUrl(source.url);
+  } catch (err: unknown) {
+    if (sendUpstreamFailure(res, err)) return undefined;
+    throw err;
   }
 
-  // Fix VEVENT structure: correct malformed descriptions and reorder fields
-  const fixed = fixVEventStructure(transformed);
+  const targetTz: string = isLikelyIana(tzParam) ? (tzParam as string) : DEFAULT_TZ;
+  const overrideExistingTz: boolean = typeof overrideParam === "string" ? overrideParam === "1" : true; // Default to true to force TZID replacement
+  const tzMode: TzMode = tzModeParam === "preserve" || tzModeParam === "convert" ? tzModeParam : DEFAULT_TZ_MODE;
 
-  return foldICSLines(fixed) + "\r\n"; // ICS should end with CRLF
-}
+  const privacyParam = queryString(req.query.privacy) ?? "full";
+  if (!PRIVACY_MODES.includes(privacyParam as PrivacyMode)) {
+    log.warn("Invalid privacy mode");
+    res.status(400).type("text/plain").send(`Invalid privacy mode (use ${PRIVACY_MODES.join(", ")})`);
+    return undefined;
+  }
+  const privacy = privacyParam as PrivacyMode;
 
-// Fix VEVENT structure: correct malformed descriptions and reorder fields
-// This ensures Google Calendar compatibility by:
-// 1. Fixing malformed DESCRIPTION fields (incorrect line breaks)
-// 2. Reordering fields to standard iCalendar order (UID, DTSTAMP, DTSTART, DTEND, SUMMARY, DESCRIPTION, etc.)
-function fixVEventStructure(lines: string[]): string[] {
-  const result: string[] = [];
-  let currentVEvent: string[] = [];
-  let insideVEvent = false;
-
-  // Standard field order for VEVENT (RFC 5545 recommended order)
-  const fieldOrder = [
-    'UID',
-    'DTSTAMP',
-    'DTSTART',
-    'DTEND',
-    'DURATION',
-    'RRULE',
-    'RDATE',
-    'EXDATE',
-    'EXRULE',
-    'RECURRENCE-ID',
-    'SUMMARY',
-    'DESCRIPTION',
-    'LOCATION',
-    'CLASS',
-    'PRIORITY',
-    'TRANSP',
-    'STATUS',
-    'SEQUENCE',
-    'ORGANIZER',
-    'ATTENDEE',
-    'CREATED',
-    'LAST-MODIFIED',
-    'URL',
-  ];
-
-  function getFieldName(line: string): string {
-    const colonIdx = line.indexOf(':');
-    if (colonIdx === -1) return '';
-    const fieldPart = line.substring(0, colonIdx);
-    const semicolonIdx = fieldPart.indexOf(';');
-    return semicolonIdx === -1 ? fieldPart.toUpperCase() : fieldPart.substring(0, semicolonIdx).toUpperCase();
+  let filter: EventFilter | undefined;
+  let meetings: MeetingOptions | undefined;
+  try {
+    filter = queryFilter(req.query);
+    meetings = queryMeetings(req.query);
+  } catch (err: unknown) {
+    if (!(err instanceof FilterError || err instanceof MeetingOptionError)) throw err;
+    log.warn("Invalid request", { error: err.message });
+    res.status(400).type("text/plain").send(err.message);
+    return undefined;
   }
 
-  function fixDescription(descLines: string[]): string[] {
-    if (descLines.length === 0) return [];
-    
-    // Extract the actual description content (remove "DESCRIPTION:" prefix and continuation spaces)
-    const descParts: string[] = [];
-    for (const line of descLines) {
-      const colonIdx = line.indexOf(':');
-      if (colonIdx !== -1) {
-        // First line: includes "DESCRIPTION:"
-        descParts.push(line.substring(colonIdx + 1));
-      } else if (line.startsWith(' ') || line.startsWith('\t')) {
-        // Continuation line: starts with space/tab
-        descParts.push(line.substring(1));
-      } else {
-        // Shouldn't happen, but handle it
-        descParts.push(line);
-      }
-    }
-    
-    // Join all description parts
-    let fullDesc = descParts.join('');
-    
-    // Fix malformed line breaks at the end
-    // Remove trailing backslash followed by whitespace and newline
-    // Pattern: "text\\\n" or "text\\ \n" should become "text"
-    fullDesc = fullDesc.replace(/\\\s*$/g, '');
-    
-    // Remove any trailing standalone newline characters that shouldn't be there
-    fullDesc = fullDesc.replace(/\n\s*$/g, '');
-    
-    // If description is empty after cleaning, return empty array
-    if (fullDesc.trim().length === 0) {
-      return [];
-    }
-    
-    // Rebuild DESCRIPTION field with proper folding (max 75 octets per line)
-    const prefix = "DESCRIPTION:";
-    const maxFirstLineContent = 75 - prefix.length; // 63 chars so first line = 75 total
-    const fixed: string[] = [];
-    if (fullDesc.length <= maxFirstLineContent) {
-      fixed.push(`DESCRIPTION:${fullDesc}`);
-    } else {
-      fixed.push(prefix + fullDesc.substring(0, maxFirstLineContent));
-      for (let i = maxFirstLineContent; i < fullDesc.length; i += 74) {
-        fixed.push(" " + fullDesc.substring(i, i + 74));
-      }
-    }
-    
-    return fixed;
+  const expand = queryString(req.query.expand) === "1";
+  const cleanup = queryString(req.query.cleanup) === "1";
+  const joinLocation = queryString(req.query.joinlocation) === "1";
+
+  const clientParam = queryString(req.query.client) ?? DEFAULT_CLIENT;
+  if (!CLIENT_NAMES.includes(clientParam as ClientName)) {
+    log.warn("Invalid client profile");
+    res.status(400).type("text/plain").send(`Invalid client (use ${CLIENT_NAMES.join(", ")})`);
+    return undefined;
   }
+  const calendarName = queryString(req.query.name);
+
+  return {
+    sources,
+    redactSources: false, // the caller has the upstream URLs anyway
+    opts: transformOptions({
+      targetTz,
+      overrideExistingTz,
+      tzMode,
+      privacy,
+      ...(filter !== undefined ? { filter } : {}),
+      ...(meetings !== undefined ? { meetings } : {}),
+      ...(expand ? { expand: expandWindow(filter) } : {}),
+      ...(cleanup ? { cleanup: { joinLocation } } : {}),
+      client: clientParam as ClientName,
+      ...(calendarName !== undefined && calendarName.length > 0 ? { calendarName } : {}),
+    }),
+  };
+}
 
-  function sortVEventFields(eventLines: string[]): string[] {
-    // Exclude BEGIN/END so we can always emit BEGIN:VEVENT first and END:VEVENT last
-    const contentLines = eventLines.filter(
-      (l) => l.toUpperCase() !== "BEGIN:VEVENT" && l.toUpperCase() !== "END:VEVENT"
-    );
-
-    const fields = new Map<string, string[]>();
-    const xFields: string[] = []; // X-* fields go at the end
-    const otherFields: string[] = []; // Unknown fields
-
-    let currentField: string | null = null;
-    let currentFieldLines: string[] = [];
-
-    for (const line of contentLines) {
-      const fieldName = getFieldName(line);
-      
-      if (fieldName === '') {
-        // Continuation line
-        if (currentField) {
-          currentFieldLines.push(line);
-        }
-        continue;
-      }
-
-      // Save previous field
-      if (currentField) {
-        if (currentField.startsWith('X-')) {
-          xFields.push(...currentFieldLines);
-        } else if (fieldOrder.includes(currentField)) {
-          fields.set(currentField, currentFieldLines);
-        } else {
-          otherFields.push(...currentFieldLines);
-        }
-        currentFieldLines = [];
-      }
-
-      currentField = fieldName;
-      currentFieldLines.push(line);
-    }
+// Transform settings of a named feed
+function feedTransformOptions(feed: FeedConfig): TransformOptions {
+  return transformOptions({
+    targetTz: feed.tz ?? DEFAULT_TZ,
+    overrideExistingTz: feed.override ?? true,
+    tzMode: feed.tzMode ?? DEFAULT_TZ_MODE,
+    privacy: feed.privacy ?? "full",
+    ...(feed.filter !== undefined ? { filter: feed.filter } : {}),
+    ...(feed.meetings !== undefined ? { meetings: feed.meetings } : {}),
+    ...(feed.expand === true ? { expand: expandWindow(feed.filter) } : {}),
+    ...(feed.cleanup === true ? { cleanup: { joinLocation: feed.joinLocation === true } } : {}),
+    ...(feed.rules !== undefined ? { rules: feed.rules } : {}),
+    client: feed.client ?? DEFAULT_CLIENT,
+    calendarName: feed.calendarName ?? feed.name,
+  });
+}
 
-    // Save last field
-    if (currentField) {
-      if (currentField.startsWith('X-')) {
-        xFields.push(...currentFieldLines);
-      } else if (fieldOrder.includes(currentField)) {
-        fields.set(currentField, currentFieldLines);
-      } else {
-        otherFields.push(...currentFieldLines);
-      }
-    }
+// Named feeds from FEEDS_CONFIG: the token is the only credential, so only the feed name is logged
+function resolveFeed(req: Request, res: Response): CalendarRequest | undefined {
+  const feed = feedForToken(String(req.params.token));
+  if (feed === undefined) {
+    log.warn("Unknown feed token");
+    res.status(404).type("text/plain").send("Unknown feed");
+    return undefined;
+  }
+  return { sources: feed.sources, opts: feedTransformOptions(feed), redactSources: feed.sourceReports !== true };
+}
 
-    // Build sorted result
-    const sorted: string[] = [];
-    
-    // Add fields in standard order
-    for (const fieldName of fieldOrder) {
-      const fieldLines = fields.get(fieldName);
-      if (fieldLines) {
-        // Special handling for DESCRIPTION: fix malformed content
-        if (fieldName === 'DESCRIPTION') {
-          sorted.push(...fixDescription(fieldLines));
-        } else {
-          sorted.push(...fieldLines);
-        }
-      }
-    }
-    
-    // Add other known fields
-    sorted.push(...otherFields);
-    
-    // Add X-* fields at the end
-    sorted.push(...xFields);
-
-    return sorted;
+// /events expands series itself over its own range, so it shares the cache entry of the unexpanded feed
+function withoutExpansion(resolve: RequestResolver): RequestResolver {
+  return (req, res) => {
+    const request = resolve(req, res);
+    if (request === undefined) return undefined;
+    const opts = { ...request.opts };
+    delete opts.expand;
+    return { ...request, opts };
+  };
+}
+
+// Normalised events overlapping `from` / `to` (ISO 8601, read in the target zone)
+function sendEvents(req: Request, res: Response, calendar: LoadedCalendar, request: CalendarRequest): void {
+  const zone = request.opts.targetTz;
+  let range: EventRange;
+  try {
+    range = parseEventRange(queryString(req.query.from), queryString(req.query.to), zone);
+  } catch (err: unknown) {
+    if (!(err instanceof EventRangeError)) throw err;
+    log.warn("Invalid event range", { error: err.message });
+    res.status(400).type("text/plain").send(err.message);
+    return;
   }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (typeof line !== 'string') continue;
-    const upper = line.toUpperCase();
+  const events = listEvents(parseCalendar(calendar.body), range, zone);
+  const body = JSON.stringify({
+    from: range.from.toISO({ suppressMilliseconds: true }),
+    to: range.to.toISO({ suppressMilliseconds: true }),
+    events,
+  });
+  log.info("Listed events", { events: events.length });
+  sendRepresentation(res, calendar, "application/json; charset=utf-8", body, strongEtag(body));
+}
 
-    if (upper === 'BEGIN:VEVENT') {
-      insideVEvent = true;
-      currentVEvent = [line];
-      continue;
+// Route handler: resolve the request, load the calendar once, answer in the route's format
+function calendarRoute(resolve: RequestResolver, respond: CalendarResponder) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const request = resolve(req, res);
+      if (request === undefined) return;
+
+      const { sources, opts } = request;
+      log.info("Processing", {
+        sources: sources.length,
+        targetTz: opts.targetTz,
+        override: opts.overrideExistingTz,
+        tzMode: opts.tzMode,
+        privacy: opts.privacy ?? "full",
+        client: opts.client ?? "google",
+        filtered: opts.filter !== undefined,
+        meetings: opts.meetings !== undefined,
+        expanded: opts.expand !== undefined,
+        cleaned: opts.cleanup !== undefined,
+      });
+
+      const calendar = await loadCalendar(res, sources, opts);
+      if (calendar === undefined) return;
+      respond(req, res, calendar, request);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      log.error("Request failed", { error: msg });
+      res.status(500).type("text/plain").send(`Proxy error: ${msg}`);
     }
+  };
+}
 
-    if (upper === 'END:VEVENT') {
-      if (insideVEvent) {
-        // Emit BEGIN:VEVENT first, then sorted properties, then END:VEVENT (RFC 5545 order)
-        const sorted = sortVEventFields(currentVEvent);
-        result.push('BEGIN:VEVENT');
-        result.push(...sorted);
-        result.push('END:VEVENT');
-        currentVEvent = [];
-        insideVEvent = false;
-      } else {
-        result.push(line);
-      }
-      continue;
-    }
+// --- CalDAV ------------------------------------------------------------------
 
-    if (insideVEvent) {
-      currentVEvent.push(line);
-    } else {
-      result.push(line);
-    }
+// Named feeds over CalDAV: the same resolution as /feeds/<token>.ics, with writes refused before anything is loaded
+function resolveDav(req: Request, res: Response): CalendarRequest | undefined {
+  const request = resolveFeed(req, res);
+  if (request === undefined) return undefined;
+  if (!DAV_METHODS.includes(req.method)) {
+    log.warn("Rejected CalDAV write", { method: req.method });
+    res.status(403).type("application/xml; charset=utf-8").send(davErrorBody(readOnlyCondition(req.path)));
+    return undefined;
   }
+  return request;
+}
 
-  // Handle case where file ends without END:VEVENT (shouldn't happen, but be safe)
-  if (insideVEvent && currentVEvent.length > 0) {
-    const sorted = sortVEventFields(currentVEvent);
-    result.push('BEGIN:VEVENT');
-    result.push(...sorted);
-    result.push('END:VEVENT');
+// PROPFIND, REPORT and GET on the principal (/dav/<token>/), the calendar (/dav/<token>/calendar/) and its objects.
+// Objects are sent uncompressed, so their ETag is always the getetag the client saw in the multistatus.
+function sendDav(req: Request, res: Response, calendar: LoadedCalendar, request: CalendarRequest): void {
+  const principal = `/dav/${String(req.params.token)}/`;
+  const dav = buildDavCalendar(parseCalendar(calendar.body), principal, request.opts.calendarName ?? "Calendar", calendar.etag, request.opts.targetTz);
+  const segments: unknown = req.params.path;
+  const target = davTarget(dav, Array.isArray(segments) ? segments.map(String) : []);
+  if (target === undefined) {
+    res.status(404).type("text/plain").send("Not found");
+    return;
   }
+  log.info("CalDAV request", { method: req.method, target: target.kind, objects: dav.objects.size });
 
-  return result;
+  try {
+    if (req.method === "PROPFIND" || req.method === "REPORT") {
+      const body = typeof req.body === "string" ? req.body : "";
+      // Depth: infinity (the default) is served as 1; there is nothing deeper than the calendar's objects
+      const xml = req.method === "PROPFIND" ? propfind(dav, target, req.get("Depth") === "0" ? 0 : 1, body) : report(dav, target, body);
+      res.setHeader("Cache-Control", "no-store");
+      res.status(207).type("application/xml; charset=utf-8").send(xml);
+    } else if (target.kind === "object") {
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("ETag", target.object.etag);
+      res.status(200).send(target.object.body);
+    } else if (target.kind === "calendar") {
+      sendIcs(res, calendar);
+    } else {
+      res.setHeader("Allow", "OPTIONS, PROPFIND");
+      res.status(405).type("text/plain").send("The principal has no content; use PROPFIND");
+    }
+  } catch (err: unknown) {
+    if (!(err instanceof DavError)) throw err;
+    log.warn("Invalid CalDAV request", { method: req.method, error: err.message });
+    if (err.condition !== undefined) res.status(err.status).type("application/xml; charset=utf-8").send(davErrorBody(err.condition));
+    else res.status(err.status).type("text/plain").send(err.message);
+  }
 }
 
-// --- Express route ---------------------------------------------------------
+// --- Watched feeds ------------------------------------------------------------
+
+// Options for change tracking: the feed's own, without the rolling date window and without expansion,
+// so events entering or leaving the window as the days pass are not reported as added or removed
+function watchTransformOptions(feed: FeedConfig): TransformOptions {
+  const opts = feedTransformOptions(feed);
+  delete opts.expand;
+  const filter = opts.filter !== undefined ? withoutWindow(opts.filter) : undefined;
+  if (filter !== undefined) opts.filter = filter;
+  else delete opts.filter;
+  return opts;
+}
 
-app.get("/calendar.ics", async (req: Request, res: Response): Promise<void> => {
-  const startTime = Date.now();
-  const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
-  
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.url} from ${clientIP}`);
-  console.log(`[${new Date().toISOString()}] Query params:`, req.query);
-  
-  try {
-    const urlParam: unknown = req.query.url;
-    const tzParam: unknown = req.query.tz;
-    const overrideParam: unknown = req.query.override;
-
-    const sourceUrl: string | undefined = typeof urlParam === "string" && urlParam.length > 0 ? urlParam : DEFAULT_URL;
-    if (typeof sourceUrl !== "string" || sourceUrl.length === 0) {
-      console.log(`[${new Date().toISOString()}] ERROR: Missing source ICS URL`);
-      res.status(400).type("text/plain").send("Missing source ICS URL. Provide ?url=... or set SOURCE_ICS_URL env.");
-      return;
-    }
+// Poll loader for watched feeds: the feed's transformed calendar (see watchTransformOptions), revalidated
+// with upstream on every poll rather than read from the cache. Rounds where upstream failed and only a
+// stale copy exists are skipped.
+async function pollFeed(feed: FeedConfig): Promise<{ body: string; zone: string } | undefined> {
+  const opts = watchTransformOptions(feed);
+  const decorated = feed.sources.some((s) => s.prefix !== undefined || s.category !== undefined || s.color !== undefined);
+  if (feed.sources.length > 1 || decorated) {
+    const merged = await getMergedFeed(feed.sources, opts, true);
+    if (merged.sources.some((r) => r.status !== "ok")) return undefined;
+    return { body: merged.body, zone: opts.targetTz };
+  }
+  const { entry, cacheStatus } = await getTransformedFeed(feed.sources[0]!.url, opts, true);
+  return cacheStatus === "STALE" ? undefined : { body: entry.body, zone: opts.targetTz };
+}
 
-    const targetTz: string = isLikelyIana(tzParam) ? (tzParam as string) : DEFAULT_TZ;
-    const overrideExistingTz: boolean = typeof overrideParam === "string" ? overrideParam === "1" : true; // Default to true to force TZID replacement
-    
-    console.log(`[${new Date().toISOString()}] Processing: sourceUrl=${sourceUrl}, targetTz=${targetTz}, override=${overrideExistingTz}`);
+if (FEEDS_CONFIG !== undefined) {
+  syncWatchers(feedsConfig().feeds, pollFeed);
+  onFeedsConfigReload((config) => syncWatchers(config.feeds, pollFeed));
+}
 
-    const resp = await fetch(sourceUrl, { method: "GET" });
-    if (!resp.ok) {
-      console.log(`[${new Date().toISOString()}] ERROR: Upstream fetch failed (${resp.status})`);
-      res.status(502).type("text/plain").send(`Upstream fetch failed (${resp.status})`);
-      return;
-    }
-    const ics = await resp.text();
-    if (typeof ics !== "string" || ics.length === 0) {
-      console.log(`[${new Date().toISOString()}] ERROR: Upstream returned empty body`);
-      res.status(502).type("text/plain").send("Upstream returned empty body");
+// Change history of a watched feed: `since` is the last change ID seen, or an ISO 8601 instant
+app.get("/feeds/:token/changes", (req, res) => {
+  const feed = feedForToken(String(req.params.token));
+  const status = feed !== undefined ? watchStatus(feed.name) : undefined;
+  if (feed === undefined || status === undefined) {
+    log.warn("Unknown or unwatched feed token");
+    res.status(404).type("text/plain").send("Unknown feed, or the feed is not watched");
+    return;
+  }
+
+  const sinceParam = queryString(req.query.since);
+  let since: number | DateTime | undefined;
+  if (sinceParam !== undefined) {
+    since = /^\d+$/.test(sinceParam) ? Number(sinceParam) : DateTime.fromISO(sinceParam, { setZone: true });
+    if (since instanceof DateTime && !since.isValid) {
+      log.warn("Invalid since parameter");
+      res.status(400).type("text/plain").send("Invalid since (use a change ID or an ISO 8601 date-time)");
       return;
     }
+  }
 
-    console.log(`[${new Date().toISOString()}] Fetched ICS data: ${ics.length} characters`);
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200).json({ feed: feed.name, lastPoll: status.lastPoll ?? null, changes: changesSince(feed.name, since) });
+});
 
-    const out = transformIcs(ics, targetTz, overrideExistingTz);
+// Liveness: the process is up and serving requests
+app.get("/healthz", (_req, res) => {
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200).json({ status: "ok" });
+});
 
-    console.log(`[${new Date().toISOString()}] Transformed ICS data: ${out.length} characters`);
+// Readiness: upstream reachable, or at least something cached to serve (see src/health.ts)
+app.get("/readyz", (_req, res) => {
+  const state = readiness();
+  res.setHeader("Cache-Control", "no-store");
+  res.status(state.ready ? 200 : 503).json({ status: state.ready ? "ready" : "unavailable", ...state });
+});
 
-    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
-    res.setHeader("Cache-Control", "no-store, no-cache, must-revalidate");
-    res.status(200).send(out);
-    
-    const duration = Date.now() - startTime;
-    console.log(`[${new Date().toISOString()}] SUCCESS: Request completed in ${duration}ms`);
-  } catch (err: unknown) {
-    const msg = err instanceof Error ? err.message : "Unknown error";
-    const duration = Date.now() - startTime;
-    console.log(`[${new Date().toISOString()}] ERROR: ${msg} (${duration}ms)`);
-    res.status(500).type("text/plain").send(`Proxy error: ${msg}`);
-  }
+app.get("/metrics", (_req, res) => {
+  res.setHeader("Cache-Control", "no-store");
+  res.type("text/plain; version=0.0.4; charset=utf-8").send(renderMetrics());
 });
 
+app.get("/calendar.ics", calendarRoute(resolveQuery, sendNegotiated));
+app.get("/calendar.json", calendarRoute(resolveQuery, (_req, res, calendar) => sendJCal(res, calendar)));
+app.get("/events", calendarRoute(withoutExpansion(resolveQuery), sendEvents));
+app.get("/validate", calendarRoute(resolveQuery, sendValidation));
+app.get("/feeds/:token.ics", calendarRoute(resolveFeed, sendNegotiated));
+app.get("/feeds/:token.json", calendarRoute(resolveFeed, (_req, res, calendar) => sendJCal(res, calendar)));
+app.get("/feeds/:token/events", calendarRoute(withoutExpansion(resolveFeed), sendEvents));
+app.get("/feeds/:token/validate", calendarRoute(resolveFeed, sendValidation));
+app.all("/dav/:token{/*path}", express.text({ type: "*/*", limit: "64kb" }), calendarRoute(resolveDav, sendDav));
+
 const portStr: string = process.env.PORT ?? "3000";
 const portNum: number = Number(portStr);
 const port: number = Number.isFinite(portNum) ? portNum : 3000;
 
 app.listen(port, () => {
-  console.log(`[${new Date().toISOString()}] ========================================`);
-  console.log(`[${new Date().toISOString()}] ICS Timezone Proxy Server Started`);
-  console.log(`[${new Date().toISOString()}] ========================================`);
-  console.log(`[${new Date().toISOString()}] Server listening on: http://localhost:${port}`);
-  console.log(`[${new Date().toISOString()}] Calendar endpoint: http://localhost:${port}/calendar.ics`);
-  console.log(`[${new Date().toISOString()}] Default timezone: ${DEFAULT_TZ}`);
-  console.log(`[${new Date().toISOString()}] Add VTIMEZONE blocks: Always (Google Calendar compatible)`);
-  console.log(`[${new Date().toISOString()}] CORS: Enabled for all origins`);
-  console.log(`[${new Date().toISOString()}] ========================================`);
+  log.info("ICS Timezone Proxy Server started", {
+    port,
+    endpoints: ["/calendar.ics", "/calendar.json", "/events", "/validate", "/feeds/<token>.ics", "/feeds/<token>/changes", "/dav/<token>/", "/healthz", "/readyz", "/metrics"],
+    namedFeeds: FEEDS_CONFIG !== undefined ? feedsConfig().feeds.length : 0,
+    openUrlMode: ALLOW_URL_PARAM,
+    allowedHosts: urlPolicy().allowedHosts,
+    allowPrivateNetworks: urlPolicy().allowPrivateNetworks,
+    defaultTz: DEFAULT_TZ,
+    tzMode: DEFAULT_TZ_MODE,
+    client: DEFAULT_CLIENT,
+    cacheTtlSeconds: cacheConfig().ttlSeconds,
+    cacheDir: cacheConfig().dir,
+    upstreamTimeoutMs: upstreamConfig().timeoutMs,
+    upstreamRetries: upstreamConfig().retries,
+    compression: COMPRESSION,
+    logLevel: logConfig().level,
+  });
 });
@@ -0,0 +1,157 @@
+// allDay.ts
+// Outlook's pseudo all-day events turned into real all-day events (VALUE=DATE), before times are converted.
+// - Detected by X-MICROSOFT-CDO-ALLDAYEVENT:TRUE, or by a start and end both at midnight of the event's own TZID
+// - UTC values (flagged events only) are read in the calendar's X-WR-TIMEZONE or the target zone,
+//   whichever puts the start at midnight
+// - Multi-day spans keep their length; DURATION and a missing DTEND become a DATE DTEND
+// - EXDATE, RDATE, RRULE UNTIL and the RECURRENCE-IDs of the series' overrides become dates too,
+//   so they keep matching the DATE DTSTART
+
+import { DateTime, Duration, type Zone } from "luxon";
+import { getParam, getProperties, getProperty, removeParam, removeProperties, setParam, type IcsComponent, type IcsProperty } from "./ics.js";
+
+// Zone for a TZID (Windows, IANA or the feed's own VTIMEZONE), or undefined when unknown
+export type ZoneResolver = (tzid: string) => Zone | string | undefined;
+
+const DATE_TIME = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z)?$/;
+const DATE_FORMAT = "yyyyLLdd";
+
+function isMidnight(dt: DateTime): boolean {
+  return dt.hour === 0 && dt.minute === 0 && dt.second === 0;
+}
+
+function isDate(prop: IcsProperty): boolean {
+  return getParam(prop, "VALUE")?.toUpperCase() === "DATE" || /^\d{8}$/.test(prop.value);
+}
+
+function isUtc(prop: IcsProperty): boolean {
+  return prop.value.endsWith("Z");
+}
+
+// Zone a property's values are written in: UTC, its TZID, or `floatingZone` without either.
+// Undefined when the TZID can't be resolved.
+function valueZone(prop: IcsProperty, resolve: ZoneResolver, floatingZone: string): Zone | string | undefined {
+  if (isUtc(prop)) return "utc";
+  const tzid = getParam(prop, "TZID");
+  return tzid !== undefined && tzid.length > 0 ? resolve(tzid) : floatingZone;
+}
+
+function parseValue(value: string, zone: Zone | string): DateTime | undefined {
+  const m = value.trim().match(DATE_TIME);
+  if (m === null) return undefined;
+  const dt = DateTime.fromObject(
+    { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]), hour: Number(m[4]), minute: Number(m[5]), second: Number(m[6] ?? 0) },
+    { zone: m[7] === "Z" ? "utc" : zone },
+  );
+  return dt.isValid ? dt : undefined;
+}
+
+function readValues(prop: IcsProperty, resolve: ZoneResolver, floatingZone: string): DateTime[] | undefined {
+  const zone = valueZone(prop, resolve, floatingZone);
+  if (zone === undefined) return undefined;
+  const values = prop.value.split(",").map((v) => parseValue(v, zone));
+  return values.every((v): v is DateTime => v !== undefined) ? values : undefined;
+}
+
+// Rewrite a DATE-TIME property as DATE values: the local date of each instant in `zone`
+function toDateProperty(prop: IcsProperty, zone: Zone | string, resolve: ZoneResolver, floatingZone: string): void {
+  if (isDate(prop) || getParam(prop, "VALUE")?.toUpperCase() === "PERIOD") return;
+  const values = readValues(prop, resolve, floatingZone);
+  if (values === undefined) return;
+  prop.value = values.map((v) => v.setZone(zone).toFormat(DATE_FORMAT)).join(",");
+  removeParam(prop, "TZID");
+  setParam(prop, "VALUE", "DATE");
+}
+
+// RRULE UNTIL must have the same value type as DTSTART
+function untilAsDate(rrule: IcsProperty, zone: Zone | string): void {
+  rrule.value = rrule.value.replace(/(^|;)UNTIL=([0-9TZ]+)/i, (m, sep: string, until: string) => {
+    const dt = parseValue(until, zone);
+    return dt === undefined ? m : `${sep}UNTIL=${dt.setZone(zone).toFormat(DATE_FORMAT)}`;
+  });
+}
+
+interface Detection {
+  zone: Zone | string; // zone whose midnights delimit the event
+  start: DateTime;
+  end: DateTime; // exclusive, at midnight of `zone`
+}
+
+// The event's days if it is a pseudo all-day event, else undefined
+function detect(event: IcsComponent, resolve: ZoneResolver, candidates: string[], floatingZone: string): Detection | undefined {
+  const dtstart = getProperty(event, "DTSTART");
+  if (dtstart === undefined || isDate(dtstart)) return undefined;
+  const start = readValues(dtstart, resolve, floatingZone)?.[0];
+  if (start === undefined) return undefined;
+  const flagged = getProperty(event, "X-MICROSOFT-CDO-ALLDAYEVENT")?.value.trim().toUpperCase() === "TRUE";
+  if (isUtc(dtstart) && !flagged) return undefined; // UTC midnight alone says nothing about the user's day
+
+  const dtend = getProperty(event, "DTEND");
+  const duration = getProperty(event, "DURATION");
+  let end: DateTime | undefined;
+  if (dtend !== undefined) end = readValues(dtend, resolve, floatingZone)?.[0];
+  else if (duration !== undefined) {
+    const parsed = Duration.fromISO(duration.value.trim().replace(/^\+/, ""));
+    if (parsed.isValid) end = start.plus(parsed);
+  }
+
+  const zones = isUtc(dtstart) ? candidates : [valueZone(dtstart, resolve, floatingZone)!];
+  for (const zone of zones) {
+    const local = start.setZone(zone);
+    if (!isMidnight(local)) continue;
+    const localEnd = end?.setZone(zone);
+    if (localEnd !== undefined && localEnd > local && isMidnight(localEnd)) return { zone, start: local, end: localEnd };
+    if (!flagged) continue;
+    // Flagged but without a usable end: cover the days the event touches, at least one
+    const days = localEnd !== undefined && localEnd > local ? Math.ceil(localEnd.diff(local, "days").days) : 1;
+    return { zone, start: local, end: local.plus({ days }) };
+  }
+  return undefined;
+}
+
+function convertEvent(event: IcsComponent, found: Detection, resolve: ZoneResolver, floatingZone: string): void {
+  const dtstart = getProperty(event, "DTSTART")!;
+  dtstart.value = found.start.toFormat(DATE_FORMAT);
+  removeParam(dtstart, "TZID");
+  setParam(dtstart, "VALUE", "DATE");
+
+  const dtend = getProperty(event, "DTEND");
+  const end: IcsProperty = { name: "DTEND", params: [{ name: "VALUE", values: ["DATE"] }], value: found.end.toFormat(DATE_FORMAT) };
+  if (dtend !== undefined) Object.assign(dtend, end);
+  else event.properties.splice(event.properties.indexOf(dtstart) + 1, 0, end);
+  removeProperties(event, "DURATION");
+
+  for (const name of ["EXDATE", "RDATE"]) {
+    for (const prop of getProperties(event, name)) toDateProperty(prop, found.zone, resolve, floatingZone);
+  }
+  for (const rrule of getProperties(event, "RRULE")) untilAsDate(rrule, found.zone);
+}
+
+// Convert pseudo all-day VEVENTs in place. `targetTz` is the zone for floating times and, after the
+// calendar's X-WR-TIMEZONE, the zone UTC all-day values are tried in.
+export function normalizeAllDayEvents(calendar: IcsComponent, resolve: ZoneResolver, targetTz: string): void {
+  const calendarTz = getProperty(calendar, "X-WR-TIMEZONE")?.value.trim();
+  const resolvedCalendarTz = calendarTz !== undefined && calendarTz.length > 0 ? resolve(calendarTz) : undefined;
+  const candidates = [...(typeof resolvedCalendarTz === "string" ? [resolvedCalendarTz] : []), targetTz];
+
+  const events = calendar.components.filter((c) => c.name === "VEVENT");
+  const masters = new Set(events.filter((e) => getProperty(e, "RECURRENCE-ID") === undefined).map((e) => getProperty(e, "UID")?.value));
+  const seriesZones = new Map<string, Zone | string>(); // UID -> zone of the converted series
+
+  // Masters first, so their overrides know whether the series became all-day
+  const ordered = [...events].sort((a, b) => Number(getProperty(a, "RECURRENCE-ID") !== undefined) - Number(getProperty(b, "RECURRENCE-ID") !== undefined));
+  for (const event of ordered) {
+    const uid = getProperty(event, "UID")?.value ?? "";
+    const recurrenceId = getProperty(event, "RECURRENCE-ID");
+    const found = detect(event, resolve, candidates, targetTz);
+    if (found !== undefined) convertEvent(event, found, resolve, targetTz);
+
+    if (recurrenceId === undefined) {
+      if (found !== undefined) seriesZones.set(uid, found.zone);
+      continue;
+    }
+    // The RECURRENCE-ID follows the series' DTSTART; an orphan override follows its own
+    const seriesZone = seriesZones.get(uid) ?? (!masters.has(uid) ? found?.zone : undefined);
+    if (seriesZone !== undefined) toDateProperty(recurrenceId, seriesZone, resolve, targetTz);
+  }
+}
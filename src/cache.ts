@@ -0,0 +1,116 @@
+// cache.ts
+// In-process cache of transformed feeds, with optional on-disk persistence.
+// - Entries are keyed by source URL + transform options (see feedCacheKey); merged feeds by their source list (merge.ts)
+// - Each entry keeps the upstream validators (for conditional requests) and our own strong ETag
+// - Memory is bounded (least recently used entries are evicted); the disk copy survives restarts
+// - Keys contain the secret source URL, so files hold only their hash, both as the name and inside
+
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync, renameSync } from "node:fs";
+import { join } from "node:path";
+import { log } from "./log.js";
+import type { UpstreamValidators } from "./upstream.js";
+
+export interface CacheEntry {
+  key: string;
+  source: string; // upstream ICS, re-transformed when upstream answers 304
+  body: string; // transformed ICS
+  etag: string; // strong ETag of body, quoted
+  lastModified: string; // HTTP date when body last changed
+  upstream: UpstreamValidators;
+  fetchedAt: number; // millis, last successful fetch or revalidation
+}
+
+export interface CacheConfig {
+  ttlSeconds: number;
+  maxEntries: number;
+  dir?: string; // persist entries as JSON files when set
+}
+
+let config: CacheConfig = { ttlSeconds: 600, maxEntries: 100 };
+const entries = new Map<string, CacheEntry>(); // insertion order = recency
+
+export function configureCache(next: CacheConfig): void {
+  config = next;
+  if (typeof config.dir === "string") mkdirSync(config.dir, { recursive: true });
+}
+
+export function cacheConfig(): CacheConfig {
+  return config;
+}
+
+// Stable key for a source URL and the options that shape the transformed output
+export function feedCacheKey(sourceUrl: string, options: object): string {
+  const sorted = Object.fromEntries(Object.entries(options).sort(([a], [b]) => a.localeCompare(b)));
+  return `${sourceUrl}\n${JSON.stringify(sorted)}`;
+}
+
+function sha256(text: string, encoding: "hex" | "base64url"): string {
+  return createHash("sha256").update(text).digest(encoding);
+}
+
+// Strong ETag derived from the body, so identical output always gets the same tag
+export function strongEtag(body: string): string {
+  return `"${sha256(body, "base64url")}"`;
+}
+
+function entryPath(dir: string, hash: string): string {
+  return join(dir, `${hash}.json`);
+}
+
+function readFromDisk(key: string): CacheEntry | undefined {
+  if (typeof config.dir !== "string") return undefined;
+  const hash = sha256(key, "hex");
+  try {
+    const entry = JSON.parse(readFileSync(entryPath(config.dir, hash), "utf8")) as CacheEntry;
+    return entry.key === hash ? { ...entry, key } : undefined;
+  } catch {
+    return undefined; // missing or unreadable: treat as a miss
+  }
+}
+
+function writeToDisk(entry: CacheEntry): void {
+  if (typeof config.dir !== "string") return;
+  const hash = sha256(entry.key, "hex");
+  const path = entryPath(config.dir, hash);
+  try {
+    // Write then rename so a crash never leaves a truncated entry behind
+    writeFileSync(`${path}.tmp`, JSON.stringify({ ...entry, key: hash }));
+    renameSync(`${path}.tmp`, path);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    log.warn("Could not persist cache entry", { error: msg });
+  }
+}
+
+export function getCacheEntry(key: string): CacheEntry | undefined {
+  let entry = entries.get(key);
+  if (entry === undefined) {
+    entry = readFromDisk(key);
+    if (entry === undefined) return undefined;
+  }
+  // Refresh recency
+  entries.delete(key);
+  entries.set(key, entry);
+  return entry;
+}
+
+export function setCacheEntry(entry: CacheEntry): void {
+  entries.delete(entry.key);
+  entries.set(entry.key, entry);
+  while (entries.size > config.maxEntries) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+  writeToDisk(entry);
+}
+
+// Entries held in memory
+export function cacheSize(): number {
+  return entries.size;
+}
+
+export function isFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+  return now - entry.fetchedAt < config.ttlSeconds * 1000;
+}
@@ -0,0 +1,326 @@
+// caldav.ts
+// Read-only CalDAV (RFC 4791) view of a transformed calendar, for clients that sync incrementally.
+// - Each named feed is a principal (/dav/<token>/) holding one calendar collection (/dav/<token>/calendar/)
+// - Each UID is one calendar object: a series master together with its overrides, plus the VTIMEZONEs they use
+// - PROPFIND (Depth 0 / 1), REPORT calendar-query (comp-filter and time-range) and calendar-multiget
+// - Objects carry their own ETag, and the collection's CTag (getctag) is the ETag of the whole calendar,
+//   so clients only download the events that changed
+// HTTP is handled by server.ts; this module builds the objects and the XML bodies.
+
+import { createHash } from "node:crypto";
+import { DateTime } from "luxon";
+import { strongEtag } from "./cache.js";
+import { inWindow } from "./filter.js";
+import { getParam, getProperty, serializeIcs, type IcsComponent } from "./ics.js";
+import { childElement, childElements, escapeXml, parseXml, XmlError, type XmlElement } from "./xml.js";
+
+const DAV_NS = "DAV:";
+const CALDAV_NS = "urn:ietf:params:xml:ns:caldav";
+const CALSERVER_NS = "http://calendarserver.org/ns/";
+
+export class DavError extends Error {
+  readonly status: number;
+  readonly condition: string | undefined; // precondition element for the DAV:error body, e.g. <C:supported-filter/>
+
+  constructor(status: number, message: string, condition?: string) {
+    super(message);
+    this.name = "DavError";
+    this.status = status;
+    this.condition = condition;
+  }
+}
+
+export interface CalendarObject {
+  name: string; // last path segment, e.g. "040000008200E00074C5B7101A82E008....ics"
+  uid: string;
+  components: IcsComponent[]; // VEVENTs sharing the UID, in feed order
+  body: string; // the object as served: VCALENDAR with the components and their VTIMEZONEs
+  etag: string;
+}
+
+export interface DavCalendar {
+  principalHref: string; // "/dav/<token>/"
+  calendarHref: string; // "/dav/<token>/calendar/"
+  displayName: string;
+  etag: string; // of the whole calendar; also the CTag
+  zone: string; // for floating times in time-range filters
+  objects: Map<string, CalendarObject>; // by name
+}
+
+export type DavTarget = { kind: "principal" } | { kind: "calendar" } | { kind: "object"; object: CalendarObject };
+
+// --- Calendar objects --------------------------------------------------------
+
+// Calendar properties copied into each object; METHOD is not allowed in CalDAV objects (RFC 4791, 4.1)
+const OBJECT_CALENDAR_PROPERTIES = ["VERSION", "PRODID", "CALSCALE"];
+// UIDs usable as a path segment as they are; others are named after their hash
+const SAFE_UID = /^[\w.@-]{1,200}$/;
+const OBJECT_CONTENT_TYPE = "text/calendar; charset=utf-8; component=VEVENT";
+
+function objectName(uid: string): string {
+  return `${SAFE_UID.test(uid) ? uid : createHash("sha256").update(uid).digest("hex").slice(0, 32)}.ics`;
+}
+
+function usedZones(components: IcsComponent[], into: Set<string> = new Set()): Set<string> {
+  for (const component of components) {
+    for (const prop of component.properties) {
+      const tzid = getParam(prop, "TZID");
+      if (tzid !== undefined) into.add(tzid);
+    }
+    usedZones(component.components, into);
+  }
+  return into;
+}
+
+// Split a transformed calendar into CalDAV objects. Events without a UID can't be addressed and are left out.
+export function buildDavCalendar(calendar: IcsComponent, principalHref: string, displayName: string, etag: string, zone: string): DavCalendar {
+  const header = calendar.properties.filter((p) => OBJECT_CALENDAR_PROPERTIES.includes(p.name));
+  const timezones = new Map<string, IcsComponent>();
+  const groups = new Map<string, IcsComponent[]>();
+  for (const component of calendar.components) {
+    if (component.name === "VTIMEZONE") {
+      const tzid = getProperty(component, "TZID")?.value;
+      if (tzid !== undefined) timezones.set(tzid, component);
+      continue;
+    }
+    const uid = getProperty(component, "UID")?.value;
+    if (component.name !== "VEVENT" || uid === undefined || uid.length === 0) continue;
+    const group = groups.get(uid);
+    if (group !== undefined) group.push(component);
+    else groups.set(uid, [component]);
+  }
+
+  const objects = new Map<string, CalendarObject>();
+  for (const [uid, components] of groups) {
+    const zones = [...usedZones(components)].flatMap((tzid) => timezones.get(tzid) ?? []);
+    const body = serializeIcs({ name: "VCALENDAR", properties: header, components: [...zones, ...components] });
+    const name = objectName(uid);
+    objects.set(name, { name, uid, components, body, etag: strongEtag(body) });
+  }
+  return { principalHref, calendarHref: `${principalHref}calendar/`, displayName, etag, zone, objects };
+}
+
+// What a path below the principal addresses: [] the principal, ["calendar"] the collection,
+// ["calendar", name] one object. Undefined when there is nothing there.
+export function davTarget(dav: DavCalendar, segments: string[]): DavTarget | undefined {
+  const [collection, name, ...rest] = segments.filter((s) => s.length > 0);
+  if (collection === undefined) return { kind: "principal" };
+  if (collection !== "calendar" || rest.length > 0) return undefined;
+  if (name === undefined) return { kind: "calendar" };
+  const object = dav.objects.get(name);
+  return object !== undefined ? { kind: "object", object } : undefined;
+}
+
+// The object an href of a multiget names (a path or an absolute URL)
+function objectForHref(dav: DavCalendar, href: string): CalendarObject | undefined {
+  let path: string;
+  try {
+    path = decodeURIComponent(new URL(href, "http://localhost").pathname);
+  } catch {
+    return undefined;
+  }
+  return path.startsWith(dav.calendarHref) ? dav.objects.get(path.slice(dav.calendarHref.length)) : undefined;
+}
+
+function targetHref(dav: DavCalendar, target: DavTarget): string {
+  if (target.kind === "principal") return dav.principalHref;
+  if (target.kind === "calendar") return dav.calendarHref;
+  return dav.calendarHref + encodeURIComponent(target.object.name);
+}
+
+// --- Properties --------------------------------------------------------------
+
+interface DavProperty {
+  namespace: string;
+  name: string;
+  allprop: boolean; // listed for <allprop/> and <propname/>
+  value: (dav: DavCalendar, target: DavTarget) => string | undefined; // XML content; undefined where the property doesn't exist
+}
+
+const href = (path: string): string => `<D:href>${escapeXml(path)}</D:href>`;
+const supportedReport = (name: string): string => `<D:supported-report><D:report><C:${name}/></D:report></D:supported-report>`;
+
+const PROPERTIES: DavProperty[] = [
+  {
+    namespace: DAV_NS, name: "resourcetype", allprop: true,
+    value: (_dav, t) => (t.kind === "principal" ? "<D:collection/><D:principal/>" : t.kind === "calendar" ? "<D:collection/><C:calendar/>" : ""),
+  },
+  { namespace: DAV_NS, name: "displayname", allprop: true, value: (dav, t) => (t.kind !== "object" ? escapeXml(dav.displayName) : undefined) },
+  { namespace: DAV_NS, name: "current-user-principal", allprop: true, value: (dav) => href(dav.principalHref) },
+  { namespace: DAV_NS, name: "principal-URL", allprop: true, value: (dav, t) => (t.kind === "principal" ? href(dav.principalHref) : undefined) },
+  { namespace: CALDAV_NS, name: "calendar-home-set", allprop: true, value: (dav, t) => (t.kind === "principal" ? href(dav.principalHref) : undefined) },
+  { namespace: DAV_NS, name: "owner", allprop: true, value: (dav, t) => (t.kind === "calendar" ? href(dav.principalHref) : undefined) },
+  { namespace: DAV_NS, name: "current-user-privilege-set", allprop: true, value: () => "<D:privilege><D:read/></D:privilege>" },
+  {
+    namespace: DAV_NS, name: "supported-report-set", allprop: true,
+    value: (_dav, t) => (t.kind === "calendar" ? supportedReport("calendar-query") + supportedReport("calendar-multiget") : undefined),
+  },
+  { namespace: CALDAV_NS, name: "supported-calendar-component-set", allprop: true, value: (_dav, t) => (t.kind === "calendar" ? '<C:comp name="VEVENT"/>' : undefined) },
+  {
+    namespace: CALDAV_NS, name: "supported-calendar-data", allprop: true,
+    value: (_dav, t) => (t.kind === "calendar" ? '<C:calendar-data content-type="text/calendar" version="2.0"/>' : undefined),
+  },
+  { namespace: CALSERVER_NS, name: "getctag", allprop: true, value: (dav, t) => (t.kind === "calendar" ? escapeXml(dav.etag.replace(/"/g, "")) : undefined) },
+  {
+    namespace: DAV_NS, name: "getetag", allprop: true,
+    value: (dav, t) => (t.kind === "calendar" ? escapeXml(dav.etag) : t.kind === "object" ? escapeXml(t.object.etag) : undefined),
+  },
+  { namespace: DAV_NS, name: "getcontenttype", allprop: true, value: (_dav, t) => (t.kind === "object" ? OBJECT_CONTENT_TYPE : undefined) },
+  { namespace: DAV_NS, name: "getcontentlength", allprop: true, value: (_dav, t) => (t.kind === "object" ? String(Buffer.byteLength(t.object.body)) : undefined) },
+  // Only on request: clients ask for the data of the objects they don't have yet
+  { namespace: CALDAV_NS, name: "calendar-data", allprop: false, value: (_dav, t) => (t.kind === "object" ? escapeXml(t.object.body) : undefined) },
+];
+
+const PREFIXES = new Map([[DAV_NS, "D"], [CALDAV_NS, "C"], [CALSERVER_NS, "CS"]]);
+
+// An element in the namespace, declaring the namespace inline when it has no prefix on the multistatus
+function element(namespace: string, name: string, content = ""): string {
+  const prefix = PREFIXES.get(namespace);
+  let tag = `${prefix}:${name}`;
+  let declaration = "";
+  if (prefix === undefined) {
+    tag = namespace === "" ? name : `X:${name}`;
+    declaration = namespace === "" ? ' xmlns=""' : ` xmlns:X="${escapeXml(namespace)}"`;
+  }
+  return content.length === 0 ? `<${tag}${declaration}/>` : `<${tag}${declaration}>${content}</${tag}>`;
+}
+
+type PropRequest = { kind: "allprop" | "propname" } | { kind: "prop"; names: { namespace: string; name: string }[] };
+
+// <allprop/>, <propname/> or <prop>...</prop> among the children of a PROPFIND or REPORT body; allprop when none
+function propRequest(root: XmlElement): PropRequest {
+  if (childElement(root, DAV_NS, "propname") !== undefined) return { kind: "propname" };
+  const prop = childElement(root, DAV_NS, "prop");
+  if (prop !== undefined) return { kind: "prop", names: prop.children.map((c) => ({ namespace: c.namespace, name: c.name })) };
+  return { kind: "allprop" };
+}
+
+function propstat(props: string[], status: string): string {
+  return `<D:propstat><D:prop>${props.join("")}</D:prop><D:status>HTTP/1.1 ${status}</D:status></D:propstat>`;
+}
+
+function propResponse(dav: DavCalendar, target: DavTarget, request: PropRequest): string {
+  const found: string[] = [];
+  const missing: string[] = [];
+  if (request.kind === "prop") {
+    for (const { namespace, name } of request.names) {
+      const value = PROPERTIES.find((p) => p.namespace === namespace && p.name === name)?.value(dav, target);
+      if (value !== undefined) found.push(element(namespace, name, value));
+      else missing.push(element(namespace, name));
+    }
+  } else {
+    for (const prop of PROPERTIES) {
+      if (!prop.allprop) continue;
+      const value = prop.value(dav, target);
+      if (value !== undefined) found.push(element(prop.namespace, prop.name, request.kind === "allprop" ? value : ""));
+    }
+  }
+  const propstats = [
+    ...(found.length > 0 ? [propstat(found, "200 OK")] : []),
+    ...(missing.length > 0 ? [propstat(missing, "404 Not Found")] : []),
+  ];
+  return `<D:response>${href(targetHref(dav, target))}${propstats.join("")}</D:response>`;
+}
+
+function multistatus(responses: string[]): string {
+  const namespaces = [...PREFIXES].map(([namespace, prefix]) => `xmlns:${prefix}="${namespace}"`).join(" ");
+  return `<?xml version="1.0" encoding="utf-8"?>\n<D:multistatus ${namespaces}>\n${responses.map((r) => `${r}\n`).join("")}</D:multistatus>\n`;
+}
+
+// DAV:error body for a failed precondition (RFC 4918, 16)
+export function davErrorBody(condition: string): string {
+  const namespaces = [...PREFIXES].map(([namespace, prefix]) => `xmlns:${prefix}="${namespace}"`).join(" ");
+  return `<?xml version="1.0" encoding="utf-8"?>\n<D:error ${namespaces}>${condition}</D:error>\n`;
+}
+
+// Answer to write methods: the feed is read-only for everyone (RFC 3744, 7.1.1)
+export function readOnlyCondition(path: string): string {
+  return `<D:need-privileges><D:resource>${href(path)}<D:privilege><D:write/></D:privilege></D:resource></D:need-privileges>`;
+}
+
+function parseBody(body: string): XmlElement {
+  try {
+    return parseXml(body);
+  } catch (err: unknown) {
+    if (err instanceof XmlError) throw new DavError(400, `Invalid XML body (${err.message})`);
+    throw err;
+  }
+}
+
+// --- Methods -----------------------------------------------------------------
+
+// Multistatus for a PROPFIND; an empty body asks for all properties. Throws DavError.
+export function propfind(dav: DavCalendar, target: DavTarget, depth: 0 | 1, body: string): string {
+  let request: PropRequest = { kind: "allprop" };
+  if (body.trim().length > 0) {
+    const root = parseBody(body);
+    if (root.namespace !== DAV_NS || root.name !== "propfind") throw new DavError(400, "Expected a DAV:propfind body");
+    request = propRequest(root);
+  }
+
+  const targets: DavTarget[] = [target];
+  if (depth === 1 && target.kind === "principal") targets.push({ kind: "calendar" });
+  if (depth === 1 && target.kind === "calendar") {
+    for (const object of dav.objects.values()) targets.push({ kind: "object", object });
+  }
+  return multistatus(targets.map((t) => propResponse(dav, t, request)));
+}
+
+// CalDAV time-range values are UTC date-times in basic format (20261019T000000Z)
+function parseTimeRangeBound(element: XmlElement, name: string): DateTime | undefined {
+  const value = element.attributes.get(name);
+  if (value === undefined) return undefined;
+  const parsed = DateTime.fromFormat(value, "yyyyLLdd'T'HHmmss'Z'", { zone: "utc" });
+  if (!parsed.isValid) throw new DavError(403, `Invalid time-range ${name} "${value}"`, "<C:valid-filter/>");
+  return parsed;
+}
+
+// Predicate for the <C:filter> of a calendar-query. Supported: VCALENDAR > comp-filter(s) by name, each
+// with an optional time-range. Property and parameter filters are refused, as RFC 4791 (7.7) requires.
+function queryFilter(root: XmlElement, zone: string): (object: CalendarObject) => boolean {
+  const filter = childElement(root, CALDAV_NS, "filter");
+  const calendarFilter = filter !== undefined ? childElement(filter, CALDAV_NS, "comp-filter") : undefined;
+  if (calendarFilter === undefined || calendarFilter.attributes.get("name") !== "VCALENDAR") {
+    throw new DavError(403, "calendar-query needs a VCALENDAR comp-filter", "<C:valid-filter/>");
+  }
+
+  const unsupported = (filter: XmlElement, allowed: string[]): void => {
+    const other = filter.children.find((c) => c.namespace !== CALDAV_NS || !allowed.includes(c.name));
+    if (other !== undefined) throw new DavError(403, `Unsupported filter element ${other.name}`, "<C:supported-filter/>");
+  };
+  unsupported(calendarFilter, ["comp-filter"]);
+
+  const conditions = childElements(calendarFilter, CALDAV_NS, "comp-filter").map((filter) => {
+    unsupported(filter, ["time-range"]);
+    const timeRange = childElement(filter, CALDAV_NS, "time-range");
+    const start = timeRange !== undefined ? parseTimeRangeBound(timeRange, "start") : undefined;
+    const end = timeRange !== undefined ? parseTimeRangeBound(timeRange, "end") : undefined;
+    return { name: filter.attributes.get("name") ?? "", start, end };
+  });
+
+  return (object) => conditions.every((c) =>
+    object.components.some((component) => component.name === c.name && ((c.start === undefined && c.end === undefined) || inWindow(component, c.start, c.end, zone))));
+}
+
+// Multistatus for a calendar-query or calendar-multiget REPORT. Throws DavError.
+export function report(dav: DavCalendar, target: DavTarget, body: string): string {
+  const root = parseBody(body);
+  const request = propRequest(root);
+
+  if (root.namespace === CALDAV_NS && root.name === "calendar-multiget") {
+    const responses = childElements(root, DAV_NS, "href").map((h) => {
+      const object = objectForHref(dav, h.text.trim());
+      if (object === undefined) return `<D:response>${href(h.text.trim())}<D:status>HTTP/1.1 404 Not Found</D:status></D:response>`;
+      return propResponse(dav, { kind: "object", object }, request);
+    });
+    return multistatus(responses);
+  }
+
+  if (root.namespace === CALDAV_NS && root.name === "calendar-query" && target.kind !== "principal") {
+    const matches = queryFilter(root, dav.zone);
+    const candidates = target.kind === "object" ? [target.object] : [...dav.objects.values()];
+    return multistatus(candidates.filter(matches).map((object) => propResponse(dav, { kind: "object", object }, request)));
+  }
+
+  throw new DavError(403, `Unsupported report ${root.name}`, "<D:supported-report/>");
+}
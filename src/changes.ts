@@ -0,0 +1,186 @@
+// changes.ts
+// Change tracking for watched feeds: snapshots of a transformed calendar, diffs between two
+// snapshots, and a bounded history of the changes per feed (served at /feeds/<token>/changes).
+// - Events are keyed by UID + RECURRENCE-ID, so occurrence overrides are tracked on their own
+// - Change types: added, removed, rescheduled (start, end or recurrence rule), retitled, location-changed;
+//   one event can produce several changes at once
+// - Cancelled events (STATUS:CANCELLED) count as removed, and so does an occurrence newly excluded
+//   from its series by an EXDATE
+// - Snapshots and history live in memory only; the first poll after a start is the new baseline
+
+import type { DateTime, Duration } from "luxon";
+import { getProperties, getProperty, getText, type IcsComponent } from "./ics.js";
+import { eventDuration, isDateOnly, propertyDates, zoneFor } from "./recurrence.js";
+
+export type ChangeType = "added" | "removed" | "rescheduled" | "retitled" | "location-changed";
+
+export const CHANGE_TYPES: ChangeType[] = ["added", "removed", "rescheduled", "retitled", "location-changed"];
+
+// What is compared between two versions of an event
+export interface EventState {
+  title: string;
+  location: string | null;
+  start: string; // ISO 8601 with offset, or a date for all-day events
+  end: string;
+  allDay: boolean;
+  recurrence: string | null; // RRULE of a series
+}
+
+export interface FeedChange {
+  id: number; // increases with every change recorded for the feed
+  detectedAt: string; // ISO 8601
+  type: ChangeType;
+  uid: string;
+  recurrenceId: string | null; // the occurrence, for overrides and excluded occurrences
+  before: EventState | null; // null for added events
+  after: EventState | null; // null for removed events
+}
+
+interface SnapshotEvent {
+  uid: string;
+  recurrenceId: string | null;
+  state: EventState;
+  exdates: Map<string, EventState>; // occurrences excluded from a series, by instant key
+}
+
+// Events by UID + RECURRENCE-ID
+export type Snapshot = Map<string, SnapshotEvent>;
+
+// Changes kept per feed; older ones are dropped first
+const MAX_HISTORY = 1000;
+
+const histories = new Map<string, { nextId: number; changes: FeedChange[] }>();
+
+// --- Snapshots ---------------------------------------------------------------
+
+function iso(dt: DateTime, allDay: boolean): string {
+  return allDay ? dt.toISODate()! : dt.toISO({ suppressMilliseconds: true })!;
+}
+
+// Instant used in keys, so the same occurrence matches whatever zone it is written in
+function instantKey(dt: DateTime, allDay: boolean): string {
+  return allDay ? dt.toISODate()! : dt.toUTC().toISO({ suppressMilliseconds: true })!;
+}
+
+function key(uid: string, recurrenceKey: string | null): string {
+  return `${uid}\n${recurrenceKey ?? ""}`;
+}
+
+function stateAt(event: IcsComponent, start: DateTime, duration: Duration, allDay: boolean): EventState {
+  const end = start.plus(duration);
+  return {
+    title: getText(event, "SUMMARY") ?? "",
+    location: getText(event, "LOCATION") ?? null,
+    start: iso(start, allDay),
+    end: iso(end, allDay),
+    allDay,
+    recurrence: getProperty(event, "RRULE")?.value ?? null,
+  };
+}
+
+// Snapshot of the calendar's VEVENTs. `zone` is used for floating and unknown-zone times.
+export function takeSnapshot(calendar: IcsComponent, zone: string): Snapshot {
+  const snapshot: Snapshot = new Map();
+  for (const event of calendar.components) {
+    if (event.name !== "VEVENT") continue;
+    if (getProperty(event, "STATUS")?.value.trim().toUpperCase() === "CANCELLED") continue;
+    const uid = getProperty(event, "UID")?.value;
+    const dtstart = getProperty(event, "DTSTART");
+    if (uid === undefined || dtstart === undefined) continue;
+    const eventZone = zoneFor(dtstart, zone);
+    const start = propertyDates(dtstart, eventZone)[0];
+    if (start === undefined) continue;
+    const allDay = isDateOnly(dtstart);
+    const duration = eventDuration(event, start, eventZone);
+
+    const recurrenceProp = getProperty(event, "RECURRENCE-ID");
+    const recurrence = recurrenceProp !== undefined ? propertyDates(recurrenceProp, zoneFor(recurrenceProp, zone))[0] : undefined;
+    const recurrenceAllDay = recurrenceProp !== undefined && isDateOnly(recurrenceProp);
+
+    const exdates = new Map<string, EventState>();
+    for (const exdate of getProperties(event, "EXDATE")) {
+      const exAllDay = isDateOnly(exdate);
+      for (const dt of propertyDates(exdate, zoneFor(exdate, zone))) {
+        exdates.set(instantKey(dt, exAllDay), { ...stateAt(event, dt, duration, exAllDay), recurrence: null });
+      }
+    }
+
+    snapshot.set(key(uid, recurrence !== undefined ? instantKey(recurrence, recurrenceAllDay) : null), {
+      uid,
+      recurrenceId: recurrence !== undefined ? iso(recurrence, recurrenceAllDay) : null,
+      state: stateAt(event, start, duration, allDay),
+      exdates,
+    });
+  }
+  return snapshot;
+}
+
+// --- Diffs -------------------------------------------------------------------
+
+type ChangeDraft = Omit<FeedChange, "id" | "detectedAt">;
+
+function compare(before: SnapshotEvent, after: SnapshotEvent): ChangeType[] {
+  const a = before.state;
+  const b = after.state;
+  const types: ChangeType[] = [];
+  if (a.start !== b.start || a.end !== b.end || a.allDay !== b.allDay || a.recurrence !== b.recurrence) types.push("rescheduled");
+  if (a.title !== b.title) types.push("retitled");
+  if (a.location !== b.location) types.push("location-changed");
+  return types;
+}
+
+// Changes from `previous` to `next`, series before their occurrences
+export function diffSnapshots(previous: Snapshot, next: Snapshot): ChangeDraft[] {
+  const changes: ChangeDraft[] = [];
+  for (const [k, after] of next) {
+    const before = previous.get(k);
+    if (before === undefined) {
+      changes.push({ type: "added", uid: after.uid, recurrenceId: after.recurrenceId, before: null, after: after.state });
+      continue;
+    }
+    for (const type of compare(before, after)) {
+      changes.push({ type, uid: after.uid, recurrenceId: after.recurrenceId, before: before.state, after: after.state });
+    }
+
+    // Occurrences newly excluded from a series; an override that became an EXDATE is reported once, below
+    if (after.recurrenceId !== null) continue;
+    for (const [instant, occurrence] of after.exdates) {
+      if (before.exdates.has(instant) || previous.has(key(after.uid, instant))) continue;
+      changes.push({ type: "removed", uid: after.uid, recurrenceId: occurrence.start, before: occurrence, after: null });
+    }
+  }
+  for (const [k, before] of previous) {
+    if (next.has(k)) continue;
+    changes.push({ type: "removed", uid: before.uid, recurrenceId: before.recurrenceId, before: before.state, after: null });
+  }
+  return changes;
+}
+
+// --- History -----------------------------------------------------------------
+
+// Append changes to the feed's history and return them with their IDs
+export function recordChanges(feed: string, drafts: ChangeDraft[], now: Date = new Date()): FeedChange[] {
+  let history = histories.get(feed);
+  if (history === undefined) {
+    history = { nextId: 1, changes: [] };
+    histories.set(feed, history);
+  }
+  const detectedAt = now.toISOString();
+  const recorded = drafts.map((d) => ({ id: history.nextId++, detectedAt, ...d }));
+  history.changes.push(...recorded);
+  if (history.changes.length > MAX_HISTORY) history.changes.splice(0, history.changes.length - MAX_HISTORY);
+  return recorded;
+}
+
+// Changes after a change ID, or detected at or after an instant; everything kept without `since`
+export function changesSince(feed: string, since?: number | DateTime): FeedChange[] {
+  const changes = histories.get(feed)?.changes ?? [];
+  if (since === undefined) return [...changes];
+  if (typeof since === "number") return changes.filter((c) => c.id > since);
+  const from = since.toMillis();
+  return changes.filter((c) => Date.parse(c.detectedAt) >= from);
+}
+
+export function clearChanges(feed: string): void {
+  histories.delete(feed);
+}
@@ -0,0 +1,191 @@
+// cleanup.ts
+// Optional clean-up of Outlook / Teams event content (`cleanup=1`).
+// - An empty or word-less plain DESCRIPTION is replaced by readable text derived from X-ALT-DESC (HTML)
+// - Teams / Zoom / Webex invitation boilerplate is collapsed into a single "Join ..." line
+// - The join link goes into URL and RFC 7986 CONFERENCE, and optionally into LOCATION
+// X-ALT-DESC is dropped afterwards so clients that prefer it don't bring the boilerplate back.
+
+import { getParam, getProperty, getText, removeProperties, setProperty, setText, type IcsComponent } from "./ics.js";
+
+export interface CleanupOptions {
+  joinLocation: boolean; // also put the join link into LOCATION
+}
+
+interface Provider {
+  label: string;
+  link: RegExp; // join links of this service
+  marker: RegExp; // first line of its invitation block
+}
+
+const PROVIDERS: Provider[] = [
+  {
+    label: "Microsoft Teams",
+    link: /^https:\/\/teams\.(microsoft|live)\.com\/(l\/meetup-join|meet)\//i,
+    marker: /^(Microsoft Teams (meeting|Need help\?)|Join Microsoft Teams Meeting|Join the meeting now)/i,
+  },
+  {
+    label: "Zoom",
+    link: /^https:\/\/([\w-]+\.)*zoom\.us\/(j|my|w)\//i,
+    marker: /^(Join Zoom Meeting|.* is inviting you to a scheduled Zoom meeting)/i,
+  },
+  {
+    label: "Webex",
+    link: /^https:\/\/([\w-]+\.)*webex\.com\/([\w-]+\/)?(meet|join|j\.php)\b/i,
+    marker: /^(Join (the )?(Webex|Cisco Webex) meeting|-- Do not delete or change any of the following text\. --)/i,
+  },
+  {
+    label: "Google Meet",
+    link: /^https:\/\/meet\.google\.com\/[a-z]{3}-[a-z]{4}-[a-z]{3}/i,
+    marker: /^(Join with Google Meet|Join Google Meet)/i,
+  },
+];
+
+// Outlook's own properties for the Teams link, checked before the text
+const LINK_PROPERTIES = ["X-MICROSOFT-SKYPETEAMSMEETINGURL", "X-MICROSOFT-ONLINEMEETINGCONFLINK"];
+const SEPARATOR = /^\s*[_-]{10,}\s*$/;
+// Lines of the sections Teams puts after its join block (dial-in numbers, meeting options)
+const INVITATION_DETAILS = /^((or )?(call|dial)[ -]in\b|phone conference id|find a local number|reset (dial-in )?pin|learn more( about teams)?( \| meeting options)?$|meeting options$)/i;
+// LOCATION values that only name the service ("Microsoft Teams Meeting", "Zoom")
+const PLACEHOLDER_LOCATION = /^(microsoft teams( meeting)?|teams|zoom( meeting)?|webex( meeting)?|google meet|online)$/i;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ndash: "–", mdash: "—", hellip: "…" };
+
+// --- HTML --------------------------------------------------------------------
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : Number(e.slice(1));
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+// Readable plain text from an HTML description: block elements become line breaks,
+// list items get a dash, links keep their target next to the text
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/<a\b[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)')[^>]*>([\s\S]*?)<\/a\s*>/gi, (_m, dq: string | undefined, sq: string | undefined, inner: string) => {
+      const href = decodeEntities(dq ?? sq ?? "").trim();
+      const label = decodeEntities(inner.replace(/<[^>]*>/g, "")).trim();
+      if (!/^https?:/i.test(href) || label === href || label.length === 0) return label.length > 0 ? label : href;
+      return `${label} (${href})`;
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/?(p|div|tr|table|ul|ol|h[1-6]|blockquote|hr)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]*>/g, "");
+  return tidy(decodeEntities(text));
+}
+
+// Trim every line and keep at most one empty line in a row
+function tidy(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t ]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function htmlDescription(event: IcsComponent): string | undefined {
+  const alt = getProperty(event, "X-ALT-DESC");
+  if (alt === undefined || getParam(alt, "FMTTYPE")?.toLowerCase() !== "text/html") return undefined;
+  return getText(event, "X-ALT-DESC");
+}
+
+// --- Join links --------------------------------------------------------------
+
+function links(text: string): string[] {
+  return [...text.matchAll(/https:\/\/[^\s<>"'()]+/gi)].map((m) => decodeEntities(m[0]).replace(/[.,;:!?]+$/, ""));
+}
+
+function findJoinLink(texts: string[]): { url: string; provider: Provider } | undefined {
+  for (const text of texts) {
+    for (const url of links(text)) {
+      const provider = PROVIDERS.find((p) => p.link.test(url));
+      if (provider !== undefined) return { url, provider };
+    }
+  }
+  return undefined;
+}
+
+// --- Boilerplate -------------------------------------------------------------
+
+// Remove invitation blocks: from the separator line that opens a block mentioning a service through the
+// separator that closes it (Teams puts dial-in details in further sections, which go too), else from the
+// service's first line to the end (Zoom / Webex put their block last). Text after the block stays.
+export function stripBoilerplate(text: string): string {
+  let lines = text.split("\n");
+  const separators = lines.flatMap((line, i) => (SEPARATOR.test(line) ? [i] : []));
+  const block = (k: number): string[] => lines.slice(separators[k]! + 1, separators[k + 1] ?? lines.length);
+  const isInvitation = (k: number): boolean =>
+    block(k).some((line) => PROVIDERS.some((p) => p.marker.test(line.trim()) || links(line).some((url) => p.link.test(url))));
+  const isDetails = (k: number): boolean => block(k).some((line) => INVITATION_DETAILS.test(line.trim()));
+
+  const first = separators.findIndex((_, k) => isInvitation(k));
+  if (first >= 0) {
+    let last = first;
+    while (last + 1 < separators.length && (isInvitation(last + 1) || isDetails(last + 1))) last++;
+    const start = separators[first]!;
+    lines.splice(start, (separators[last + 1] ?? lines.length - 1) - start + 1);
+  }
+
+  const marker = lines.findIndex((l) => PROVIDERS.some((p) => p.marker.test(l.trim())));
+  if (marker >= 0) lines = lines.slice(0, marker);
+  return tidy(lines.join("\n"));
+}
+
+// --- Events ------------------------------------------------------------------
+
+function hasWords(text: string | undefined): text is string {
+  return text !== undefined && /[\p{L}\p{N}]/u.test(text);
+}
+
+// Clean up one VEVENT in place
+export function cleanupEvent(event: IcsComponent, opts: CleanupOptions): void {
+  const plain = getText(event, "DESCRIPTION");
+  const html = htmlDescription(event);
+  const join = findJoinLink([
+    ...LINK_PROPERTIES.map((name) => getProperty(event, name)?.value ?? ""),
+    plain ?? "",
+    html ?? "",
+    getText(event, "LOCATION") ?? "",
+  ]);
+
+  const fromHtml = !hasWords(plain) && html !== undefined;
+  const source = fromHtml ? htmlToText(html) : plain;
+  if (source !== undefined) {
+    let description = stripBoilerplate(source);
+    const stripped = description !== tidy(source);
+    if (stripped && join !== undefined) {
+      description = `${description}${description.length > 0 ? "\n\n" : ""}Join ${join.provider.label} meeting: ${join.url}`;
+    }
+    if (description.length === 0) removeProperties(event, "DESCRIPTION");
+    else if (stripped || fromHtml) setText(event, "DESCRIPTION", description);
+  }
+  removeProperties(event, "X-ALT-DESC");
+
+  if (join === undefined) return;
+  if (getProperty(event, "URL") === undefined) setProperty(event, { name: "URL", params: [], value: join.url });
+  if (getProperty(event, "CONFERENCE") === undefined) {
+    event.properties.push({
+      name: "CONFERENCE",
+      params: [
+        { name: "VALUE", values: ["URI"] },
+        { name: "FEATURE", values: ["AUDIO", "VIDEO"] },
+        { name: "LABEL", values: [join.provider.label] },
+      ],
+      value: join.url,
+    });
+  }
+  if (opts.joinLocation) {
+    const location = getText(event, "LOCATION")?.trim() ?? "";
+    if (location.length === 0 || PLACEHOLDER_LOCATION.test(location)) setText(event, "LOCATION", join.url);
+    else if (!location.includes(join.url)) setText(event, "LOCATION", `${location}; ${join.url}`);
+  }
+}
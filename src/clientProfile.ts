@@ -0,0 +1,109 @@
+// clientProfile.ts
+// Output tweaks for the calendar application that subscribes to the feed.
+// - google (default): Google's PRODID, UTC times rewritten as local times with TZID, VEVENT fields reordered
+// - apple: UTC kept, X-WR-CALNAME / X-WR-TIMEZONE, REFRESH-INTERVAL and X-PUBLISHED-TTL
+// - thunderbird: UTC kept, X-WR-CALNAME, REFRESH-INTERVAL
+// - outlook: the source PRODID kept, UTC kept, X-WR-CALNAME / X-WR-TIMEZONE, X-PUBLISHED-TTL
+// - generic: only the timezone fixes; everything else as published
+// Profiles only add or replace calendar-level properties, they never remove what the source published.
+
+import { getProperty, setProperty, setText, type IcsComponent } from "./ics.js";
+
+export type ClientName = "google" | "apple" | "thunderbird" | "outlook" | "generic";
+
+export const CLIENT_NAMES: ClientName[] = ["google", "apple", "thunderbird", "outlook", "generic"];
+
+export interface ClientProfile {
+  prodId: string | undefined; // replacement PRODID; undefined keeps the source's
+  keepUtc: boolean; // keep UTC times (..Z) instead of rewriting them as local times with TZID
+  calendarName: boolean; // X-WR-CALNAME and NAME (RFC 7986) when a name is known
+  timezoneHint: boolean; // X-WR-TIMEZONE with the target zone
+  refreshInterval: boolean; // REFRESH-INTERVAL (RFC 7986)
+  publishedTtl: boolean; // X-PUBLISHED-TTL (Apple, Outlook)
+  fixDescriptions: boolean; // drop dangling escapes and trailing line breaks in DESCRIPTION
+  reorderFields: boolean; // RFC 5545 recommended VEVENT property order
+}
+
+export interface CalendarInfo {
+  name?: string; // display name of the calendar
+  timeZone: string; // target zone
+  refreshMinutes: number; // how often clients should poll
+}
+
+const GOOGLE_PRODID = "-//Google Inc//Google Calendar 70.9054//EN";
+const PROXY_PRODID = "-//Outlook ICS Proxy//EN";
+
+const PROFILES: Record<ClientName, ClientProfile> = {
+  google: {
+    prodId: GOOGLE_PRODID,
+    keepUtc: false,
+    calendarName: true,
+    timezoneHint: false,
+    refreshInterval: false,
+    publishedTtl: false,
+    fixDescriptions: true,
+    reorderFields: true,
+  },
+  apple: {
+    prodId: PROXY_PRODID,
+    keepUtc: true,
+    calendarName: true,
+    timezoneHint: true,
+    refreshInterval: true,
+    publishedTtl: true,
+    fixDescriptions: true,
+    reorderFields: false,
+  },
+  thunderbird: {
+    prodId: PROXY_PRODID,
+    keepUtc: true,
+    calendarName: true,
+    timezoneHint: false,
+    refreshInterval: true,
+    publishedTtl: false,
+    fixDescriptions: true,
+    reorderFields: false,
+  },
+  outlook: {
+    prodId: undefined,
+    keepUtc: true,
+    calendarName: true,
+    timezoneHint: true,
+    refreshInterval: false,
+    publishedTtl: true,
+    fixDescriptions: true,
+    reorderFields: false,
+  },
+  generic: {
+    prodId: PROXY_PRODID,
+    keepUtc: true,
+    calendarName: false,
+    timezoneHint: false,
+    refreshInterval: false,
+    publishedTtl: false,
+    fixDescriptions: false,
+    reorderFields: false,
+  },
+};
+
+export function clientProfile(name: ClientName | undefined): ClientProfile {
+  return PROFILES[name ?? "google"];
+}
+
+// Set the calendar-level properties the profile asks for (in place)
+export function applyCalendarProperties(calendar: IcsComponent, profile: ClientProfile, info: CalendarInfo): void {
+  if (profile.prodId !== undefined && getProperty(calendar, "PRODID") !== undefined) {
+    setProperty(calendar, { name: "PRODID", params: [], value: profile.prodId });
+  }
+  if (profile.calendarName && info.name !== undefined && info.name.length > 0) {
+    setText(calendar, "X-WR-CALNAME", info.name);
+    setText(calendar, "NAME", info.name);
+  }
+  if (profile.timezoneHint) setProperty(calendar, { name: "X-WR-TIMEZONE", params: [], value: info.timeZone });
+
+  const ttl = `PT${Math.max(1, Math.round(info.refreshMinutes))}M`;
+  if (profile.refreshInterval) {
+    setProperty(calendar, { name: "REFRESH-INTERVAL", params: [{ name: "VALUE", values: ["DURATION"] }], value: ttl });
+  }
+  if (profile.publishedTtl) setProperty(calendar, { name: "X-PUBLISHED-TTL", params: [], value: ttl });
+}
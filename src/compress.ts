@@ -0,0 +1,54 @@
+// compress.ts
+// Response compression (brotli or gzip) for calendar bodies.
+// - Bodies are compressed once per representation and encoding, then reused: the same transformed
+//   feed is usually polled by many clients
+// - Each encoding gets its own strong ETag ("<tag>-br", "<tag>-gz"), as RFC 9110 requires
+// - Small bodies are sent as they are
+
+import { brotliCompressSync, constants, gzipSync } from "node:zlib";
+
+export type ContentEncoding = "br" | "gzip";
+
+export const CONTENT_ENCODINGS: ContentEncoding[] = ["br", "gzip"];
+
+export interface Compressed {
+  body: Buffer;
+  etag: string;
+}
+
+// Below this many bytes compression doesn't pay for itself
+const MIN_BYTES = 1024;
+// Compressed bodies kept for reuse (least recently used dropped first)
+const MAX_ENTRIES = 200;
+
+const compressed = new Map<string, Buffer>(); // "<etag> <encoding>" -> body; insertion order = recency
+
+function encode(body: string, encoding: ContentEncoding): Buffer {
+  if (encoding === "gzip") return gzipSync(body);
+  // Quality 5 is several times faster than the default 11 for a few percent larger output
+  return brotliCompressSync(body, { params: { [constants.BROTLI_PARAM_QUALITY]: 5, [constants.BROTLI_PARAM_SIZE_HINT]: Buffer.byteLength(body) } });
+}
+
+// ETag of the encoded representation, derived from the identity ETag
+export function encodedEtag(etag: string, encoding: ContentEncoding): string {
+  return `${etag.replace(/"$/, "")}-${encoding === "br" ? "br" : "gz"}"`;
+}
+
+// The body in the given encoding, or undefined when it is too small to bother
+export function compressBody(body: string, etag: string, encoding: ContentEncoding): Compressed | undefined {
+  if (Buffer.byteLength(body) < MIN_BYTES) return undefined;
+  const key = `${etag} ${encoding}`;
+  let encoded = compressed.get(key);
+  if (encoded === undefined) {
+    encoded = encode(body, encoding);
+    while (compressed.size >= MAX_ENTRIES) {
+      const oldest = compressed.keys().next().value;
+      if (oldest === undefined) break;
+      compressed.delete(oldest);
+    }
+  } else {
+    compressed.delete(key); // refresh recency
+  }
+  compressed.set(key, encoded);
+  return { body: encoded, etag: encodedEtag(etag, encoding) };
+}
@@ -0,0 +1,329 @@
+// config.ts
+// Named feeds, loaded from a JSON or YAML file and reloaded when the file changes.
+// - Each feed has one or more secret tokens; the feed is served at /feeds/<token>.ics
+// - Several tokens per feed allow rotation (add the new one, hand it out, then drop the old one)
+// - Removing a token from the file revokes it on the next reload
+// - An invalid file on reload is logged and ignored; the previous configuration stays active
+// - Feeds with a `watch:` block are polled in the background for changes (src/watcher.ts)
+// - A `rules:` list rewrites the feed's events (src/rules.ts)
+
+import { readFileSync, unwatchFile, watchFile } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { CLIENT_NAMES, type ClientName } from "./clientProfile.js";
+import { FilterError, parseEventFilter, type EventFilter, type FilterInput } from "./filter.js";
+import { log } from "./log.js";
+import { MeetingOptionError, parseMeetingOptions, type MeetingInput, type MeetingOptions } from "./meetings.js";
+import type { SourceFeed } from "./merge.js";
+import { PRIVACY_MODES, type PrivacyMode } from "./privacy.js";
+import { parseRules, RuleError, type EventRule } from "./rules.js";
+import { isLikelyIana, type TzMode } from "./transform.js";
+import type { WatchConfig } from "./watcher.js";
+import type { WebhookConfig } from "./webhooks.js";
+
+export interface FeedConfig {
+  name: string;
+  sources: SourceFeed[]; // one entry for a plain feed, several for a merged feed
+  tz?: string;
+  override?: boolean;
+  tzMode?: TzMode;
+  filter?: EventFilter;
+  meetings?: MeetingOptions;
+  privacy?: PrivacyMode;
+  expand?: boolean;
+  cleanup?: boolean;
+  joinLocation?: boolean; // with cleanup: join link into LOCATION
+  client?: ClientName;
+  calendarName?: string; // shown by clients that read X-WR-CALNAME / NAME; defaults to the feed name
+  rules?: EventRule[];
+  sourceReports?: boolean; // /validate and ?debug=1 show upstream issues with UIDs and values
+  watch?: WatchConfig;
+}
+
+export interface FeedsConfig {
+  feeds: FeedConfig[];
+  byToken: Map<string, FeedConfig>;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// Tokens are the only thing protecting a feed, so refuse anything short enough to guess
+const MIN_TOKEN_LENGTH = 16;
+const RELOAD_INTERVAL_MS = 2000;
+// Watched feeds are polled at most this often; upstream publishes every few minutes at best
+const MIN_WATCH_INTERVAL_SECONDS = 30;
+const DEFAULT_WATCH_INTERVAL_SECONDS = 300;
+// Webhook signatures are only as strong as the shared secret
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+let current: FeedsConfig = { feeds: [], byToken: new Map() };
+let watchedPath: string | undefined;
+const reloadListeners: ((config: FeedsConfig) => void)[] = [];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(feed: string, record: Record<string, unknown>, key: string): string | undefined {
+  const value = record[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new ConfigError(`Feed "${feed}": "${key}" must be a string`);
+  return value;
+}
+
+function optionalStringList(feed: string, record: Record<string, unknown>, key: string): string | string[] | undefined {
+  const value = record[key];
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) return value as string[];
+  return optionalString(feed, record, key);
+}
+
+// `filter:` block, same options as the query parameters (past, future, include, exclude, categories, ...)
+function parseFilter(feed: string, value: unknown): EventFilter | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) throw new ConfigError(`Feed "${feed}": "filter" must be an object`);
+  const input: FilterInput = {};
+  for (const key of ["past", "future", "include", "exclude"] as const) {
+    const v = value[key];
+    // YAML reads `past: 30` as a number
+    const text = typeof v === "number" ? String(v) : optionalString(feed, value, key);
+    if (text !== undefined) input[key] = text;
+  }
+  for (const key of ["categories", "excludeCategories", "busy"] as const) {
+    const v = optionalStringList(feed, value, key);
+    if (v !== undefined) input[key] = v;
+  }
+  try {
+    return parseEventFilter(input);
+  } catch (err: unknown) {
+    if (err instanceof FilterError) throw new ConfigError(`Feed "${feed}": ${err.message}`);
+    throw err;
+  }
+}
+
+// `meetings:` block, same options as the query parameters (cancelled, declined, unanswered, owner)
+function parseMeetings(feed: string, value: unknown): MeetingOptions | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) throw new ConfigError(`Feed "${feed}": "meetings" must be an object`);
+  const input: MeetingInput = {};
+  for (const key of ["cancelled", "declined", "unanswered"] as const) {
+    const v = optionalString(feed, value, key);
+    if (v !== undefined) input[key] = v;
+  }
+  const owner = optionalStringList(feed, value, "owner");
+  if (owner !== undefined) input.owner = owner;
+  try {
+    return parseMeetingOptions(input);
+  } catch (err: unknown) {
+    if (err instanceof MeetingOptionError) throw new ConfigError(`Feed "${feed}": ${err.message}`);
+    throw err;
+  }
+}
+
+// `rules:` list (see src/rules.ts for the conditions and actions)
+function parseRuleList(feed: string, value: unknown): EventRule[] | undefined {
+  try {
+    return parseRules(value);
+  } catch (err: unknown) {
+    if (err instanceof RuleError) throw new ConfigError(`Feed "${feed}": ${err.message}`);
+    throw err;
+  }
+}
+
+// Watch interval: seconds, or a number with an s / m / h suffix ("90s", "5m", "1h")
+function parseInterval(feed: string, value: unknown): number {
+  const match = typeof value === "number" ? [String(value), String(value), "s"] : typeof value === "string" ? /^(\d+)\s*([smh]?)$/.exec(value.trim()) : null;
+  if (match === null) throw new ConfigError(`Feed "${feed}": "watch.interval" must be a number of seconds or a duration like "5m"`);
+  const seconds = Number(match[1]) * (match[2] === "h" ? 3600 : match[2] === "m" ? 60 : 1);
+  if (!Number.isInteger(seconds) || seconds < MIN_WATCH_INTERVAL_SECONDS) {
+    throw new ConfigError(`Feed "${feed}": "watch.interval" must be at least ${MIN_WATCH_INTERVAL_SECONDS} seconds`);
+  }
+  return seconds;
+}
+
+function parseWebhook(feed: string, value: unknown): WebhookConfig {
+  if (!isRecord(value)) throw new ConfigError(`Feed "${feed}": each webhook must be an object with "url" and "secret"`);
+  const url = optionalString(feed, value, "url");
+  let protocol: string | undefined;
+  try {
+    protocol = url !== undefined ? new URL(url).protocol : undefined;
+  } catch {
+    protocol = undefined;
+  }
+  if (protocol !== "https:" && protocol !== "http:") throw new ConfigError(`Feed "${feed}": webhook "url" must be an http(s) URL`);
+  const secret = optionalString(feed, value, "secret");
+  if (secret === undefined || secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+    throw new ConfigError(`Feed "${feed}": webhook "secret" must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`);
+  }
+  return { url: url!, secret };
+}
+
+// `watch: true`, or a `watch:` block with `interval` and `webhooks`
+function parseWatch(feed: string, value: unknown): WatchConfig | undefined {
+  if (value === undefined || value === null || value === false) return undefined;
+  if (value === true) return { intervalSeconds: DEFAULT_WATCH_INTERVAL_SECONDS, webhooks: [] };
+  if (!isRecord(value)) throw new ConfigError(`Feed "${feed}": "watch" must be true or an object`);
+  const intervalSeconds = value.interval !== undefined ? parseInterval(feed, value.interval) : DEFAULT_WATCH_INTERVAL_SECONDS;
+  const webhooks = value.webhooks ?? [];
+  if (!Array.isArray(webhooks)) throw new ConfigError(`Feed "${feed}": "watch.webhooks" must be a list`);
+  return { intervalSeconds, webhooks: webhooks.map((w) => parseWebhook(feed, w)) };
+}
+
+function parseSource(feed: string, value: unknown): SourceFeed {
+  if (typeof value === "string") return { url: value };
+  if (!isRecord(value)) throw new ConfigError(`Feed "${feed}": each source must be a URL or an object with "url"`);
+  const url = optionalString(feed, value, "url");
+  if (url === undefined || url.length === 0) throw new ConfigError(`Feed "${feed}": source is missing "url"`);
+  const prefix = optionalString(feed, value, "prefix");
+  const category = optionalString(feed, value, "category");
+  const color = optionalString(feed, value, "color");
+  return {
+    url,
+    ...(prefix !== undefined ? { prefix } : {}),
+    ...(category !== undefined ? { category } : {}),
+    ...(color !== undefined ? { color } : {}),
+  };
+}
+
+function parseFeed(name: string, value: unknown): { feed: FeedConfig; tokens: string[] } {
+  if (!isRecord(value)) throw new ConfigError(`Feed "${name}" must be an object`);
+
+  // A single `url` (plus optional prefix/category/color) or a `sources` list for a merged feed
+  let sources: SourceFeed[];
+  if (value.sources !== undefined) {
+    if (!Array.isArray(value.sources) || value.sources.length === 0) throw new ConfigError(`Feed "${name}": "sources" must be a non-empty list`);
+    sources = value.sources.map((s) => parseSource(name, s));
+  } else {
+    sources = [parseSource(name, value)];
+  }
+
+  const tokens = value.tokens ?? (value.token !== undefined ? [value.token] : []);
+  if (!Array.isArray(tokens) || tokens.length === 0) throw new ConfigError(`Feed "${name}": at least one token is required`);
+  for (const token of tokens) {
+    if (typeof token !== "string" || !/^[A-Za-z0-9_-]+$/.test(token)) {
+      throw new ConfigError(`Feed "${name}": tokens may only contain letters, digits, "-" and "_"`);
+    }
+    if (token.length < MIN_TOKEN_LENGTH) throw new ConfigError(`Feed "${name}": tokens must be at least ${MIN_TOKEN_LENGTH} characters`);
+  }
+
+  const tz = optionalString(name, value, "tz");
+  if (tz !== undefined && !isLikelyIana(tz)) throw new ConfigError(`Feed "${name}": "tz" must be an IANA timezone`);
+  if (value.override !== undefined && typeof value.override !== "boolean") throw new ConfigError(`Feed "${name}": "override" must be true or false`);
+  const tzMode = optionalString(name, value, "tzMode");
+  if (tzMode !== undefined && tzMode !== "convert" && tzMode !== "preserve") throw new ConfigError(`Feed "${name}": "tzMode" must be convert or preserve`);
+
+  const filter = parseFilter(name, value.filter);
+  const meetings = parseMeetings(name, value.meetings);
+  const privacy = optionalString(name, value, "privacy");
+  if (privacy !== undefined && !PRIVACY_MODES.includes(privacy as PrivacyMode)) {
+    throw new ConfigError(`Feed "${name}": "privacy" must be one of ${PRIVACY_MODES.join(", ")}`);
+  }
+
+  if (value.expand !== undefined && typeof value.expand !== "boolean") throw new ConfigError(`Feed "${name}": "expand" must be true or false`);
+
+  for (const key of ["cleanup", "joinLocation", "sourceReports"] as const) {
+    if (value[key] !== undefined && typeof value[key] !== "boolean") throw new ConfigError(`Feed "${name}": "${key}" must be true or false`);
+  }
+
+  const client = optionalString(name, value, "client");
+  if (client !== undefined && !CLIENT_NAMES.includes(client as ClientName)) {
+    throw new ConfigError(`Feed "${name}": "client" must be one of ${CLIENT_NAMES.join(", ")}`);
+  }
+  const calendarName = optionalString(name, value, "calendarName");
+  const rules = parseRuleList(name, value.rules);
+  const watch = parseWatch(name, value.watch);
+
+  const feed: FeedConfig = {
+    name,
+    sources,
+    ...(tz !== undefined ? { tz } : {}),
+    ...(typeof value.override === "boolean" ? { override: value.override } : {}),
+    ...(tzMode !== undefined ? { tzMode } : {}),
+    ...(filter !== undefined ? { filter } : {}),
+    ...(meetings !== undefined ? { meetings } : {}),
+    ...(privacy !== undefined ? { privacy: privacy as PrivacyMode } : {}),
+    ...(value.expand === true ? { expand: true } : {}),
+    ...(value.cleanup === true ? { cleanup: true } : {}),
+    ...(value.joinLocation === true ? { joinLocation: true } : {}),
+    ...(client !== undefined ? { client: client as ClientName } : {}),
+    ...(calendarName !== undefined ? { calendarName } : {}),
+    ...(rules !== undefined ? { rules } : {}),
+    ...(value.sourceReports === true ? { sourceReports: true } : {}),
+    ...(watch !== undefined ? { watch } : {}),
+  };
+  return { feed, tokens: tokens as string[] };
+}
+
+// Parse and validate config file contents. The format is picked from the file extension.
+export function parseFeedsConfig(text: string, path: string): FeedsConfig {
+  let data: unknown;
+  try {
+    data = extname(path).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message.split("\n")[0] : "Unknown error"; // YAML errors carry a code excerpt
+    throw new ConfigError(`Could not parse ${path} (${msg})`);
+  }
+  if (!isRecord(data) || !isRecord(data.feeds)) throw new ConfigError(`${path}: expected a "feeds" mapping of feed name to feed`);
+
+  const feeds: FeedConfig[] = [];
+  const byToken = new Map<string, FeedConfig>();
+  for (const [name, value] of Object.entries(data.feeds)) {
+    const { feed, tokens } = parseFeed(name, value);
+    for (const token of tokens) {
+      if (byToken.has(token)) throw new ConfigError(`Token of feed "${name}" is already used by feed "${byToken.get(token)?.name}"`);
+      byToken.set(token, feed);
+    }
+    feeds.push(feed);
+  }
+  return { feeds, byToken };
+}
+
+function load(path: string): FeedsConfig {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    throw new ConfigError(`Could not read ${path} (${msg})`);
+  }
+  return parseFeedsConfig(text, path);
+}
+
+// Load the config file and keep watching it. Throws ConfigError if the initial load fails.
+export function loadFeedsConfig(path: string): FeedsConfig {
+  current = load(path);
+  if (watchedPath !== undefined) unwatchFile(watchedPath);
+  watchedPath = path;
+
+  // Polling survives editors and orchestrators that replace the file (rename, symlink swap)
+  watchFile(path, { interval: RELOAD_INTERVAL_MS, persistent: false }, () => {
+    try {
+      current = load(path);
+      log.info("Reloaded feeds config", { feeds: current.feeds.length });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      log.warn("Keeping previous feeds config", { error: msg });
+      return;
+    }
+    for (const listener of reloadListeners) listener(current);
+  });
+  return current;
+}
+
+// Called with the new configuration after every successful reload
+export function onFeedsConfigReload(listener: (config: FeedsConfig) => void): void {
+  reloadListeners.push(listener);
+}
+
+export function feedsConfig(): FeedsConfig {
+  return current;
+}
+
+// Feed served under the token, or undefined for unknown and revoked tokens
+export function feedForToken(token: string): FeedConfig | undefined {
+  return current.byToken.get(token);
+}
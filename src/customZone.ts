@@ -0,0 +1,273 @@
+// customZone.ts
+// Luxon zone built from a feed's own VTIMEZONE definition.
+// Outlook exports TZIDs such as "Customized Time Zone" or "tzone://Microsoft/Custom" that have no IANA
+// equivalent; the only source of truth for them is the STANDARD/DAYLIGHT observances in the feed.
+// - Supports TZOFFSETFROM/TZOFFSETTO, DTSTART, RDATE and yearly RRULEs (BYMONTH, BYDAY, BYMONTHDAY, UNTIL, COUNT, INTERVAL)
+// - Offsets are resolved by finding the latest observance onset at or before the instant
+
+import { Zone, type ZoneOffsetFormat, type ZoneOffsetOptions } from "luxon";
+import { getProperties, getProperty, type IcsComponent } from "./ics.js";
+
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface YearlyRule {
+  interval: number;
+  byMonth: number[];
+  byDay: { nth: number; weekday: number }[]; // nth = 0 means every such weekday of the month
+  byMonthDay: number[];
+  until?: number; // UTC millis
+  count?: number;
+}
+
+interface Observance {
+  offsetFrom: number; // minutes
+  offsetTo: number; // minutes
+  name?: string;
+  dtstart: LocalTime;
+  rrule?: YearlyRule;
+  rdates: number[]; // UTC millis
+}
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const MAX_YEARS_SCANNED = 50;
+
+function parseOffset(value: string): number | undefined {
+  const m = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (m === null) return undefined;
+  const minutes = Number(m[2]) * 60 + Number(m[3]);
+  return m[1] === "-" ? -minutes : minutes;
+}
+
+function parseLocalTime(value: string): LocalTime | undefined {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?Z?$/);
+  if (m === null) return undefined;
+  return {
+    year: Number(m[1]),
+    month: Number(m[2]),
+    day: Number(m[3]),
+    hour: Number(m[4] ?? 0),
+    minute: Number(m[5] ?? 0),
+    second: Number(m[6] ?? 0),
+  };
+}
+
+function localToMillis(t: LocalTime): number {
+  return Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second);
+}
+
+function parseYearlyRule(value: string): YearlyRule | undefined {
+  const parts = new Map<string, string>();
+  for (const kv of value.split(";")) {
+    const [k, v] = kv.split("=");
+    if (typeof k === "string" && typeof v === "string") parts.set(k.toUpperCase(), v.toUpperCase());
+  }
+  if (parts.get("FREQ") !== "YEARLY") return undefined; // observances only ever recur yearly
+
+  const rule: YearlyRule = {
+    interval: Number(parts.get("INTERVAL") ?? "1") || 1,
+    byMonth: (parts.get("BYMONTH") ?? "").split(",").filter((s) => s.length > 0).map(Number),
+    byDay: [],
+    byMonthDay: (parts.get("BYMONTHDAY") ?? "").split(",").filter((s) => s.length > 0).map(Number),
+  };
+  for (const d of (parts.get("BYDAY") ?? "").split(",")) {
+    const m = d.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+    if (m === null) continue;
+    rule.byDay.push({ nth: Number(m[1] ?? 0), weekday: WEEKDAYS.indexOf(m[2]!) + 1 });
+  }
+  const until = parts.get("UNTIL");
+  if (typeof until === "string") {
+    const t = parseLocalTime(until);
+    if (t !== undefined) rule.until = localToMillis(t);
+  }
+  const count = parts.get("COUNT");
+  if (typeof count === "string") rule.count = Number(count);
+  return rule;
+}
+
+// Days of the given month matched by the rule (1-based), sorted
+function ruleDays(rule: YearlyRule, year: number, month: number, fallbackDay: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const days = new Set<number>();
+
+  if (rule.byDay.length > 0) {
+    for (const { nth, weekday } of rule.byDay) {
+      const matching: number[] = [];
+      for (let d = 1; d <= daysInMonth; d++) {
+        const wd = ((new Date(Date.UTC(year, month - 1, d)).getUTCDay() + 6) % 7) + 1; // 1 = Monday
+        if (wd === weekday) matching.push(d);
+      }
+      const picked = nth === 0 ? matching : [nth > 0 ? matching[nth - 1] : matching[matching.length + nth]];
+      for (const d of picked) if (typeof d === "number") days.add(d);
+    }
+    // BYDAY combined with BYMONTHDAY narrows the set (e.g. "Sunday on or after the 8th")
+    if (rule.byMonthDay.length > 0) {
+      for (const d of days) if (!rule.byMonthDay.includes(d)) days.delete(d);
+    }
+  } else if (rule.byMonthDay.length > 0) {
+    for (const d of rule.byMonthDay) days.add(d > 0 ? d : daysInMonth + d + 1);
+  } else {
+    days.add(fallbackDay);
+  }
+
+  return [...days].filter((d) => d >= 1 && d <= daysInMonth).sort((a, b) => a - b);
+}
+
+// UTC instants at which the observance takes effect during the given year
+function onsetsInYear(o: Observance, year: number): number[] {
+  const onsets: number[] = [];
+  const toUtc = (local: number): number => local - o.offsetFrom * 60 * 1000;
+  const first = toUtc(localToMillis(o.dtstart));
+
+  if (o.dtstart.year === year) onsets.push(first);
+
+  const rule = o.rrule;
+  if (rule !== undefined && year >= o.dtstart.year && (year - o.dtstart.year) % rule.interval === 0) {
+    const months = rule.byMonth.length > 0 ? rule.byMonth : [o.dtstart.month];
+    for (const month of months) {
+      for (const day of ruleDays(rule, year, month, o.dtstart.day)) {
+        const at = toUtc(Date.UTC(year, month - 1, day, o.dtstart.hour, o.dtstart.minute, o.dtstart.second));
+        if (at < first) continue;
+        if (rule.until !== undefined && at > rule.until) continue;
+        // COUNT is approximated as one onset per recurring year, which is all real-world rules need
+        if (rule.count !== undefined && (year - o.dtstart.year) / rule.interval >= rule.count) continue;
+        onsets.push(at);
+      }
+    }
+  }
+
+  for (const rdate of o.rdates) {
+    if (new Date(rdate).getUTCFullYear() === year) onsets.push(rdate);
+  }
+  return onsets;
+}
+
+// Latest onset of the observance at or before ts, if any
+function lastOnsetAtOrBefore(o: Observance, ts: number): number | undefined {
+  const tsYear = new Date(ts).getUTCFullYear();
+  let best: number | undefined;
+  for (const rdate of o.rdates) if (rdate <= ts && (best === undefined || rdate > best)) best = rdate;
+
+  const lastYear = o.rrule?.until !== undefined ? Math.min(tsYear, new Date(o.rrule.until).getUTCFullYear()) : tsYear;
+  const firstYear = Math.max(o.dtstart.year, lastYear - MAX_YEARS_SCANNED);
+  for (let year = lastYear; year >= firstYear; year--) {
+    const candidates = onsetsInYear(o, year).filter((at) => at <= ts);
+    if (candidates.length > 0) {
+      const max = Math.max(...candidates);
+      return best === undefined || max > best ? max : best;
+    }
+  }
+
+  const first = localToMillis(o.dtstart) - o.offsetFrom * 60 * 1000;
+  if (first <= ts && (best === undefined || first > best)) best = first;
+  return best;
+}
+
+function formatOffset(minutes: number, format: ZoneOffsetFormat): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  const hh = Math.floor(abs / 60);
+  const mm = abs % 60;
+  if (format === "narrow") return mm > 0 ? `${sign}${hh}:${String(mm).padStart(2, "0")}` : `${sign}${hh}`;
+  const h2 = String(hh).padStart(2, "0");
+  const m2 = String(mm).padStart(2, "0");
+  return format === "techie" ? `${sign}${h2}${m2}` : `${sign}${h2}:${m2}`;
+}
+
+export class VTimezoneZone extends Zone {
+  readonly #name: string;
+  readonly #observances: Observance[];
+
+  constructor(tzid: string, observances: Observance[]) {
+    super();
+    this.#name = tzid;
+    this.#observances = observances;
+  }
+
+  override get type(): string {
+    return "vtimezone";
+  }
+
+  override get name(): string {
+    return this.#name;
+  }
+
+  override get isUniversal(): boolean {
+    return false;
+  }
+
+  override get isValid(): true {
+    return true;
+  }
+
+  // Observance in effect at ts; before the first onset, the earliest observance's TZOFFSETFROM applies
+  #active(ts: number): { offset: number; name?: string } {
+    let best: { at: number; o: Observance } | undefined;
+    for (const o of this.#observances) {
+      const at = lastOnsetAtOrBefore(o, ts);
+      if (at !== undefined && (best === undefined || at > best.at)) best = { at, o };
+    }
+    if (best !== undefined) {
+      return typeof best.o.name === "string" ? { offset: best.o.offsetTo, name: best.o.name } : { offset: best.o.offsetTo };
+    }
+    const earliest = [...this.#observances].sort((a, b) => localToMillis(a.dtstart) - localToMillis(b.dtstart))[0]!;
+    return { offset: earliest.offsetFrom };
+  }
+
+  override offset(ts: number): number {
+    return this.#active(ts).offset;
+  }
+
+  override offsetName(ts: number, _options: ZoneOffsetOptions): string {
+    const active = this.#active(ts);
+    return active.name ?? `GMT${formatOffset(active.offset, "short")}`;
+  }
+
+  override formatOffset(ts: number, format: ZoneOffsetFormat): string {
+    return formatOffset(this.offset(ts), format);
+  }
+
+  override equals(other: Zone): boolean {
+    return other instanceof VTimezoneZone && other.name === this.name;
+  }
+}
+
+// Build a zone from a VTIMEZONE component.
+// Returns undefined if the component has no usable observances.
+export function parseVTimezone(vtimezone: IcsComponent): VTimezoneZone | undefined {
+  const tzid = getProperty(vtimezone, "TZID")?.value;
+  const observances: Observance[] = [];
+
+  for (const sub of vtimezone.components) {
+    if (sub.name !== "STANDARD" && sub.name !== "DAYLIGHT") continue;
+    const offsetFrom = parseOffset(getProperty(sub, "TZOFFSETFROM")?.value ?? "");
+    const offsetTo = parseOffset(getProperty(sub, "TZOFFSETTO")?.value ?? "");
+    const dtstart = parseLocalTime(getProperty(sub, "DTSTART")?.value ?? "");
+    if (offsetFrom === undefined || offsetTo === undefined || dtstart === undefined) continue;
+
+    const observance: Observance = { offsetFrom, offsetTo, dtstart, rdates: [] };
+    const name = getProperty(sub, "TZNAME")?.value;
+    if (typeof name === "string") observance.name = name;
+    const rrule = parseYearlyRule(getProperty(sub, "RRULE")?.value ?? "");
+    if (rrule !== undefined) observance.rrule = rrule;
+    for (const rdate of getProperties(sub, "RDATE")) {
+      for (const v of rdate.value.split(",")) {
+        const t = parseLocalTime(v);
+        if (t === undefined) continue;
+        // RDATEs in UTC are taken as-is, local ones use the offset in effect before the onset
+        const offset = v.trim().endsWith("Z") ? 0 : offsetFrom;
+        observance.rdates.push(localToMillis(t) - offset * 60 * 1000);
+      }
+    }
+    observances.push(observance);
+  }
+
+  if (typeof tzid !== "string" || observances.length === 0) return undefined;
+  return new VTimezoneZone(tzid, observances);
+}
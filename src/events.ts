@@ -0,0 +1,123 @@
+// events.ts
+// Flat JSON view of a transformed calendar for dashboards and scripts (the /events endpoint).
+// - Recurring series are expanded into the requested [from, to) range (src/expand.ts)
+// - Timed events carry ISO 8601 start/end with offset plus the IANA zone name; all-day events carry dates
+// - Organizer and attendees are reduced to name / email (plus role and participation status)
+// - Series with rules that can't be evaluated appear once, at their first start
+
+import { DateTime } from "luxon";
+import { expandBetween } from "./expand.js";
+import { busyStatusOf, type BusyStatus } from "./filter.js";
+import { getParam, getProperties, getProperty, getText, type IcsComponent, type IcsProperty } from "./ics.js";
+import { eventDuration, eventOccurrences, isDateOnly, propertyDates, zoneFor, type Occurrence } from "./recurrence.js";
+
+export interface EventPerson {
+  name: string | null;
+  email: string | null;
+}
+
+export interface EventAttendee extends EventPerson {
+  role: string | null; // REQ-PARTICIPANT, OPT-PARTICIPANT, ...
+  status: string | null; // ACCEPTED, DECLINED, TENTATIVE, NEEDS-ACTION, ...
+}
+
+export interface NormalizedEvent {
+  uid: string;
+  title: string;
+  start: string; // 2026-10-05T09:00:00+02:00, or 2026-10-05 for all-day events
+  end: string; // exclusive; the day after the last day for all-day events
+  timeZone: string | null; // IANA zone of start/end; null for all-day events
+  allDay: boolean;
+  location: string | null;
+  organizer: EventPerson | null;
+  attendees: EventAttendee[];
+  busyStatus: BusyStatus;
+}
+
+export interface EventRange {
+  from: DateTime;
+  to: DateTime;
+}
+
+export class EventRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EventRangeError";
+  }
+}
+
+// Range used when the request doesn't set `from` / `to`: today and the next 30 days
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+function parseInstant(value: string, name: string, zone: string): DateTime {
+  const parsed = DateTime.fromISO(value.trim(), { zone });
+  if (!parsed.isValid) throw new EventRangeError(`Invalid ${name} "${value}" (use an ISO 8601 date or date-time)`);
+  return parsed;
+}
+
+// `from` / `to` as ISO 8601 dates or date-times; dates and times without offset are read in `zone`.
+// Throws EventRangeError.
+export function parseEventRange(from: string | undefined, to: string | undefined, zone: string, now: DateTime = DateTime.now()): EventRange {
+  const start = from !== undefined ? parseInstant(from, "from", zone) : now.setZone(zone).startOf("day");
+  const end = to !== undefined ? parseInstant(to, "to", zone) : start.plus({ days: DEFAULT_RANGE_DAYS });
+  if (end <= start) throw new EventRangeError("`to` must be after `from`");
+  if (end.diff(start, "days").days > MAX_RANGE_DAYS) throw new EventRangeError(`Range longer than ${MAX_RANGE_DAYS} days`);
+  return { from: start, to: end };
+}
+
+function person(prop: IcsProperty): EventPerson {
+  const address = prop.value.trim().replace(/^mailto:/i, "");
+  return { name: getParam(prop, "CN") ?? null, email: address.length > 0 ? address : null };
+}
+
+function attendee(prop: IcsProperty): EventAttendee {
+  return { ...person(prop), role: getParam(prop, "ROLE") ?? null, status: getParam(prop, "PARTSTAT") ?? null };
+}
+
+// The event's single occurrence; for series that couldn't be expanded, their first start
+function occurrenceOf(event: IcsComponent, zone: string): Occurrence | undefined {
+  const own = eventOccurrences(event, zone);
+  if (own !== undefined) {
+    for (const o of own) return o;
+    return undefined;
+  }
+  const dtstart = getProperty(event, "DTSTART");
+  if (dtstart === undefined) return undefined;
+  const eventZone = zoneFor(dtstart, zone);
+  const start = propertyDates(dtstart, eventZone)[0];
+  if (start === undefined) return undefined;
+  return { start, end: start.plus(eventDuration(event, start, eventZone)), allDay: isDateOnly(dtstart) };
+}
+
+function normalize(event: IcsComponent, o: Occurrence): NormalizedEvent {
+  const organizer = getProperty(event, "ORGANIZER");
+  return {
+    uid: getProperty(event, "UID")?.value ?? "",
+    title: getText(event, "SUMMARY") ?? "",
+    start: o.allDay ? o.start.toISODate()! : o.start.toISO({ suppressMilliseconds: true })!,
+    end: o.allDay ? o.end.toISODate()! : o.end.toISO({ suppressMilliseconds: true })!,
+    timeZone: o.allDay ? null : o.start.zoneName,
+    allDay: o.allDay,
+    location: getText(event, "LOCATION") ?? null,
+    organizer: organizer !== undefined ? person(organizer) : null,
+    attendees: getProperties(event, "ATTENDEE").map(attendee),
+    busyStatus: busyStatusOf(event),
+  };
+}
+
+// Events of a parsed calendar overlapping the range, in start order (modifies the calendar).
+// `zone` is used for floating and unknown-zone times.
+export function listEvents(calendar: IcsComponent, range: EventRange, zone: string): NormalizedEvent[] {
+  expandBetween(calendar, range.from, range.to, zone);
+  const events: { at: number; event: NormalizedEvent }[] = [];
+  for (const component of calendar.components) {
+    if (component.name !== "VEVENT") continue;
+    const o = occurrenceOf(component, zone);
+    if (o === undefined) continue;
+    const overlaps = o.start < range.to && (o.end > range.from || (o.end.equals(o.start) && o.start >= range.from));
+    if (!overlaps) continue;
+    events.push({ at: o.start.toMillis(), event: normalize(component, o) });
+  }
+  return events.sort((a, b) => a.at - b.at).map((e) => e.event);
+}
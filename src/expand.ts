@@ -0,0 +1,143 @@
+// expand.ts
+// Flattens recurring events into standalone instances, for consumers that can't handle RRULE.
+// - Each master VEVENT's RRULE / RDATE is expanded on the wall clock of its zone (DST-correct), minus EXDATEs
+// - Instances replaced by a RECURRENCE-ID override use the override instead; cancelled overrides remove the instance
+// - Only instances overlapping the window are emitted; so are single events
+// - Every instance gets a stable UID: the series UID plus the instance's original start in UTC
+
+import { DateTime } from "luxon";
+import type { EventFilter } from "./filter.js";
+import { cloneComponent, getProperty, removeProperties, setProperty, type IcsComponent } from "./ics.js";
+import { eventOccurrences, formatDateValue, isDateOnly, isRecurring, propertyDates, type Occurrence } from "./recurrence.js";
+
+export interface ExpandOptions {
+  pastDays: number; // instances that ended more than this many days ago are dropped
+  futureDays: number; // instances that start more than this many days ahead are dropped
+}
+
+// Window used when the request doesn't set `past` / `future`
+const DEFAULT_PAST_DAYS = 30;
+const DEFAULT_FUTURE_DAYS = 365;
+
+const RECURRENCE_PROPERTIES = ["RRULE", "RDATE", "EXDATE", "EXRULE", "RECURRENCE-ID"];
+
+function overlaps(o: Occurrence, from: DateTime, to: DateTime): boolean {
+  return o.start < to && (o.end > from || (o.end.equals(o.start) && o.start >= from));
+}
+
+// Expansion window: the filter's past/future when given, else the defaults
+export function expandWindow(filter: EventFilter | undefined): ExpandOptions {
+  return { pastDays: filter?.pastDays ?? DEFAULT_PAST_DAYS, futureDays: filter?.futureDays ?? DEFAULT_FUTURE_DAYS };
+}
+
+function firstOccurrence(occurrences: Iterable<Occurrence>): Occurrence | undefined {
+  for (const o of occurrences) return o;
+  return undefined;
+}
+
+// All-day instances are identified by their date, timed ones by their UTC start
+function instanceUid(uid: string, originalStart: DateTime, allDay: boolean): string {
+  return `${uid}-${allDay ? originalStart.toFormat("yyyyLLdd") : originalStart.toUTC().toFormat("yyyyLLdd'T'HHmmss'Z'")}`;
+}
+
+// Standalone copy of the master for one occurrence
+function instanceOf(master: IcsComponent, o: Occurrence, uid: string, zone: string): IcsComponent {
+  const instance = cloneComponent(master);
+  const dtstart = getProperty(instance, "DTSTART")!;
+  const dtend = getProperty(instance, "DTEND");
+  setProperty(instance, { ...dtstart, value: formatDateValue(o.start, dtstart, zone) });
+  if (dtend !== undefined) setProperty(instance, { ...dtend, value: formatDateValue(o.end, dtend, zone) });
+  for (const name of RECURRENCE_PROPERTIES) removeProperties(instance, name);
+  setProperty(instance, { name: "UID", params: [], value: instanceUid(uid, o.start, o.allDay) });
+  return instance;
+}
+
+// Override event turned into a standalone event (no RECURRENCE-ID), or undefined if cancelled / out of window
+function standaloneOverride(override: IcsComponent, originalStart: DateTime, uid: string, zone: string, from: DateTime, to: DateTime): IcsComponent | undefined {
+  if (getProperty(override, "STATUS")?.value.trim().toUpperCase() === "CANCELLED") return undefined;
+  const own = eventOccurrences(override, zone);
+  const occurrence = own === undefined ? undefined : firstOccurrence(own);
+  if (occurrence !== undefined && !overlaps(occurrence, from, to)) return undefined;
+  const recurrenceId = getProperty(override, "RECURRENCE-ID");
+  const allDay = recurrenceId !== undefined && isDateOnly(recurrenceId);
+  const instance = cloneComponent(override);
+  for (const name of RECURRENCE_PROPERTIES) removeProperties(instance, name);
+  setProperty(instance, { name: "UID", params: [], value: instanceUid(uid, originalStart, allDay) });
+  return instance;
+}
+
+// Replace the calendar's VEVENTs with expanded instances (in place), relative to `now`.
+// `zone` is used for floating and unknown-zone times. Series with rules that can't be evaluated are kept as they are.
+export function expandCalendar(calendar: IcsComponent, opts: ExpandOptions, zone: string, now: DateTime = DateTime.now()): void {
+  expandBetween(calendar, now.minus({ days: opts.pastDays }), now.plus({ days: opts.futureDays }), zone);
+}
+
+// Same as expandCalendar, for the absolute window [from, to)
+export function expandBetween(calendar: IcsComponent, from: DateTime, to: DateTime, zone: string): void {
+  // Overrides by series UID, keyed by the instant of their RECURRENCE-ID
+  const overrides = new Map<string, Map<number, IcsComponent>>();
+  for (const event of calendar.components) {
+    if (event.name !== "VEVENT") continue;
+    const recurrenceId = getProperty(event, "RECURRENCE-ID");
+    const uid = getProperty(event, "UID")?.value;
+    if (recurrenceId === undefined || uid === undefined) continue;
+    const at = propertyDates(recurrenceId, zone)[0];
+    if (at === undefined) continue;
+    const byInstant = overrides.get(uid) ?? new Map<number, IcsComponent>();
+    byInstant.set(at.toMillis(), event);
+    overrides.set(uid, byInstant);
+  }
+
+  const expanded: IcsComponent[] = [];
+  const usedOverrides = new Set<IcsComponent>();
+  for (const event of calendar.components) {
+    if (event.name !== "VEVENT") {
+      expanded.push(event);
+      continue;
+    }
+    if (getProperty(event, "RECURRENCE-ID") !== undefined) continue; // placed with their series below
+
+    const uid = getProperty(event, "UID")?.value ?? "";
+    const occurrences = eventOccurrences(event, zone);
+    if (occurrences === undefined) {
+      // Nothing we can evaluate: pass the series through unchanged, overrides included
+      expanded.push(event);
+      for (const override of overrides.get(uid)?.values() ?? []) {
+        usedOverrides.add(override);
+        expanded.push(override);
+      }
+      continue;
+    }
+
+    if (!isRecurring(event)) {
+      const single = firstOccurrence(occurrences);
+      if (single === undefined || overlaps(single, from, to)) expanded.push(event);
+      continue;
+    }
+
+    const seriesOverrides = overrides.get(uid);
+    for (const o of occurrences) {
+      if (o.start >= to) break;
+      const override = seriesOverrides?.get(o.start.toMillis());
+      if (override !== undefined) {
+        usedOverrides.add(override);
+        const instance = standaloneOverride(override, o.start, uid, zone, from, to);
+        if (instance !== undefined) expanded.push(instance);
+        continue;
+      }
+      if (overlaps(o, from, to)) expanded.push(instanceOf(event, o, uid, zone));
+    }
+  }
+
+  // Overrides whose instance lies outside the expanded range (moved into the window) or whose master is missing
+  for (const [uid, byInstant] of overrides) {
+    for (const [instant, override] of byInstant) {
+      if (usedOverrides.has(override)) continue;
+      const originalStart = DateTime.fromMillis(instant, { zone });
+      const instance = standaloneOverride(override, originalStart, uid, zone, from, to);
+      if (instance !== undefined) expanded.push(instance);
+    }
+  }
+
+  calendar.components = expanded;
+}
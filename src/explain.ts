@@ -0,0 +1,252 @@
+// explain.ts
+// Per-event report of what the transform does to a calendar, for debugging "my meeting is an hour off"
+// from a saved feed (cli.ts --explain).
+// - Property lines rewritten, added or removed, and fields reordered
+// - DTSTART / DTEND / RECURRENCE-ID before and after: the zone each value is read in (Windows name mapped,
+//   custom VTIMEZONE, UTC, floating), the instant it stands for, and a warning when that instant moved
+// - Events dropped by meeting handling, the filter or a rule, and series replaced by expanded instances
+// To tell which stage dropped an event, the transform runs again without the later stages.
+
+import { DateTime, IANAZone, type Zone } from "luxon";
+import { parseVTimezone } from "./customZone.js";
+import { getParam, getProperty, getText, parseCalendar, serializeIcs, serializeProperty, type IcsComponent, type IcsProperty } from "./ics.js";
+import { meetingState } from "./meetings.js";
+import { transformCalendar, type TransformOptions } from "./transform.js";
+import { isWindowsZone, mapWindowsToIana } from "./windowsZones.js";
+
+export interface Explanation {
+  output: string; // the transformed calendar, as transformIcs returns it
+  report: string;
+}
+
+// Properties whose times are explained, not just diffed
+const TIME_PROPERTIES = ["DTSTART", "DTEND", "RECURRENCE-ID"];
+// Longer content lines (descriptions) are cut in the report
+const MAX_LINE_LENGTH = 120;
+
+interface Run {
+  calendar: IcsComponent;
+  events: IcsComponent[]; // the source VEVENTs, by position, whether or not they survived
+}
+
+// How a DATE / DATE-TIME value is read
+interface ZoneReading {
+  zone: string | Zone | undefined; // undefined when the zone can't be resolved
+  description: string;
+}
+
+interface ZoneContext {
+  targetTz: string;
+  territory: string | undefined;
+  customZones: Map<string, Zone>;
+}
+
+function transformRun(ics: string, opts: TransformOptions): Run {
+  const calendar = parseCalendar(ics);
+  const events = calendar.components.filter((c) => c.name === "VEVENT");
+  transformCalendar(calendar, opts);
+  return { calendar, events };
+}
+
+function survived(run: Run, index: number): boolean {
+  const event = run.events[index];
+  return event !== undefined && run.calendar.components.includes(event);
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH - 1)}…` : line;
+}
+
+// --- Times -------------------------------------------------------------------
+
+function isDateValue(prop: IcsProperty): boolean {
+  return getParam(prop, "VALUE")?.toUpperCase() === "DATE" || /^\d{8}$/.test(prop.value);
+}
+
+function readZone(prop: IcsProperty, ctx: ZoneContext): ZoneReading {
+  if (isDateValue(prop)) return { zone: ctx.targetTz, description: "all-day" };
+  if (prop.value.endsWith("Z")) return { zone: "utc", description: "UTC" };
+  const tzid = getParam(prop, "TZID");
+  if (tzid === undefined || tzid.length === 0) return { zone: ctx.targetTz, description: `floating, read as ${ctx.targetTz}` };
+  if (isWindowsZone(tzid)) {
+    const iana = mapWindowsToIana(tzid, ctx.targetTz, ctx.territory);
+    return { zone: iana, description: `Windows zone "${tzid}" mapped to ${iana ?? "nothing"}` };
+  }
+  if (IANAZone.isValidZone(tzid)) return { zone: tzid, description: tzid };
+  const custom = ctx.customZones.get(tzid);
+  if (custom !== undefined) return { zone: custom, description: `custom zone "${tzid}" from the feed's VTIMEZONE` };
+  return { zone: undefined, description: `unknown zone "${tzid}"` };
+}
+
+function instant(value: string, zone: string | Zone): DateTime | undefined {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?Z?)?$/.exec(value);
+  if (m === null) return undefined;
+  const dt = DateTime.fromObject(
+    { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]), hour: Number(m[4] ?? 0), minute: Number(m[5] ?? 0), second: Number(m[6] ?? 0) },
+    { zone },
+  );
+  return dt.isValid ? dt : undefined;
+}
+
+function formatShift(minutes: number): string {
+  const abs = Math.abs(minutes);
+  const text = `${abs >= 60 ? `${Math.floor(abs / 60)}h` : ""}${abs % 60 !== 0 ? `${abs % 60}m` : ""}`;
+  return `${minutes > 0 ? "+" : "-"}${text}`;
+}
+
+function describeTime(prop: IcsProperty, ctx: ZoneContext): { text: string; at?: DateTime } {
+  const reading = readZone(prop, ctx);
+  const at = reading.zone !== undefined && !isDateValue(prop) ? instant(prop.value, reading.zone) : undefined;
+  const utc = at !== undefined ? ` = ${at.toUTC().toISO({ suppressMilliseconds: true })}` : "";
+  return { text: `${prop.value} (${reading.description})${utc}`, ...(at !== undefined ? { at } : {}) };
+}
+
+// Before / after of a time property, with what happened to the instant
+function explainTime(name: string, before: IcsProperty, after: IcsProperty, ctx: ZoneContext): string[] {
+  const a = describeTime(before, ctx);
+  const b = describeTime(after, ctx);
+  const lines = [`    ${name}: ${a.text}`, `      -> ${b.text}`];
+  if (!isDateValue(before) && isDateValue(after)) {
+    lines.push("      converted to an all-day date");
+  } else if (readZone(before, ctx).zone === undefined) {
+    lines.push("      ! zone not resolved: left as published");
+  } else if (a.at !== undefined && b.at !== undefined && a.at.toMillis() !== b.at.toMillis()) {
+    lines.push(`      ! instant moved by ${formatShift(Math.round(b.at.diff(a.at, "minutes").minutes))}`);
+  }
+  return lines;
+}
+
+// --- Properties --------------------------------------------------------------
+
+// Properties keyed by name and occurrence ("ATTENDEE#2"), so repeated ones pair up in order
+function keyed(props: IcsProperty[]): [string, IcsProperty][] {
+  const seen = new Map<string, number>();
+  return props.map((p) => {
+    const n = seen.get(p.name) ?? 0;
+    seen.set(p.name, n + 1);
+    return [`${p.name}#${n}`, p];
+  });
+}
+
+// Diff lines: "- old" / "+ new" for rewritten lines, a lone "-" or "+" for removed and added ones
+function propertyChanges(before: IcsProperty[], after: IcsProperty[], ctx?: ZoneContext): string[] {
+  const beforeKeyed = keyed(before);
+  const afterKeyed = keyed(after);
+  const afterByKey = new Map(afterKeyed);
+  const beforeKeys = new Set(beforeKeyed.map(([k]) => k));
+  const lines: string[] = [];
+  const times: string[] = [];
+
+  for (const [key, prop] of beforeKeyed) {
+    const next = afterByKey.get(key);
+    const line = serializeProperty(prop);
+    if (next === undefined) {
+      lines.push(`    - ${clip(line)}`);
+      continue;
+    }
+    const nextLine = serializeProperty(next);
+    if (line !== nextLine) lines.push(`    - ${clip(line)}`, `    + ${clip(nextLine)}`);
+    if (ctx !== undefined && TIME_PROPERTIES.includes(prop.name) && key.endsWith("#0")) times.push(...explainTime(prop.name, prop, next, ctx));
+  }
+  for (const [key, prop] of afterKeyed) {
+    if (!beforeKeys.has(key)) lines.push(`    + ${clip(serializeProperty(prop))}`);
+  }
+
+  const common = (list: [string, IcsProperty][]): string => list.map(([k]) => k).filter((k) => beforeKeys.has(k) && afterByKey.has(k)).join(",");
+  if (common(beforeKeyed) !== common(afterKeyed)) lines.push("    fields reordered");
+  return [...lines, ...times];
+}
+
+// --- Events ------------------------------------------------------------------
+
+function eventLabel(event: IcsComponent, index: number): string[] {
+  const recurrenceId = getProperty(event, "RECURRENCE-ID");
+  return [
+    `VEVENT ${index + 1}: "${getText(event, "SUMMARY") ?? ""}"`,
+    `  UID: ${getProperty(event, "UID")?.value ?? "(none)"}${recurrenceId !== undefined ? `, RECURRENCE-ID: ${recurrenceId.value}` : ""}`,
+  ];
+}
+
+// Why a source event is missing from the output
+function dropReason(
+  index: number,
+  event: IcsComponent,
+  opts: TransformOptions,
+  runs: { afterMeetings: Run; afterFilter: Run; afterExpand: Run; full: Run },
+): string {
+  if (!survived(runs.afterMeetings, index)) {
+    const state = opts.meetings !== undefined ? meetingState(event, opts.meetings.owners) : undefined;
+    return state !== undefined ? `dropped: ${state} meeting (${state}=drop)` : "dropped with its series (meeting handling)";
+  }
+  if (!survived(runs.afterFilter, index)) return "dropped: did not pass the filter";
+  if (survived(runs.afterExpand, index)) return "dropped: matched a rule with drop";
+
+  const uid = getProperty(event, "UID")?.value ?? "";
+  if (getProperty(event, "RECURRENCE-ID") !== undefined) return "folded into the expanded series";
+  const instances = runs.full.calendar.components.filter((c) => c.name === "VEVENT" && getProperty(c, "UID")?.value.startsWith(`${uid}-`)).length;
+  return instances > 0 ? `expanded into ${instances} instance(s)` : "dropped: no occurrence in the expansion window";
+}
+
+function withoutStages(opts: TransformOptions, stages: ("filter" | "expand" | "rules")[]): TransformOptions {
+  const reduced = { ...opts };
+  for (const stage of stages) delete reduced[stage];
+  return reduced;
+}
+
+// Transform the calendar and report, event by event, what changed. Throws IcsParseError like transformIcs.
+export function explainTransform(ics: string, opts: TransformOptions): Explanation {
+  const source = parseCalendar(ics);
+  const full = transformRun(ics, opts);
+  const afterExpand = opts.rules !== undefined ? transformRun(ics, withoutStages(opts, ["rules"])) : full;
+  const afterFilter = opts.expand !== undefined ? transformRun(ics, withoutStages(opts, ["rules", "expand"])) : afterExpand;
+  const afterMeetings = opts.filter !== undefined ? transformRun(ics, withoutStages(opts, ["rules", "expand", "filter"])) : afterFilter;
+
+  const customZones = new Map<string, Zone>();
+  for (const vtimezone of source.components.filter((c) => c.name === "VTIMEZONE")) {
+    const tzid = getProperty(vtimezone, "TZID")?.value ?? "";
+    if (mapWindowsToIana(tzid) !== undefined || customZones.has(tzid)) continue;
+    const zone = parseVTimezone(vtimezone);
+    if (zone !== undefined) customZones.set(tzid, zone);
+  }
+  const ctx: ZoneContext = { targetTz: opts.targetTz, territory: opts.windowsTerritory, customZones };
+
+  const sourceEvents = source.components.filter((c) => c.name === "VEVENT");
+  const outputEvents = full.calendar.components.filter((c) => c.name === "VEVENT");
+  const counts = { rewritten: 0, unchanged: 0, removed: 0 };
+  const eventLines: string[] = [];
+
+  sourceEvents.forEach((event, index) => {
+    eventLines.push("", ...eventLabel(event, index));
+    if (!survived(full, index)) {
+      counts.removed++;
+      eventLines.push(`  ${dropReason(index, event, opts, { afterMeetings, afterFilter, afterExpand, full })}`);
+      return;
+    }
+    const output = full.events[index]!;
+    const changes = propertyChanges(event.properties, output.properties, ctx);
+    const before = event.components.map((c) => c.name).join(", ");
+    const after = output.components.map((c) => c.name).join(", ");
+    if (before !== after) changes.push(`    components: ${before || "(none)"} -> ${after || "(none)"}`);
+
+    // Time explanations are listed for unchanged events too; only diff lines make an event rewritten
+    const rewritten = changes.some((l) => /^ {4}([-+] |fields reordered|components:)/.test(l));
+    if (rewritten) counts.rewritten++;
+    else counts.unchanged++;
+    eventLines.push(rewritten ? "  rewritten:" : "  unchanged", ...changes);
+  });
+
+  const zonesOf = (calendar: IcsComponent): string =>
+    calendar.components.filter((c) => c.name === "VTIMEZONE").map((c) => getProperty(c, "TZID")?.value ?? "?").join(", ") || "(none)";
+  const calendarChanges = propertyChanges(source.properties, full.calendar.properties);
+
+  const report = [
+    `${sourceEvents.length} event(s) in, ${outputEvents.length} out: ${counts.rewritten} rewritten, ${counts.unchanged} unchanged, ${counts.removed} dropped or expanded`,
+    `Target zone: ${opts.targetTz} (tzmode=${opts.tzMode}, override=${opts.overrideExistingTz ? 1 : 0})`,
+    "",
+    "VCALENDAR",
+    `  VTIMEZONE: ${zonesOf(source)} -> ${zonesOf(full.calendar)}`,
+    ...calendarChanges,
+    ...eventLines,
+  ];
+  return { output: serializeIcs(full.calendar), report: `${report.join("\n")}\n` };
+}
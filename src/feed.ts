@@ -0,0 +1,92 @@
+// feed.ts
+// Fetch + transform a source feed through the cache.
+// - Fresh cache entries (younger than the TTL) are served without touching upstream
+// - Stale entries are revalidated with a conditional request (ETag / If-Modified-Since)
+// - When upstream fails, the last good transformed copy is served instead of an error
+// - Fetch latency and status, transform time, event counts and cache results go to metrics.ts;
+//   upstream successes and failures feed the readiness state (health.ts)
+
+import { feedCacheKey, getCacheEntry, isFresh, setCacheEntry, strongEtag, type CacheEntry } from "./cache.js";
+import { recordUpstreamFailure, recordUpstreamSuccess } from "./health.js";
+import { IcsParseError, parseCalendar, serializeIcs, type IcsComponent } from "./ics.js";
+import { recordCacheLookup, recordTransform, recordUpstreamFetch } from "./metrics.js";
+import { transformCalendar, type TransformOptions } from "./transform.js";
+import { fetchUpstream, UpstreamError, type UpstreamResult } from "./upstream.js";
+import { UrlRejectedError } from "./urlPolicy.js";
+
+export type CacheStatus = "HIT" | "MISS" | "REVALIDATED" | "STALE";
+
+export interface FeedResult {
+  entry: CacheEntry;
+  cacheStatus: CacheStatus;
+  error?: Error; // set when a stale copy is served because upstream failed
+}
+
+// Transform the upstream body and store it, keeping Last-Modified stable when the output didn't change.
+// `parsed` is the calendar already parsed while downloading; cached sources are parsed here.
+function storeTransformed(key: string, source: string, previous: CacheEntry | undefined, upstream: CacheEntry["upstream"], opts: TransformOptions, parsed?: IcsComponent): CacheEntry {
+  const started = performance.now();
+  const calendar = parsed ?? parseCalendar(source);
+  transformCalendar(calendar, opts);
+  const body = serializeIcs(calendar);
+  recordTransform((performance.now() - started) / 1000, body.match(/^BEGIN:VEVENT\r?$/gm)?.length ?? 0);
+  const etag = strongEtag(body);
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key,
+    source,
+    body,
+    etag,
+    lastModified: previous?.etag === etag ? previous.lastModified : new Date(now).toUTCString(),
+    upstream,
+    fetchedAt: now,
+  };
+  setCacheEntry(entry);
+  return entry;
+}
+
+// fetchUpstream, timed and counted by response status
+async function timedFetch(sourceUrl: string, validators: CacheEntry["upstream"]): Promise<UpstreamResult> {
+  const started = performance.now();
+  try {
+    const result = await fetchUpstream(sourceUrl, validators);
+    recordUpstreamFetch(result.status === "not-modified" ? 304 : 200, (performance.now() - started) / 1000);
+    return result;
+  } catch (err: unknown) {
+    recordUpstreamFetch(err instanceof UpstreamError ? err.status : undefined, (performance.now() - started) / 1000);
+    throw err;
+  }
+}
+
+function fromCache(entry: CacheEntry, cacheStatus: CacheStatus, error?: Error): FeedResult {
+  recordCacheLookup(cacheStatus);
+  return { entry, cacheStatus, ...(error !== undefined ? { error } : {}) };
+}
+
+// Get the transformed feed for a source URL and options.
+// Throws UpstreamError / IcsParseError only when there is no cached copy to fall back to.
+// `revalidate` asks upstream even when the cached copy is fresh (with the conditional headers, as usual).
+export async function getTransformedFeed(sourceUrl: string, opts: TransformOptions, revalidate = false): Promise<FeedResult> {
+  const key = feedCacheKey(sourceUrl, opts);
+  const cached = getCacheEntry(key);
+  if (cached !== undefined && !revalidate && isFresh(cached)) return fromCache(cached, "HIT");
+
+  try {
+    const result = await timedFetch(sourceUrl, cached?.upstream ?? {});
+    if (result.status === "not-modified") {
+      if (cached === undefined) throw new UpstreamError("Upstream returned 304 without a cached copy", 304);
+      // Re-run the transform on the cached source so output always reflects the current code
+      const entry = storeTransformed(key, cached.source, cached, cached.upstream, opts);
+      recordUpstreamSuccess();
+      return fromCache(entry, "REVALIDATED");
+    }
+    const entry = storeTransformed(key, result.body, cached, result.validators, opts, result.calendar);
+    recordUpstreamSuccess();
+    return fromCache(entry, "MISS");
+  } catch (err: unknown) {
+    if (err instanceof UpstreamError || err instanceof IcsParseError || err instanceof UrlRejectedError) recordUpstreamFailure(err.message);
+    if (!(err instanceof UpstreamError || err instanceof IcsParseError)) throw err;
+    if (cached === undefined) throw err;
+    return fromCache(cached, "STALE", err);
+  }
+}
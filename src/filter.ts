@@ -0,0 +1,198 @@
+// filter.ts
+// Drops events from a parsed calendar before it is serialized.
+// - Rolling date window (`past` / `future`), recurring series kept if any occurrence falls inside
+// - Include / exclude regular expressions matched against SUMMARY and LOCATION
+// - CATEGORIES filters (keep only / drop)
+// - Busy status filter from X-MICROSOFT-CDO-BUSYSTATUS, falling back to STATUS and TRANSP
+// A filtered occurrence override becomes an EXDATE on its series; a filtered series drops its overrides.
+// Options are plain data (regexes as strings) so they can be part of the cache key.
+
+import { DateTime } from "luxon";
+import { decodeTextList, getProperties, getProperty, getText, type IcsComponent } from "./ics.js";
+import { dropEvents, eventOccurrences } from "./recurrence.js";
+
+export type BusyStatus = "FREE" | "TENTATIVE" | "BUSY" | "OOF" | "WORKINGELSEWHERE";
+
+export interface EventFilter {
+  pastDays?: number; // drop events that ended more than this many days ago
+  futureDays?: number; // drop events that start more than this many days ahead
+  include?: string; // regex: keep only events whose SUMMARY or LOCATION matches
+  exclude?: string; // regex: drop events whose SUMMARY or LOCATION matches
+  categories?: string[]; // keep only events with at least one of these categories
+  excludeCategories?: string[]; // drop events with any of these categories
+  busyStatus?: BusyStatus[]; // keep only events with one of these statuses
+}
+
+export class FilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FilterError";
+  }
+}
+
+const BUSY_STATUSES: BusyStatus[] = ["FREE", "TENTATIVE", "BUSY", "OOF", "WORKINGELSEWHERE"];
+const MAX_PATTERN_LENGTH = 200;
+const DURATION_UNITS: Record<string, number> = { d: 1, w: 7, y: 365 };
+
+// --- Options -----------------------------------------------------------------
+
+// "30d", "12w", "1y" or a plain number of days
+export function parseDays(value: string): number {
+  const m = value.trim().toLowerCase().match(/^(\d+)([dwy]?)$/);
+  if (m === null) throw new FilterError(`Invalid duration "${value}" (use e.g. 30d, 12w or 1y)`);
+  return Number(m[1]) * (DURATION_UNITS[m[2] || "d"] ?? 1);
+}
+
+// True at a quantifier that can repeat more than once: *, +, {n,} or {n,m}
+function isRepeat(pattern: string, i: number): boolean {
+  const c = pattern[i];
+  return c === "*" || c === "+" || (c === "{" && /^\{\d+,/.test(pattern.slice(i)));
+}
+
+// A repeated group that itself repeats or alternates, such as (a+)+ or (a|ab)*, can backtrack
+// exponentially on a long SUMMARY; patterns come straight from the query string, so refuse them
+function hasNestedRepeat(pattern: string): boolean {
+  const groups = [{ repeats: false }]; // per open group: contains a repeat or an alternation
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      i++;
+    } else if (c === "[") {
+      // Character class: nothing inside is a group or a quantifier
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (c === "(") {
+      groups.push({ repeats: false });
+    } else if (c === ")") {
+      const inner = groups.length > 1 ? groups.pop()! : { repeats: false };
+      const repeated = isRepeat(pattern, i + 1);
+      if (repeated && inner.repeats) return true;
+      if (repeated || inner.repeats) groups[groups.length - 1]!.repeats = true;
+    } else if (c === "|" || isRepeat(pattern, i)) {
+      groups[groups.length - 1]!.repeats = true;
+    }
+  }
+  return false;
+}
+
+function compilePattern(pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) throw new FilterError(`Pattern longer than ${MAX_PATTERN_LENGTH} characters`);
+  if (hasNestedRepeat(pattern)) throw new FilterError(`Pattern "${pattern}" repeats a group that contains a repetition or alternation`);
+  try {
+    return new RegExp(pattern, "iu");
+  } catch {
+    throw new FilterError(`Invalid regular expression "${pattern}"`);
+  }
+}
+
+function list(value: string | string[]): string[] {
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
+
+export interface FilterInput {
+  past?: string;
+  future?: string;
+  include?: string;
+  exclude?: string;
+  categories?: string | string[];
+  excludeCategories?: string | string[];
+  busy?: string | string[];
+}
+
+// Validate raw options (query parameters or config file values). Throws FilterError.
+// Returns undefined when no filter is set, so unfiltered feeds share their cache entries.
+export function parseEventFilter(input: FilterInput): EventFilter | undefined {
+  const filter: EventFilter = {};
+  if (input.past !== undefined) filter.pastDays = parseDays(input.past);
+  if (input.future !== undefined) filter.futureDays = parseDays(input.future);
+  if (input.include !== undefined && input.include.length > 0) {
+    compilePattern(input.include);
+    filter.include = input.include;
+  }
+  if (input.exclude !== undefined && input.exclude.length > 0) {
+    compilePattern(input.exclude);
+    filter.exclude = input.exclude;
+  }
+  if (input.categories !== undefined) filter.categories = list(input.categories);
+  if (input.excludeCategories !== undefined) filter.excludeCategories = list(input.excludeCategories);
+  if (input.busy !== undefined) {
+    const statuses = list(input.busy).map((s) => s.toUpperCase());
+    for (const s of statuses) {
+      if (!BUSY_STATUSES.includes(s as BusyStatus)) throw new FilterError(`Unknown busy status "${s}" (use ${BUSY_STATUSES.join(", ")})`);
+    }
+    filter.busyStatus = statuses as BusyStatus[];
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+// The filter without its rolling date window, or undefined when nothing else is set.
+// Change tracking compares against this, so events moving in and out of the window are not changes.
+export function withoutWindow(filter: EventFilter): EventFilter | undefined {
+  const { pastDays: _past, futureDays: _future, ...rest } = filter;
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+// --- Matching ----------------------------------------------------------------
+
+// Outlook's own status when present, else derived from STATUS / TRANSP
+export function busyStatusOf(event: IcsComponent): BusyStatus {
+  const cdo = getProperty(event, "X-MICROSOFT-CDO-BUSYSTATUS")?.value.trim().toUpperCase();
+  if (cdo !== undefined && BUSY_STATUSES.includes(cdo as BusyStatus)) return cdo as BusyStatus;
+  if (getProperty(event, "STATUS")?.value.trim().toUpperCase() === "TENTATIVE") return "TENTATIVE";
+  if (getProperty(event, "TRANSP")?.value.trim().toUpperCase() === "TRANSPARENT") return "FREE";
+  return "BUSY";
+}
+
+// CATEGORIES of the event, lower case
+export function categoriesOf(event: IcsComponent): string[] {
+  return getProperties(event, "CATEGORIES").flatMap((p) => decodeTextList(p.value)).map((c) => c.trim().toLowerCase());
+}
+
+// True if the event (or, for a series, any of its occurrences) overlaps [from, to).
+// Events whose dates can't be evaluated are kept. Either bound may be left open.
+export function inWindow(event: IcsComponent, from: DateTime | undefined, to: DateTime | undefined, zone: string): boolean {
+  const occurrences = eventOccurrences(event, zone);
+  if (occurrences === undefined) return true;
+  for (const o of occurrences) {
+    if (to !== undefined && o.start >= to) return false; // occurrences come in start order
+    if (from === undefined || o.end > from || (o.end.equals(o.start) && o.start >= from)) return true;
+  }
+  return false;
+}
+
+// Build a predicate for the filter, evaluated at `now`. `zone` is used for floating and unknown-zone times.
+export function eventPredicate(filter: EventFilter, zone: string, now: DateTime = DateTime.now()): (event: IcsComponent) => boolean {
+  const include = filter.include !== undefined ? compilePattern(filter.include) : undefined;
+  const exclude = filter.exclude !== undefined ? compilePattern(filter.exclude) : undefined;
+  const categories = filter.categories?.map((c) => c.toLowerCase());
+  const excludeCategories = filter.excludeCategories?.map((c) => c.toLowerCase());
+  const from = filter.pastDays !== undefined ? now.minus({ days: filter.pastDays }) : undefined;
+  const to = filter.futureDays !== undefined ? now.plus({ days: filter.futureDays }) : undefined;
+
+  return (event) => {
+    const texts = [getText(event, "SUMMARY") ?? "", getText(event, "LOCATION") ?? ""];
+    if (include !== undefined && !texts.some((t) => include.test(t))) return false;
+    if (exclude !== undefined && texts.some((t) => exclude.test(t))) return false;
+
+    if (categories !== undefined || excludeCategories !== undefined) {
+      const own = categoriesOf(event);
+      if (categories !== undefined && !own.some((c) => categories.includes(c))) return false;
+      if (excludeCategories !== undefined && own.some((c) => excludeCategories.includes(c))) return false;
+    }
+
+    if (filter.busyStatus !== undefined && !filter.busyStatus.includes(busyStatusOf(event))) return false;
+    if (from !== undefined || to !== undefined) return inWindow(event, from, to, zone);
+    return true;
+  };
+}
+
+// Remove the VEVENTs that don't pass the filter (in place)
+export function filterEvents(calendar: IcsComponent, filter: EventFilter, zone: string): void {
+  const keep = eventPredicate(filter, zone);
+  const dropped = new Set(calendar.components.filter((c) => c.name === "VEVENT" && !keep(c)));
+  if (dropped.size > 0) dropEvents(calendar, dropped);
+}
@@ -0,0 +1,49 @@
+// health.ts
+// Liveness and readiness state for /healthz and /readyz.
+// - Upstream reachability is tracked passively from real fetches; health checks never call Outlook themselves
+// - Ready while upstream answers, or while failing but cached copies can still be served (stale-on-failure)
+// - Not ready when the recent upstream fetches all failed and there is nothing cached to fall back to
+
+import { cacheSize } from "./cache.js";
+
+export interface UpstreamHealth {
+  lastSuccess?: string; // ISO time of the last successful fetch or revalidation
+  lastFailure?: string; // ISO time of the last failed fetch
+  lastError?: string; // message of the last failure (never contains the URL)
+  consecutiveFailures: number;
+}
+
+export interface Readiness {
+  ready: boolean;
+  reason?: string; // why the instance is not ready
+  upstream: UpstreamHealth & { status: "unknown" | "ok" | "failing" };
+  cache: { entries: number };
+}
+
+// Upstream failures in a row before an instance with an empty cache reports not ready
+const FAILURES_BEFORE_UNREADY = 3;
+
+const upstream: UpstreamHealth = { consecutiveFailures: 0 };
+
+export function recordUpstreamSuccess(): void {
+  upstream.lastSuccess = new Date().toISOString();
+  upstream.consecutiveFailures = 0;
+}
+
+export function recordUpstreamFailure(message: string): void {
+  upstream.lastFailure = new Date().toISOString();
+  upstream.lastError = message;
+  upstream.consecutiveFailures += 1;
+}
+
+export function readiness(): Readiness {
+  const entries = cacheSize();
+  const status = upstream.consecutiveFailures > 0 ? "failing" : upstream.lastSuccess !== undefined ? "ok" : "unknown";
+  const unreachable = upstream.consecutiveFailures >= FAILURES_BEFORE_UNREADY && entries === 0;
+  return {
+    ready: !unreachable,
+    ...(unreachable ? { reason: `Upstream failed ${upstream.consecutiveFailures} times in a row and nothing is cached` } : {}),
+    upstream: { ...upstream, status },
+    cache: { entries },
+  };
+}
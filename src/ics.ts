@@ -0,0 +1,344 @@
+// ics.ts
+// Minimal iCalendar (RFC 5545) component model: parser, serializer and helpers.
+// - Content lines are unfolded, then parsed into components / properties / parameters;
+//   the parser also accepts its input in chunks (createIcsParser)
+// - Parameter values are unquoted on parse and re-quoted on output when needed (RFC 6868 caret encoding included)
+// - Property values are kept raw (still escaped); TEXT values go through decodeText/encodeText
+// - Output is folded at 75 octets of UTF-8, never splitting a character
+
+export interface IcsParameter {
+  name: string; // upper-case
+  values: string[]; // unquoted, decoded
+}
+
+export interface IcsProperty {
+  name: string; // upper-case
+  params: IcsParameter[];
+  value: string; // raw value as it appears after the colon
+}
+
+export interface IcsComponent {
+  name: string; // upper-case, e.g. VCALENDAR, VEVENT, VALARM
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IcsParseError";
+  }
+}
+
+export const MAX_LINE_OCTETS = 75;
+
+// --- Lines -------------------------------------------------------------------
+
+// An unfolded content line and the physical line (1-based) it starts on
+export interface NumberedLine {
+  text: string;
+  line: number;
+}
+
+// Unfold folded ICS lines (RFC5545: a CRLF followed by a single whitespace means continuation),
+// keeping where each content line starts for diagnostics (see validate.ts)
+export function unfoldNumberedLines(raw: string): NumberedLine[] {
+  const lines = raw.replace(/\r\n?/g, "\n").split("\n");
+  const unfolded: NumberedLine[] = [];
+  lines.forEach((line, i) => {
+    const last = unfolded[unfolded.length - 1];
+    if ((line.startsWith(" ") || line.startsWith("\t")) && last !== undefined) {
+      last.text += line.slice(1);
+    } else if (line.length > 0) {
+      unfolded.push({ text: line, line: i + 1 });
+    }
+  });
+  return unfolded;
+}
+
+// Unfold folded ICS lines
+export function unfoldLines(raw: string): string[] {
+  return unfoldNumberedLines(raw).map((l) => l.text);
+}
+
+function utf8Length(codePoint: number): number {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+// Fold a content line at 75 octets (continuation lines: 1 space + up to 74 octets), never inside a UTF-8 sequence
+export function foldLine(line: string): string[] {
+  const folded: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = utf8Length(ch.codePointAt(0) ?? 0);
+    if (octets + size > MAX_LINE_OCTETS) {
+      folded.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += ch;
+    octets += size;
+  }
+  folded.push(current);
+  return folded;
+}
+
+// --- TEXT values -------------------------------------------------------------
+
+// Decode an escaped TEXT value (\\ \; \, \n)
+export function decodeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_m, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+// Escape a string as a TEXT value
+export function encodeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Split a multi-valued TEXT property (e.g. CATEGORIES) on unescaped commas, decoding each value
+export function decodeTextList(value: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (c === "\\" && i + 1 < value.length) {
+      current += c + value[i + 1];
+      i++;
+    } else if (c === ",") {
+      parts.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  parts.push(current);
+  return parts.map(decodeText);
+}
+
+// --- Content lines -----------------------------------------------------------
+
+function decodeParamValue(value: string): string {
+  // RFC 6868: ^n = newline, ^' = double quote, ^^ = caret
+  return value.replace(/\^(['n^])/g, (_m, c: string) => (c === "n" ? "\n" : c === "'" ? '"' : "^"));
+}
+
+function encodeParamValue(value: string): string {
+  const encoded = value.replace(/\^/g, "^^").replace(/\r?\n/g, "^n").replace(/"/g, "^'");
+  return /[;:,]/.test(encoded) ? `"${encoded}"` : encoded;
+}
+
+// Parse a single unfolded content line: NAME *(;PARAM=VALUE[,VALUE]) : VALUE
+export function parseContentLine(line: string): IcsProperty | undefined {
+  const nameMatch = line.match(/^[A-Za-z0-9-]+/);
+  if (nameMatch === null) return undefined;
+  const name = nameMatch[0].toUpperCase();
+  const params: IcsParameter[] = [];
+  let i = name.length;
+
+  while (line[i] === ";") {
+    i++;
+    const eq = line.indexOf("=", i);
+    if (eq === -1) return undefined;
+    const paramName = line.slice(i, eq).toUpperCase();
+    i = eq + 1;
+    const values: string[] = [];
+    for (;;) {
+      let raw: string;
+      if (line[i] === '"') {
+        const close = line.indexOf('"', i + 1);
+        if (close === -1) return undefined;
+        raw = line.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        let j = i;
+        while (j < line.length && line[j] !== ";" && line[j] !== ":" && line[j] !== ",") j++;
+        raw = line.slice(i, j);
+        i = j;
+      }
+      values.push(decodeParamValue(raw));
+      if (line[i] === ",") {
+        i++;
+        continue;
+      }
+      break;
+    }
+    params.push({ name: paramName, values });
+  }
+
+  if (line[i] !== ":") return undefined;
+  return { name, params, value: line.slice(i + 1) };
+}
+
+export function serializeProperty(prop: IcsProperty): string {
+  const params = prop.params.map((p) => `;${p.name}=${p.values.map(encodeParamValue).join(",")}`).join("");
+  return `${prop.name}${params}:${prop.value}`;
+}
+
+// --- Components --------------------------------------------------------------
+
+// Incremental parser: text is pushed as it arrives (e.g. chunk by chunk from the network) and
+// parsed line by line, so a large feed is never split into one big array of lines.
+export interface IcsParser {
+  push(chunk: string): void;
+  end(): IcsComponent[]; // top-level components, once all input has been pushed
+}
+
+// Lenient like the clients we feed: unknown lines are skipped, unbalanced END lines are ignored
+// and components left open at end of input are closed.
+export function createIcsParser(): IcsParser {
+  const roots: IcsComponent[] = [];
+  const stack: IcsComponent[] = [];
+  let pending = ""; // text after the last line break seen
+  let logical: string | undefined; // current unfolded line, complete once a non-continuation line follows
+
+  function contentLine(line: string): void {
+    const prop = parseContentLine(line);
+    if (prop === undefined) return;
+
+    if (prop.name === "BEGIN") {
+      const component: IcsComponent = { name: prop.value.trim().toUpperCase(), properties: [], components: [] };
+      const parent = stack[stack.length - 1];
+      if (parent) parent.components.push(component);
+      else roots.push(component);
+      stack.push(component);
+      return;
+    }
+
+    if (prop.name === "END") {
+      const name = prop.value.trim().toUpperCase();
+      const idx = stack.map((c) => c.name).lastIndexOf(name);
+      if (idx >= 0) stack.length = idx; // also closes any component nested inside that was left open
+      return;
+    }
+
+    const current = stack[stack.length - 1];
+    if (current) current.properties.push(prop);
+  }
+
+  // Unfold as in unfoldLines: a line starting with whitespace continues the previous one
+  function physicalLine(line: string): void {
+    if (line.length === 0) return;
+    if ((line.startsWith(" ") || line.startsWith("\t")) && logical !== undefined) {
+      logical += line.slice(1);
+      return;
+    }
+    if (logical !== undefined) contentLine(logical);
+    logical = line;
+  }
+
+  return {
+    push(chunk: string): void {
+      const text = pending + chunk;
+      // A trailing CR may be the first half of a CRLF split across chunks
+      const last = text.endsWith("\r") ? text.length - 2 : text.length - 1;
+      const lastBreak = Math.max(text.lastIndexOf("\n", last), text.lastIndexOf("\r", last));
+      if (lastBreak < 0) {
+        pending = text;
+        return;
+      }
+      pending = text.slice(lastBreak + 1);
+      for (const line of text.slice(0, lastBreak).split(/\r\n?|\n/)) physicalLine(line);
+    },
+    end(): IcsComponent[] {
+      for (const line of pending.split(/\r\n?|\n/)) physicalLine(line);
+      pending = "";
+      if (logical !== undefined) contentLine(logical);
+      logical = undefined;
+      return roots;
+    },
+  };
+}
+
+// Parse ICS text into its top-level components (normally a single VCALENDAR)
+export function parseIcs(raw: string): IcsComponent[] {
+  const parser = createIcsParser();
+  parser.push(raw);
+  return parser.end();
+}
+
+// The VCALENDAR among parsed top-level components, throwing if there is none
+export function findCalendar(roots: IcsComponent[]): IcsComponent {
+  const calendar = roots.find((c) => c.name === "VCALENDAR");
+  if (calendar === undefined) throw new IcsParseError("No VCALENDAR component found");
+  return calendar;
+}
+
+// Parse ICS text and return its VCALENDAR, throwing if there is none
+export function parseCalendar(raw: string): IcsComponent {
+  return findCalendar(parseIcs(raw));
+}
+
+// Unfolded content lines for a component: BEGIN, properties, sub-components, END
+export function componentLines(component: IcsComponent): string[] {
+  return [
+    `BEGIN:${component.name}`,
+    ...component.properties.map(serializeProperty),
+    ...component.components.flatMap(componentLines),
+    `END:${component.name}`,
+  ];
+}
+
+// Serialize a component tree to folded ICS text with CRLF line endings
+export function serializeIcs(component: IcsComponent): string {
+  return componentLines(component).flatMap(foldLine).join("\r\n") + "\r\n"; // ICS should end with CRLF
+}
+
+// --- Helpers -----------------------------------------------------------------
+
+// Deep copy, so shared components (e.g. cached VTIMEZONEs) can be edited safely
+export function cloneComponent(component: IcsComponent): IcsComponent {
+  return {
+    name: component.name,
+    properties: component.properties.map((p) => ({ ...p, params: p.params.map((q) => ({ ...q, values: [...q.values] })) })),
+    components: component.components.map(cloneComponent),
+  };
+}
+
+export function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find((p) => p.name === name);
+}
+
+export function getProperties(component: IcsComponent, name: string): IcsProperty[] {
+  return component.properties.filter((p) => p.name === name);
+}
+
+// Replace every occurrence of the property with a single one (appended if absent)
+export function setProperty(component: IcsComponent, prop: IcsProperty): void {
+  const idx = component.properties.findIndex((p) => p.name === prop.name);
+  component.properties = component.properties.filter((p) => p.name !== prop.name);
+  if (idx >= 0) component.properties.splice(idx, 0, prop);
+  else component.properties.push(prop);
+}
+
+export function removeProperties(component: IcsComponent, name: string): void {
+  component.properties = component.properties.filter((p) => p.name !== name);
+}
+
+export function getParam(prop: IcsProperty, name: string): string | undefined {
+  return prop.params.find((p) => p.name === name)?.values[0];
+}
+
+export function setParam(prop: IcsProperty, name: string, value: string): void {
+  const existing = prop.params.find((p) => p.name === name);
+  if (existing) existing.values = [value];
+  else prop.params.push({ name, values: [value] });
+}
+
+export function removeParam(prop: IcsProperty, name: string): void {
+  prop.params = prop.params.filter((p) => p.name !== name);
+}
+
+// Decoded TEXT value of the first property with that name
+export function getText(component: IcsComponent, name: string): string | undefined {
+  const prop = getProperty(component, name);
+  return prop === undefined ? undefined : decodeText(prop.value);
+}
+
+export function setText(component: IcsComponent, name: string, text: string): void {
+  const existing = getProperty(component, name);
+  setProperty(component, { name, params: existing?.params ?? [], value: encodeText(text) });
+}
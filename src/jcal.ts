@@ -0,0 +1,127 @@
+// jcal.ts
+// jCal (RFC 7265): the JSON form of an iCalendar component tree.
+// - Components become [name, properties, components], properties [name, params, type, ...values]
+// - Value types come from the VALUE parameter or the property's default type (RFC 5545 / RFC 7986)
+// - DATE / DATE-TIME / UTC-OFFSET / PERIOD values are written in their extended ISO 8601 forms,
+//   RRULEs as objects, numbers as JSON numbers; unknown properties keep their text as "unknown"
+
+import { decodeText, decodeTextList, type IcsComponent, type IcsProperty } from "./ics.js";
+
+export type JCalValue = string | number | boolean | (string | number)[] | Record<string, string | number | (string | number)[]>;
+export type JCalProperty = [string, Record<string, string | string[]>, string, ...JCalValue[]];
+export type JCalComponent = [string, JCalProperty[], JCalComponent[]];
+
+// Default value types (RFC 5545 section 3.8, RFC 7986 section 5)
+const DEFAULT_TYPES: Record<string, string> = {
+  CALSCALE: "text", METHOD: "text", PRODID: "text", VERSION: "text",
+  ATTACH: "uri", CATEGORIES: "text", CLASS: "text", COMMENT: "text", DESCRIPTION: "text", GEO: "float",
+  LOCATION: "text", "PERCENT-COMPLETE": "integer", PRIORITY: "integer", RESOURCES: "text", STATUS: "text",
+  SUMMARY: "text", COMPLETED: "date-time", DTEND: "date-time", DUE: "date-time", DTSTART: "date-time",
+  DURATION: "duration", FREEBUSY: "period", TRANSP: "text", TZID: "text", TZNAME: "text",
+  TZOFFSETFROM: "utc-offset", TZOFFSETTO: "utc-offset", TZURL: "uri", ATTENDEE: "cal-address", CONTACT: "text",
+  ORGANIZER: "cal-address", "RECURRENCE-ID": "date-time", "RELATED-TO": "text", URL: "uri", UID: "text",
+  EXDATE: "date-time", RDATE: "date-time", RRULE: "recur", ACTION: "text", REPEAT: "integer", TRIGGER: "duration",
+  CREATED: "date-time", DTSTAMP: "date-time", "LAST-MODIFIED": "date-time", SEQUENCE: "integer",
+  "REQUEST-STATUS": "text", NAME: "text", "REFRESH-INTERVAL": "duration", SOURCE: "uri", COLOR: "text",
+  IMAGE: "uri", CONFERENCE: "uri",
+};
+
+// TEXT properties whose value is a comma-separated list (each item becomes its own jCal value)
+const TEXT_LIST_PROPERTIES = new Set(["CATEGORIES", "RESOURCES"]);
+// Types whose comma-separated values are separate values
+const MULTI_VALUE_TYPES = new Set(["date", "date-time", "period", "utc-offset", "duration", "integer", "float"]);
+const RECUR_NUMERIC_PARTS = new Set(["count", "interval", "bysecond", "byminute", "byhour", "bymonthday", "byyearday", "byweekno", "bymonth", "bysetpos"]);
+
+function formatDate(value: string): string {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return m === null ? value : `${m[1]}-${m[2]}-${m[3]}`;
+}
+
+function formatDateTime(value: string): string {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z?)$/);
+  return m === null ? value : `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6] ?? "00"}${m[7]}`;
+}
+
+function formatOffset(value: string): string {
+  const m = value.match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  return m === null ? value : `${m[1]}${m[2]}:${m[3]}${m[4] !== undefined ? `:${m[4]}` : ""}`;
+}
+
+// DATE-TIME properties may hold DATE values without VALUE=DATE (lenient feeds)
+function formatDateOrDateTime(value: string): string {
+  return /^\d{8}$/.test(value) ? formatDate(value) : formatDateTime(value);
+}
+
+function formatPeriod(value: string): string {
+  const [start, end] = value.split("/");
+  if (start === undefined || end === undefined) return value;
+  return `${formatDateTime(start)}/${end.startsWith("P") || end.startsWith("+P") || end.startsWith("-P") ? end : formatDateTime(end)}`;
+}
+
+function recurValue(value: string): Record<string, string | number | (string | number)[]> {
+  const recur: Record<string, string | number | (string | number)[]> = {};
+  for (const part of value.split(";")) {
+    const [key, raw] = part.split("=");
+    if (key === undefined || raw === undefined || key.length === 0) continue;
+    const name = key.toLowerCase();
+    const items: (string | number)[] = raw.split(",").map((v) => {
+      if (RECUR_NUMERIC_PARTS.has(name)) return Number(v);
+      if (name === "until") return formatDateOrDateTime(v);
+      return v;
+    });
+    recur[name] = items.length === 1 ? items[0]! : items;
+  }
+  return recur;
+}
+
+function valueType(prop: IcsProperty): string {
+  const explicit = prop.params.find((p) => p.name === "VALUE")?.values[0];
+  if (explicit !== undefined) return explicit.toLowerCase();
+  const fallback = DEFAULT_TYPES[prop.name];
+  if (fallback === "date-time" && /^\d{8}(,\d{8})*$/.test(prop.value)) return "date";
+  return fallback ?? "unknown";
+}
+
+function values(prop: IcsProperty, type: string): JCalValue[] {
+  if (type === "text") {
+    return TEXT_LIST_PROPERTIES.has(prop.name) ? decodeTextList(prop.value) : [decodeText(prop.value)];
+  }
+  if (type === "recur") return [recurValue(prop.value)];
+  if (prop.name === "GEO" && type === "float") return [prop.value.split(";").map(Number)];
+  if (prop.name === "REQUEST-STATUS") return [prop.value.split(";")];
+
+  const raw = MULTI_VALUE_TYPES.has(type) ? prop.value.split(",") : [prop.value];
+  return raw.map((v): JCalValue => {
+    switch (type) {
+      case "date":
+        return formatDate(v);
+      case "date-time":
+        return formatDateOrDateTime(v);
+      case "period":
+        return formatPeriod(v);
+      case "utc-offset":
+        return formatOffset(v);
+      case "integer":
+      case "float":
+        return Number(v);
+      case "boolean":
+        return v.toUpperCase() === "TRUE";
+      default:
+        return v;
+    }
+  });
+}
+
+export function propertyToJCal(prop: IcsProperty): JCalProperty {
+  const type = valueType(prop);
+  const params: Record<string, string | string[]> = {};
+  for (const p of prop.params) {
+    if (p.name === "VALUE") continue;
+    params[p.name.toLowerCase()] = p.values.length === 1 ? p.values[0]! : p.values;
+  }
+  return [prop.name.toLowerCase(), params, type, ...values(prop, type)];
+}
+
+export function componentToJCal(component: IcsComponent): JCalComponent {
+  return [component.name.toLowerCase(), component.properties.map(propertyToJCal), component.components.map(componentToJCal)];
+}
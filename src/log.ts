@@ -0,0 +1,90 @@
+// log.ts
+// Structured logging: one JSON object per line on stdout (or readable text with LOG_FORMAT=text).
+// - Levels debug < info < warn < error; entries below the configured level are dropped
+// - Entries written while a request is handled carry its request ID (see withRequestId)
+// - Secrets are redacted before anything is written: URLs keep only their scheme and host,
+//   named feed tokens in paths become <token>, and fields such as `url` or `token` are masked
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export type LogFormat = "json" | "text";
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogConfig {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+let config: LogConfig = { level: "info", format: "json" };
+const requestContext = new AsyncLocalStorage<string>();
+
+// Field names whose values are always masked, whatever they contain
+const SECRET_FIELDS = new Set(["url", "urls", "token", "authorization", "cookie", "secret", "password"]);
+const URL_PATTERN = /\b(https?|webcals?):\/\/([^\s/?#"'<>]+)([^\s"'<>]*)/gi;
+const FEED_TOKEN_PATTERN = /\/feeds\/[^/\s?#"']+?(?=\.(?:ics|json)\b|[/\s?#"']|$)/g;
+
+export function configureLog(next: LogConfig): void {
+  config = next;
+}
+
+export function logConfig(): LogConfig {
+  return config;
+}
+
+// Run `fn` with every log entry it writes (including from awaited code) tagged with the request ID
+export function withRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run(requestId, fn);
+}
+
+// Remove credentials from a string: upstream URLs (Outlook publishing secrets) and feed tokens
+export function redact(text: string): string {
+  return text
+    .replace(URL_PATTERN, (_m, scheme: string, host: string, rest: string) =>
+      `${scheme}://${host.replace(/^[^@]*@/, "")}${rest.length > 1 ? "/<redacted>" : rest}`)
+    .replace(FEED_TOKEN_PATTERN, "/feeds/<token>");
+}
+
+function redactValue(key: string, value: unknown): unknown {
+  if (SECRET_FIELDS.has(key.toLowerCase())) return value === undefined ? undefined : "<redacted>";
+  if (typeof value === "string") return redact(value);
+  if (value instanceof Error) return redact(value.message);
+  if (Array.isArray(value)) return value.map((v) => redactValue("", v));
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactValue(k, v)]));
+  }
+  return value;
+}
+
+function formatText(entry: LogFields): string {
+  const { time, level, msg, ...fields } = entry;
+  const extra = Object.entries(fields)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`)
+    .join(" ");
+  return `[${String(time)}] ${String(level).toUpperCase()}: ${String(msg)}${extra.length > 0 ? ` (${extra})` : ""}`;
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(config.level)) return;
+  const requestId = requestContext.getStore();
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg: redact(msg),
+    ...(requestId !== undefined ? { requestId } : {}),
+    ...(redactValue("", fields) as LogFields),
+  };
+  console.log(config.format === "text" ? formatText(entry) : JSON.stringify(entry));
+}
+
+export const log = {
+  debug: (msg: string, fields?: LogFields): void => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields): void => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields): void => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields): void => write("error", msg, fields),
+};
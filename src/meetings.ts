@@ -0,0 +1,110 @@
+// meetings.ts
+// What to do with meetings that won't take place for the calendar owner.
+// - cancelled: STATUS:CANCELLED, or a "Canceled:" / "Cancelled:" SUMMARY prefix (Outlook, several languages)
+// - declined / unanswered: the owner's own ATTENDEE has PARTSTAT=DECLINED / NEEDS-ACTION (needs `owner` addresses)
+// Each kind is kept as published, marked (free / transparent, cancelled or tentative status) or dropped.
+// Dropping an occurrence override turns it into an EXDATE on its series; dropping a series drops its overrides.
+
+import { getParam, getProperties, getProperty, getText, setProperty, type IcsComponent } from "./ics.js";
+import { dropEvents } from "./recurrence.js";
+
+export type MeetingAction = "keep" | "mark" | "drop";
+
+export const MEETING_ACTIONS: MeetingAction[] = ["keep", "mark", "drop"];
+
+export interface MeetingOptions {
+  cancelled: MeetingAction;
+  declined: MeetingAction;
+  unanswered: MeetingAction;
+  owners: string[]; // the calendar owner's addresses, lower case
+}
+
+export class MeetingOptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MeetingOptionError";
+  }
+}
+
+export type MeetingState = "cancelled" | "declined" | "unanswered";
+
+// Outlook's SUMMARY prefix for cancelled meetings, in the languages it is most often published in
+const CANCELLED_PREFIX = /^\s*(cancell?ed|abgesagt|annulé|annullato|cancelado|geannuleerd|inställt|aflyst|avlyst|peruttu|odwołane)\s*:/i;
+
+// --- Options -----------------------------------------------------------------
+
+export interface MeetingInput {
+  cancelled?: string;
+  declined?: string;
+  unanswered?: string;
+  owner?: string | string[];
+}
+
+function action(name: string, value: string | undefined): MeetingAction {
+  if (value === undefined) return "keep";
+  const normalized = value.trim().toLowerCase();
+  if (!MEETING_ACTIONS.includes(normalized as MeetingAction)) {
+    throw new MeetingOptionError(`Invalid ${name} "${value}" (use ${MEETING_ACTIONS.join(", ")})`);
+  }
+  return normalized as MeetingAction;
+}
+
+// Validate raw options (query parameters or config file values). Throws MeetingOptionError.
+// Returns undefined when everything is kept, so such feeds share their cache entries.
+export function parseMeetingOptions(input: MeetingInput): MeetingOptions | undefined {
+  const owners = (Array.isArray(input.owner) ? input.owner : input.owner !== undefined ? [input.owner] : [])
+    .flatMap((o) => o.split(","))
+    .map((o) => o.trim().replace(/^mailto:/i, "").toLowerCase())
+    .filter((o) => o.length > 0);
+  const opts: MeetingOptions = {
+    cancelled: action("cancelled", input.cancelled),
+    declined: action("declined", input.declined),
+    unanswered: action("unanswered", input.unanswered),
+    owners,
+  };
+  if ((opts.declined !== "keep" || opts.unanswered !== "keep") && owners.length === 0) {
+    throw new MeetingOptionError("Handling declined or unanswered meetings needs the owner's address (owner=...)");
+  }
+  return opts.cancelled === "keep" && opts.declined === "keep" && opts.unanswered === "keep" ? undefined : opts;
+}
+
+// --- Events ------------------------------------------------------------------
+
+function ownerPartstat(event: IcsComponent, owners: string[]): string | undefined {
+  for (const attendee of getProperties(event, "ATTENDEE")) {
+    const address = attendee.value.trim().replace(/^mailto:/i, "").toLowerCase();
+    if (owners.includes(address)) return (getParam(attendee, "PARTSTAT") ?? "NEEDS-ACTION").toUpperCase();
+  }
+  return undefined;
+}
+
+// Which kind of meeting the event is for the owner, or undefined for a normal event
+export function meetingState(event: IcsComponent, owners: string[]): MeetingState | undefined {
+  if (getProperty(event, "STATUS")?.value.trim().toUpperCase() === "CANCELLED") return "cancelled";
+  if (CANCELLED_PREFIX.test(getText(event, "SUMMARY") ?? "")) return "cancelled";
+  const partstat = ownerPartstat(event, owners);
+  if (partstat === "DECLINED") return "declined";
+  if (partstat === "NEEDS-ACTION") return "unanswered";
+  return undefined;
+}
+
+// Keep the event but show it as free; cancelled and unanswered meetings also get a matching STATUS
+function mark(event: IcsComponent, state: MeetingState): void {
+  if (state === "cancelled") setProperty(event, { name: "STATUS", params: [], value: "CANCELLED" });
+  if (state === "unanswered") setProperty(event, { name: "STATUS", params: [], value: "TENTATIVE" });
+  setProperty(event, { name: "TRANSP", params: [], value: "TRANSPARENT" });
+  setProperty(event, { name: "X-MICROSOFT-CDO-BUSYSTATUS", params: [], value: "FREE" });
+}
+
+// Apply the options to the calendar's VEVENTs (in place)
+export function handleMeetings(calendar: IcsComponent, opts: MeetingOptions): void {
+  const dropped = new Set<IcsComponent>();
+  for (const event of calendar.components) {
+    if (event.name !== "VEVENT") continue;
+    const state = meetingState(event, opts.owners);
+    if (state === undefined || opts[state] === "keep") continue;
+    if (opts[state] === "mark") mark(event, state);
+    else dropped.add(event);
+  }
+  dropEvents(calendar, dropped);
+}
@@ -0,0 +1,177 @@
+// merge.ts
+// Combines several source feeds into one VCALENDAR.
+// - Each source goes through the usual fetch + cache + transform path (see feed.ts)
+// - Per-source decorations: SUMMARY prefix, extra CATEGORIES tag, RFC 7986 COLOR (redacted like the rest of the event)
+// - Events are de-duplicated by UID + RECURRENCE-ID (highest SEQUENCE, then latest DTSTAMP wins)
+// - VTIMEZONEs are rebuilt once for the merged set of events
+// - The merged output is cached (cache.ts) and rebuilt only when a source's ETag or status changes
+// - A failing source never fails the whole feed; its status is reported to the caller
+
+import { feedCacheKey, getCacheEntry, setCacheEntry, strongEtag, type CacheEntry } from "./cache.js";
+import { clientProfile, type ClientProfile } from "./clientProfile.js";
+import { getTransformedFeed, type CacheStatus } from "./feed.js";
+import {
+  encodeText,
+  getProperty,
+  getText,
+  parseCalendar,
+  serializeIcs,
+  setProperty,
+  setText,
+  type IcsComponent,
+} from "./ics.js";
+import { applyPrivacy, type PrivacyMode } from "./privacy.js";
+import { fixVEventStructure, rebuildVTimezones, type TransformOptions } from "./transform.js";
+
+export interface SourceFeed {
+  url: string;
+  prefix?: string; // prepended to every SUMMARY
+  category?: string; // added as an extra CATEGORIES value
+  color?: string; // RFC 7986 COLOR (CSS3 color name)
+}
+
+export type SourceStatus = "ok" | "stale" | "failed";
+
+export interface SourceReport {
+  index: number; // 1-based position in the source list (URLs are secrets and never reported)
+  status: SourceStatus;
+  cacheStatus?: CacheStatus;
+  error?: string;
+}
+
+export interface MergedFeed {
+  body: string;
+  etag: string;
+  lastModified: string | undefined; // most recent Last-Modified of the sources that answered
+  sources: SourceReport[];
+  sourceTexts: (string | undefined)[]; // upstream feeds as received, by position (undefined for failed sources)
+}
+
+// Components that describe calendar data (as opposed to VTIMEZONE definitions)
+const EVENT_COMPONENTS = new Set(["VEVENT", "VTODO", "VJOURNAL", "VFREEBUSY"]);
+
+// Sources arrive already redacted, so the privacy mode runs again over what the decorations added
+function decorate(calendar: IcsComponent, source: SourceFeed, profile: ClientProfile, privacy: PrivacyMode): void {
+  for (const event of calendar.components) {
+    if (event.name !== "VEVENT") continue;
+    if (typeof source.prefix === "string" && source.prefix.length > 0) {
+      setText(event, "SUMMARY", `${source.prefix}${getText(event, "SUMMARY") ?? ""}`);
+    }
+    if (typeof source.category === "string" && source.category.length > 0) {
+      event.properties.push({ name: "CATEGORIES", params: [], value: encodeText(source.category) });
+    }
+    if (typeof source.color === "string" && source.color.length > 0) {
+      setProperty(event, { name: "COLOR", params: [], value: source.color });
+    }
+    applyPrivacy(event, privacy);
+    fixVEventStructure(event, profile);
+  }
+}
+
+function instanceKey(component: IcsComponent): string | undefined {
+  const uid = getProperty(component, "UID")?.value;
+  if (typeof uid !== "string") return undefined;
+  return `${component.name}|${uid}|${getProperty(component, "RECURRENCE-ID")?.value ?? ""}`;
+}
+
+// True if candidate should replace current: newer SEQUENCE, or same SEQUENCE and newer DTSTAMP
+function supersedes(candidate: IcsComponent, current: IcsComponent): boolean {
+  const seq = (c: IcsComponent): number => Number(getProperty(c, "SEQUENCE")?.value ?? 0) || 0;
+  if (seq(candidate) !== seq(current)) return seq(candidate) > seq(current);
+  const stamp = (c: IcsComponent): string => getProperty(c, "DTSTAMP")?.value ?? "";
+  return stamp(candidate) > stamp(current);
+}
+
+// Merge already transformed calendars. The first calendar provides the calendar-level properties.
+export function mergeCalendars(calendars: IcsComponent[], targetTz: string): IcsComponent {
+  const merged: IcsComponent = {
+    name: "VCALENDAR",
+    properties: calendars[0]?.properties.map((p) => ({ ...p })) ?? [],
+    components: [],
+  };
+  if (getProperty(merged, "VERSION") === undefined) merged.properties.unshift({ name: "VERSION", params: [], value: "2.0" });
+
+  const sourceBlocks = new Map<string, IcsComponent>();
+  const byKey = new Map<string, number>(); // instance key -> index in merged.components
+
+  for (const calendar of calendars) {
+    for (const component of calendar.components) {
+      if (component.name === "VTIMEZONE") {
+        const tzid = getProperty(component, "TZID")?.value ?? "";
+        if (!sourceBlocks.has(tzid)) sourceBlocks.set(tzid, component);
+        continue;
+      }
+      if (!EVENT_COMPONENTS.has(component.name)) continue;
+      const key = instanceKey(component);
+      const existing = key === undefined ? undefined : byKey.get(key);
+      if (key === undefined || existing === undefined) {
+        if (key !== undefined) byKey.set(key, merged.components.length);
+        merged.components.push(component);
+      } else if (supersedes(component, merged.components[existing]!)) {
+        merged.components[existing] = component;
+      }
+    }
+  }
+
+  rebuildVTimezones(merged, sourceBlocks, targetTz);
+  return merged;
+}
+
+// Cache key of a merged feed: its sources with their decorations, and the options.
+// The sources' ETags are kept as the entry's validator, so a changed source replaces the entry instead of adding one.
+function mergedCacheKey(sources: SourceFeed[], opts: TransformOptions): string {
+  return feedCacheKey(JSON.stringify(sources.map((s) => [s.url, s.prefix ?? "", s.category ?? "", s.color ?? ""])), opts);
+}
+
+// Fetch, transform, decorate and merge all sources. Throws only if every source failed.
+// `revalidate` is passed on to getTransformedFeed.
+export async function getMergedFeed(sources: SourceFeed[], opts: TransformOptions, revalidate = false): Promise<MergedFeed> {
+  const results = await Promise.allSettled(sources.map((s) => getTransformedFeed(s.url, opts, revalidate)));
+
+  const answered: { source: SourceFeed; entry: CacheEntry }[] = [];
+  const reports: SourceReport[] = [];
+  const sourceTexts: (string | undefined)[] = [];
+  const sourceEtags: string[] = [];
+  let lastModified: string | undefined;
+  let firstError: unknown;
+
+  results.forEach((result, i) => {
+    const source = sources[i]!;
+    if (result.status === "rejected") {
+      firstError ??= result.reason;
+      const msg = result.reason instanceof Error ? result.reason.message : "Unknown error";
+      reports.push({ index: i + 1, status: "failed", error: msg });
+      sourceTexts.push(undefined);
+      sourceEtags.push("failed");
+      return;
+    }
+    const { entry, cacheStatus, error } = result.value;
+    answered.push({ source, entry });
+    const report: SourceReport = { index: i + 1, status: cacheStatus === "STALE" ? "stale" : "ok", cacheStatus };
+    if (error !== undefined) report.error = error.message;
+    reports.push(report);
+    sourceTexts.push(entry.source);
+    sourceEtags.push(entry.etag);
+    if (lastModified === undefined || Date.parse(entry.lastModified) > Date.parse(lastModified)) lastModified = entry.lastModified;
+  });
+
+  if (answered.length === 0) throw firstError;
+
+  const key = mergedCacheKey(sources, opts);
+  const validator = sourceEtags.join(",");
+  let merged = getCacheEntry(key);
+  if (merged?.upstream.etag !== validator) {
+    const profile = clientProfile(opts.client);
+    const calendars = answered.map(({ source, entry }) => {
+      const calendar = parseCalendar(entry.body);
+      decorate(calendar, source, profile, opts.privacy ?? "full");
+      return calendar;
+    });
+    const body = serializeIcs(mergeCalendars(calendars, opts.targetTz));
+    const now = Date.now();
+    // No upstream text of its own: the sources keep theirs in their own entries
+    merged = { key, source: "", body, etag: strongEtag(body), lastModified: new Date(now).toUTCString(), upstream: { etag: validator }, fetchedAt: now };
+    setCacheEntry(merged);
+  }
+  return { body: merged.body, etag: merged.etag, lastModified, sources: reports, sourceTexts };
+}
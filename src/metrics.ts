@@ -0,0 +1,170 @@
+// metrics.ts
+// Prometheus metrics (text exposition format 0.0.4), served at /metrics.
+// - Counters and histograms live in this module; other modules record through the helpers below
+// - Label values are bounded (route patterns, status codes, cache statuses), never URLs or tokens
+// - Gauges such as cache size and hit ratio are computed when the metrics are rendered
+
+import type { CacheStatus } from "./feed.js";
+
+type Labels = Record<string, string>;
+
+interface Counter {
+  name: string;
+  help: string;
+  values: Map<string, { labels: Labels; value: number }>;
+}
+
+interface Histogram {
+  name: string;
+  help: string;
+  buckets: number[];
+  series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>;
+}
+
+// Gauges read at render time
+export type GaugeReader = () => number;
+
+const PREFIX = "icsproxy_";
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const EVENT_BUCKETS = [0, 10, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+function counter(name: string, help: string): Counter {
+  return { name: PREFIX + name, help, values: new Map() };
+}
+
+function histogram(name: string, help: string, buckets: number[]): Histogram {
+  return { name: PREFIX + name, help, buckets, series: new Map() };
+}
+
+const httpRequests = counter("http_requests_total", "HTTP requests by route, method and status code");
+const httpDuration = histogram("http_request_duration_seconds", "HTTP request duration by route", DURATION_BUCKETS);
+const upstreamDuration = histogram("upstream_fetch_duration_seconds", "Upstream fetch duration by outcome", DURATION_BUCKETS);
+const upstreamResponses = counter("upstream_responses_total", "Upstream fetches by HTTP status (\"error\" for network and policy failures)");
+const upstreamRetries = counter("upstream_retries_total", "Upstream attempts retried after a 429, 5xx, timeout or network error");
+const transformDuration = histogram("transform_duration_seconds", "Time spent transforming a source feed", DURATION_BUCKETS);
+const transformEvents = histogram("transform_events", "VEVENTs in each transformed feed", EVENT_BUCKETS);
+const cacheLookups = counter("cache_lookups_total", "Feed cache lookups by result (HIT, MISS, REVALIDATED, STALE)");
+const feedChanges = counter("feed_changes_total", "Changes detected in watched feeds by type");
+const webhookDeliveries = counter("webhook_deliveries_total", "Webhook deliveries by result (delivered, failed)");
+
+const gauges = new Map<string, { help: string; read: GaugeReader }>();
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function increment(metric: Counter, labels: Labels, by = 1): void {
+  const key = labelKey(labels);
+  const current = metric.values.get(key);
+  if (current !== undefined) current.value += by;
+  else metric.values.set(key, { labels, value: by });
+}
+
+function observe(metric: Histogram, labels: Labels, value: number): void {
+  const key = labelKey(labels);
+  let series = metric.series.get(key);
+  if (series === undefined) {
+    series = { labels, counts: metric.buckets.map(() => 0), sum: 0, count: 0 };
+    metric.series.set(key, series);
+  }
+  metric.buckets.forEach((bound, i) => {
+    if (value <= bound) series.counts[i]! += 1;
+  });
+  series.sum += value;
+  series.count += 1;
+}
+
+// --- Recording ---------------------------------------------------------------
+
+export function recordHttpRequest(route: string, method: string, status: number, seconds: number): void {
+  increment(httpRequests, { route, method, status: String(status) });
+  observe(httpDuration, { route }, seconds);
+}
+
+// `status` is the upstream HTTP status, or undefined when no response arrived
+export function recordUpstreamFetch(status: number | undefined, seconds: number): void {
+  const outcome = status === undefined ? "error" : status === 304 ? "not_modified" : status >= 200 && status < 300 ? "ok" : "http_error";
+  observe(upstreamDuration, { outcome }, seconds);
+  increment(upstreamResponses, { status: status === undefined ? "error" : String(status) });
+}
+
+export function recordUpstreamRetry(): void {
+  increment(upstreamRetries, {});
+}
+
+export function recordTransform(seconds: number, events: number): void {
+  observe(transformDuration, {}, seconds);
+  observe(transformEvents, {}, events);
+}
+
+export function recordCacheLookup(status: CacheStatus): void {
+  increment(cacheLookups, { result: status });
+}
+
+export function recordFeedChanges(type: string, count: number): void {
+  increment(feedChanges, { type }, count);
+}
+
+export function recordWebhookDelivery(delivered: boolean): void {
+  increment(webhookDeliveries, { result: delivered ? "delivered" : "failed" });
+}
+
+// Register a gauge computed when /metrics is scraped
+export function registerGauge(name: string, help: string, read: GaugeReader): void {
+  gauges.set(PREFIX + name, { help, read });
+}
+
+// Share of lookups answered from the cache without a full upstream download
+function cacheHitRatio(): number {
+  let hits = 0;
+  let total = 0;
+  for (const { labels, value } of cacheLookups.values.values()) {
+    total += value;
+    if (labels.result !== "MISS") hits += value;
+  }
+  return total === 0 ? 0 : hits / total;
+}
+
+registerGauge("cache_hit_ratio", "Share of feed cache lookups served without downloading the feed again", cacheHitRatio);
+registerGauge("process_uptime_seconds", "Seconds since the process started", () => process.uptime());
+
+// --- Rendering ---------------------------------------------------------------
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  return entries.length === 0 ? "" : `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (!Number.isFinite(value)) return value > 0 ? "+Inf" : "-Inf";
+  return String(value);
+}
+
+// All metrics in the Prometheus text format
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of [httpRequests, upstreamResponses, upstreamRetries, cacheLookups, feedChanges, webhookDeliveries]) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} counter`);
+    for (const { labels, value } of metric.values.values()) lines.push(`${metric.name}${formatLabels(labels)} ${formatNumber(value)}`);
+  }
+  for (const metric of [httpDuration, upstreamDuration, transformDuration, transformEvents]) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} histogram`);
+    for (const series of metric.series.values()) {
+      metric.buckets.forEach((bound, i) => {
+        lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: formatNumber(bound) })} ${series.counts[i]}`);
+      });
+      lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+      lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${formatNumber(series.sum)}`);
+      lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+  }
+  for (const [name, gauge] of gauges) {
+    lines.push(`# HELP ${name} ${gauge.help}`, `# TYPE ${name} gauge`, `${name} ${formatNumber(gauge.read())}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
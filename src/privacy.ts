@@ -0,0 +1,58 @@
+// privacy.ts
+// Projections of an event for sharing a calendar outside the organisation.
+// - full: everything as published
+// - titles: times and subject only
+// - freebusy: times only; SUMMARY becomes the busy status ("Busy", "Tentative", ...)
+// Events marked CLASS:PRIVATE or CLASS:CONFIDENTIAL are reduced to free/busy in every mode.
+// Projections keep an allowlist of properties, so unknown or vendor (X-) properties never leak.
+
+import { busyStatusOf, type BusyStatus } from "./filter.js";
+import { getProperty, setText, type IcsComponent } from "./ics.js";
+
+export type PrivacyMode = "full" | "titles" | "freebusy";
+
+export const PRIVACY_MODES: PrivacyMode[] = ["full", "titles", "freebusy"];
+
+// What a calendar client needs to place the event: identity, time, recurrence, status
+const SCHEDULING_PROPERTIES = new Set([
+  "UID",
+  "DTSTAMP",
+  "DTSTART",
+  "DTEND",
+  "DURATION",
+  "RECURRENCE-ID",
+  "RRULE",
+  "RDATE",
+  "EXDATE",
+  "SEQUENCE",
+  "STATUS",
+  "TRANSP",
+  "CLASS",
+  "CREATED",
+  "LAST-MODIFIED",
+  "X-MICROSOFT-CDO-BUSYSTATUS",
+]);
+
+const BUSY_LABELS: Record<BusyStatus, string> = {
+  FREE: "Free",
+  TENTATIVE: "Tentative",
+  BUSY: "Busy",
+  OOF: "Out of office",
+  WORKINGELSEWHERE: "Working elsewhere",
+};
+
+function isRestricted(event: IcsComponent): boolean {
+  const cls = getProperty(event, "CLASS")?.value.trim().toUpperCase();
+  return cls === "PRIVATE" || cls === "CONFIDENTIAL";
+}
+
+// Reduce an event (VEVENT, VTODO, VJOURNAL) to what the mode allows, in place
+export function applyPrivacy(event: IcsComponent, mode: PrivacyMode): void {
+  const effective = isRestricted(event) ? "freebusy" : mode;
+  if (effective === "full") return;
+
+  const status = busyStatusOf(event); // before the properties it is derived from can go
+  event.properties = event.properties.filter((p) => SCHEDULING_PROPERTIES.has(p.name) || (effective === "titles" && p.name === "SUMMARY"));
+  event.components = []; // alarms carry their own DESCRIPTION / SUMMARY / ATTENDEE
+  if (effective === "freebusy") setText(event, "SUMMARY", BUSY_LABELS[status]);
+}
@@ -0,0 +1,355 @@
+// recurrence.ts
+// Occurrences of events: DTSTART/DTEND/DURATION, RRULE, RDATE and EXDATE (RFC 5545 section 3.8.5).
+// - Supported RRULE parts: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (with ordinals),
+//   BYMONTHDAY, BYMONTH, BYSETPOS, WKST. That covers everything Outlook and Google publish.
+// - Rules with other parts (BYWEEKNO, BYYEARDAY, BYHOUR, ...) are reported as unsupported so callers can
+//   fall back to keeping the event as it is
+// - Times are computed on the wall clock of the event's zone, so series keep their local time across DST
+// - Dropping events keeps series consistent: removed overrides become EXDATEs, removed masters take their overrides along
+
+import { DateTime, Duration, IANAZone } from "luxon";
+import { getParam, getProperties, getProperty, type IcsComponent, type IcsProperty } from "./ics.js";
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface WeekdayRule {
+  weekday: number; // 1 = Monday ... 7 = Sunday (Luxon numbering)
+  nth?: number; // 1, 2, -1 ... within the month (MONTHLY) or year (YEARLY)
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: DateTime;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  wkst: number;
+}
+
+export interface Occurrence {
+  start: DateTime;
+  end: DateTime;
+  allDay: boolean;
+}
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const SUPPORTED_PARTS = new Set(["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "BYMONTHDAY", "BYMONTH", "BYSETPOS", "WKST"]);
+// Stop after this many periods without an occurrence (a rule that can never match, e.g. BYMONTHDAY=31 in February)
+const MAX_EMPTY_PERIODS = 1000;
+
+// --- Values ------------------------------------------------------------------
+
+// Zone to read a value in: its TZID when the runtime knows it, else the fallback (UTC values always UTC)
+export function zoneFor(prop: IcsProperty, fallbackZone: string): string {
+  const tzid = getParam(prop, "TZID");
+  return typeof tzid === "string" && IANAZone.isValidZone(tzid) ? tzid : fallbackZone;
+}
+
+// Parse one DATE or DATE-TIME value. DATE values are midnight in the given zone.
+export function parseDateValue(value: string, zone: string): DateTime | undefined {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (m === null) return undefined;
+  const dt = DateTime.fromObject(
+    {
+      year: Number(m[1]),
+      month: Number(m[2]),
+      day: Number(m[3]),
+      hour: Number(m[4] ?? 0),
+      minute: Number(m[5] ?? 0),
+      second: Number(m[6] ?? 0),
+    },
+    { zone: m[7] === "Z" ? "utc" : zone },
+  );
+  return dt.isValid ? dt : undefined;
+}
+
+// All values of a (possibly comma-separated) DATE / DATE-TIME property; PERIOD values use their start
+export function propertyDates(prop: IcsProperty, fallbackZone: string): DateTime[] {
+  const zone = zoneFor(prop, fallbackZone);
+  return prop.value
+    .split(",")
+    .map((v) => parseDateValue(v.split("/")[0]!.trim(), zone))
+    .filter((d): d is DateTime => d !== undefined);
+}
+
+export function isDateOnly(prop: IcsProperty): boolean {
+  return getParam(prop, "VALUE")?.toUpperCase() === "DATE" || /^\d{8}$/.test(prop.value);
+}
+
+// Format an instant the way an existing property writes its values: DATE, UTC (..Z) or local time in its TZID
+export function formatDateValue(dt: DateTime, prop: IcsProperty, fallbackZone: string): string {
+  if (isDateOnly(prop)) return dt.toFormat("yyyyLLdd");
+  if (prop.value.endsWith("Z")) return dt.toUTC().toFormat("yyyyLLdd'T'HHmmss'Z'");
+  return dt.setZone(zoneFor(prop, fallbackZone)).toFormat("yyyyLLdd'T'HHmmss");
+}
+
+// --- RRULE -------------------------------------------------------------------
+
+// Parse an RRULE value. Returns undefined when the rule uses parts this module can't evaluate.
+export function parseRRule(value: string, zone: string): RecurrenceRule | undefined {
+  const parts = new Map<string, string>();
+  for (const part of value.split(";")) {
+    const [key, val] = part.split("=");
+    if (key === undefined || val === undefined) continue;
+    parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+  }
+  for (const key of parts.keys()) if (!SUPPORTED_PARTS.has(key)) return undefined;
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") return undefined;
+
+  const numbers = (key: string): number[] =>
+    (parts.get(key) ?? "").split(",").filter((s) => s.length > 0).map(Number).filter((n) => Number.isInteger(n) && n !== 0);
+
+  const byDay: WeekdayRule[] = [];
+  for (const item of (parts.get("BYDAY") ?? "").split(",").filter((s) => s.length > 0)) {
+    const m = item.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+    if (m === null) return undefined;
+    const weekday = WEEKDAYS.indexOf(m[2]!) + 1;
+    byDay.push(m[1] !== undefined ? { weekday, nth: Number(m[1]) } : { weekday });
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: Math.max(1, Number(parts.get("INTERVAL") ?? 1) || 1),
+    byDay,
+    byMonthDay: numbers("BYMONTHDAY"),
+    byMonth: numbers("BYMONTH"),
+    bySetPos: numbers("BYSETPOS"),
+    wkst: Math.max(1, WEEKDAYS.indexOf(parts.get("WKST") ?? "MO") + 1),
+  };
+  const count = Number(parts.get("COUNT"));
+  if (parts.has("COUNT") && Number.isInteger(count) && count > 0) rule.count = count;
+  const until = parts.get("UNTIL");
+  if (until !== undefined) {
+    const parsed = parseDateValue(until, zone);
+    if (parsed === undefined) return undefined;
+    // A DATE-only UNTIL includes that whole day
+    rule.until = /^\d{8}$/.test(until) ? parsed.endOf("day") : parsed;
+  }
+  return rule;
+}
+
+// Days of a month matching BYMONTHDAY / BYDAY (nth counted within the month); dtstart's day if neither is given
+function monthDays(rule: RecurrenceRule, year: number, month: number, dtstart: DateTime): DateTime[] {
+  const first = DateTime.utc(year, month, 1);
+  const length = first.daysInMonth!;
+  let days: number[] = [];
+  for (let d = 1; d <= length; d++) days.push(d);
+
+  if (rule.byMonthDay.length > 0) {
+    const wanted = new Set(rule.byMonthDay.map((n) => (n > 0 ? n : length + n + 1)));
+    days = days.filter((d) => wanted.has(d));
+  }
+  if (rule.byDay.length > 0) {
+    days = days.filter((d) => {
+      const weekday = first.set({ day: d }).weekday;
+      return rule.byDay.some((b) => {
+        if (b.weekday !== weekday) return false;
+        if (b.nth === undefined) return true;
+        return b.nth > 0 ? Math.ceil(d / 7) === b.nth : Math.ceil((length - d + 1) / 7) === -b.nth;
+      });
+    });
+  }
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) days = days.filter((d) => d === dtstart.day);
+  return days.map((d) => first.set({ day: d }));
+}
+
+// Candidate dates (time of day not yet applied) in the period that starts at `period`
+function periodDates(rule: RecurrenceRule, period: DateTime, dtstart: DateTime): DateTime[] {
+  const monthAllowed = (d: DateTime): boolean => rule.byMonth.length === 0 || rule.byMonth.includes(d.month);
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const ok =
+        monthAllowed(period) &&
+        (rule.byMonthDay.length === 0 || monthDays({ ...rule, byDay: [] }, period.year, period.month, dtstart).some((d) => d.day === period.day)) &&
+        (rule.byDay.length === 0 || rule.byDay.some((b) => b.weekday === period.weekday));
+      return ok ? [period] : [];
+    }
+    case "WEEKLY": {
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((b) => b.weekday) : [dtstart.weekday];
+      const dates: DateTime[] = [];
+      for (let i = 0; i < 7; i++) {
+        const d = period.plus({ days: i });
+        if (weekdays.includes(d.weekday) && monthAllowed(d)) dates.push(d);
+      }
+      return dates;
+    }
+    case "MONTHLY":
+      return monthAllowed(period) ? monthDays(rule, period.year, period.month, dtstart) : [];
+    case "YEARLY": {
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [dtstart.month];
+      // BYDAY without BYMONTH counts ordinals within the whole year
+      if (rule.byMonth.length === 0 && rule.byDay.length > 0 && rule.byMonthDay.length === 0) {
+        const dates: DateTime[] = [];
+        const length = period.daysInYear;
+        for (let i = 0; i < length; i++) {
+          const d = period.plus({ days: i });
+          const matches = rule.byDay.some((b) => {
+            if (b.weekday !== d.weekday) return false;
+            if (b.nth === undefined) return true;
+            return b.nth > 0 ? Math.ceil(d.ordinal / 7) === b.nth : Math.ceil((length - d.ordinal + 1) / 7) === -b.nth;
+          });
+          if (matches) dates.push(d);
+        }
+        return dates;
+      }
+      // BYMONTHDAY without BYMONTH applies to every month
+      const scope = rule.byMonth.length === 0 && rule.byMonthDay.length > 0 ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] : months;
+      return scope.flatMap((m) => monthDays(rule, period.year, m, dtstart));
+    }
+  }
+}
+
+// Start of the period containing dtstart, then stepping by INTERVAL periods
+function periodStart(rule: RecurrenceRule, dtstart: DateTime, index: number): DateTime {
+  const day = DateTime.utc(dtstart.year, dtstart.month, dtstart.day);
+  switch (rule.freq) {
+    case "DAILY":
+      return day.plus({ days: index * rule.interval });
+    case "WEEKLY": {
+      const offset = (day.weekday - rule.wkst + 7) % 7;
+      return day.minus({ days: offset }).plus({ weeks: index * rule.interval });
+    }
+    case "MONTHLY":
+      return day.startOf("month").plus({ months: index * rule.interval });
+    case "YEARLY":
+      return day.startOf("year").plus({ years: index * rule.interval });
+  }
+}
+
+// Occurrence starts generated by an RRULE, in order. DTSTART is always the first instance and counts
+// towards COUNT, as in RFC 5545.
+export function* expandRRule(dtstart: DateTime, rule: RecurrenceRule): Generator<DateTime> {
+  yield dtstart;
+  let emitted = 1;
+  let empty = 0;
+  for (let index = 0; ; index++) {
+    let dates = periodDates(rule, periodStart(rule, dtstart, index), dtstart).sort((a, b) => a.toMillis() - b.toMillis());
+    if (rule.bySetPos.length > 0) {
+      const all = dates;
+      dates = rule.bySetPos
+        .map((pos) => all[pos > 0 ? pos - 1 : all.length + pos])
+        .filter((d): d is DateTime => d !== undefined)
+        .sort((a, b) => a.toMillis() - b.toMillis());
+    }
+
+    let produced = false;
+    for (const date of dates) {
+      const start = DateTime.fromObject(
+        { year: date.year, month: date.month, day: date.day, hour: dtstart.hour, minute: dtstart.minute, second: dtstart.second },
+        { zone: dtstart.zone },
+      );
+      if (start <= dtstart) continue;
+      if (rule.until !== undefined && start > rule.until) return;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+      yield start;
+      emitted++;
+      produced = true;
+    }
+    empty = produced ? 0 : empty + 1;
+    if (empty > MAX_EMPTY_PERIODS) return;
+  }
+}
+
+// --- Events ------------------------------------------------------------------
+
+// Length of an event: DTEND - DTSTART, DURATION, or one day / zero for events without either.
+// All-day lengths are in calendar days, so instances never drift across DST changes.
+export function eventDuration(event: IcsComponent, start: DateTime, zone: string): Duration {
+  const dtstart = getProperty(event, "DTSTART");
+  const allDay = dtstart !== undefined && isDateOnly(dtstart);
+  const dtend = getProperty(event, "DTEND");
+  const end = dtend !== undefined ? propertyDates(dtend, zone)[0] : undefined;
+  if (end !== undefined) return allDay ? end.diff(start, "days") : end.diff(start);
+  const duration = getProperty(event, "DURATION");
+  if (duration !== undefined) {
+    const parsed = Duration.fromISO(duration.value.replace(/^\+/, ""));
+    if (parsed.isValid) return parsed;
+  }
+  return Duration.fromObject(allDay ? { days: 1 } : {});
+}
+
+export function isRecurring(event: IcsComponent): boolean {
+  return getProperty(event, "RRULE") !== undefined || getProperty(event, "RDATE") !== undefined;
+}
+
+// Iterate an event's occurrences in start order: DTSTART, RRULE instances and RDATEs, minus EXDATEs.
+// Returns undefined when the event has no usable DTSTART or an RRULE this module can't evaluate.
+export function eventOccurrences(event: IcsComponent, fallbackZone: string): Iterable<Occurrence> | undefined {
+  const dtstartProp = getProperty(event, "DTSTART");
+  if (dtstartProp === undefined) return undefined;
+  const zone = zoneFor(dtstartProp, fallbackZone);
+  const dtstart = propertyDates(dtstartProp, zone)[0];
+  if (dtstart === undefined) return undefined;
+  const allDay = isDateOnly(dtstartProp);
+  const duration = eventDuration(event, dtstart, zone);
+
+  const rules: RecurrenceRule[] = [];
+  for (const prop of getProperties(event, "RRULE")) {
+    const rule = parseRRule(prop.value, zone);
+    if (rule === undefined) return undefined;
+    rules.push(rule);
+  }
+  const rdates = getProperties(event, "RDATE").flatMap((p) => propertyDates(p, zone));
+  const exdates = new Set(getProperties(event, "EXDATE").flatMap((p) => propertyDates(p, zone)).map((d) => d.toMillis()));
+
+  return {
+    *[Symbol.iterator](): Generator<Occurrence> {
+      // Merge the sorted streams of every rule, the RDATEs and DTSTART itself
+      const streams: Iterator<DateTime>[] = rules.length > 0 ? rules.map((r) => expandRRule(dtstart, r)) : [[dtstart][Symbol.iterator]()];
+      streams.push(rdates.sort((a, b) => a.toMillis() - b.toMillis())[Symbol.iterator]());
+      const heads = streams.map((s) => s.next());
+      let last: number | undefined;
+      for (;;) {
+        let best = -1;
+        for (let i = 0; i < heads.length; i++) {
+          const head = heads[i]!;
+          if (head.done === true) continue;
+          if (best === -1 || head.value.toMillis() < (heads[best]!.value as DateTime).toMillis()) best = i;
+        }
+        if (best === -1) return;
+        const start = heads[best]!.value as DateTime;
+        heads[best] = streams[best]!.next();
+        const ms = start.toMillis();
+        if (ms === last || exdates.has(ms)) continue;
+        last = ms;
+        yield { start, end: start.plus(duration), allDay };
+      }
+    },
+  };
+}
+
+// Remove VEVENTs from the calendar (in place). A dropped occurrence override becomes an EXDATE on its
+// series, so the occurrence doesn't fall back to the master's version; a dropped series takes its overrides along.
+export function dropEvents(calendar: IcsComponent, dropped: Set<IcsComponent>): void {
+  const events = calendar.components.filter((c) => c.name === "VEVENT");
+  const masters = new Map<string, IcsComponent>();
+  for (const event of events) {
+    const uid = getProperty(event, "UID")?.value;
+    if (uid !== undefined && getProperty(event, "RECURRENCE-ID") === undefined) masters.set(uid, event);
+  }
+
+  const droppedSeries = new Set<string>();
+  for (const event of dropped) {
+    const uid = getProperty(event, "UID")?.value ?? "";
+    const recurrenceId = getProperty(event, "RECURRENCE-ID");
+    if (recurrenceId === undefined) {
+      droppedSeries.add(uid);
+      continue;
+    }
+    const master = masters.get(uid);
+    if (master !== undefined && !dropped.has(master)) {
+      master.properties.push({ name: "EXDATE", params: recurrenceId.params.filter((p) => p.name === "TZID" || p.name === "VALUE"), value: recurrenceId.value });
+    }
+  }
+
+  calendar.components = calendar.components.filter((c) => {
+    if (dropped.has(c)) return false;
+    return c.name !== "VEVENT" || !droppedSeries.has(getProperty(c, "UID")?.value ?? "");
+  });
+}
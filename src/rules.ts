@@ -0,0 +1,309 @@
+// rules.ts
+// Per-feed rules that rewrite events: each rule matches events on their properties and applies actions.
+// - Conditions (all must hold): property regexes (SUMMARY, LOCATION, X-..., by upper-case property name),
+//   organizer addresses, categories, all-day or timed, duration bounds
+// - Actions: set, prefix / append and remove properties, add default reminders (VALARM) to events that
+//   have none, or drop the event (overrides become EXDATEs, a dropped series takes its overrides along)
+// - Rules run in order and see the changes of earlier rules; a dropped event is not looked at again
+// Rules are plain data (regexes as strings, values already encoded) so they can be part of the cache key.
+
+import { categoriesOf } from "./filter.js";
+import { decodeText, decodeTextList, encodeText, getProperties, getProperty, removeProperties, setProperty, type IcsComponent } from "./ics.js";
+import { dropEvents, eventDuration, isDateOnly, propertyDates, zoneFor } from "./recurrence.js";
+
+export interface RuleMatch {
+  properties?: Record<string, string>; // property name -> regex on its (decoded) value
+  organizers?: string[]; // lower case, without mailto:
+  categories?: string[]; // lower case; any of them
+  allDay?: boolean;
+  minMinutes?: number; // duration bounds, inclusive
+  maxMinutes?: number;
+}
+
+export interface RuleAlarm {
+  triggerMinutes: number; // relative to the start: negative before it
+  description?: string;
+}
+
+export interface EventRule {
+  name?: string;
+  match: RuleMatch;
+  set?: Record<string, string>; // property name -> value as written (TEXT values encoded)
+  prefix?: Record<string, string>; // property name -> encoded text put in front of the value
+  append?: Record<string, string>; // property name -> encoded text added to the value, or list item added
+  remove?: string[];
+  alarms?: RuleAlarm[];
+  drop?: boolean;
+}
+
+export class RuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleError";
+  }
+}
+
+const MAX_PATTERN_LENGTH = 200;
+const PROPERTY_NAME = /^[A-Z][A-Z0-9-]*$/;
+// Properties holding TEXT: matched decoded, and written encoded
+const TEXT_PROPERTIES = new Set(["SUMMARY", "DESCRIPTION", "LOCATION", "COMMENT", "CONTACT", "CATEGORIES", "RESOURCES"]);
+// TEXT lists: `append` adds an item
+const LIST_PROPERTIES = new Set(["CATEGORIES", "RESOURCES"]);
+// Identity and timing of the event stay as published; rules can't break series or time conversion
+const PROTECTED_PROPERTIES = new Set(["UID", "DTSTAMP", "DTSTART", "DTEND", "DURATION", "RRULE", "RDATE", "EXDATE", "EXRULE", "RECURRENCE-ID"]);
+const MATCH_KEYS = ["organizer", "categories", "allDay", "minDuration", "maxDuration"];
+const RULE_KEYS = ["name", "match", "set", "prefix", "append", "remove", "alarms", "drop"];
+const DURATION_UNITS: Record<string, number> = { m: 1, h: 60, d: 1440 };
+
+// --- Options -----------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringList(value: unknown, what: string): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every((v) => typeof v === "string" && v.trim().length > 0)) throw new RuleError(`"${what}" must be a string or a list of strings`);
+  return (list as string[]).map((v) => v.trim());
+}
+
+// "15m", "2h", "1d" or a plain number of minutes
+function parseMinutes(value: unknown, what: string): number {
+  const text = typeof value === "number" ? String(value) : typeof value === "string" ? value.trim().toLowerCase() : "";
+  const match = /^(\d+)\s*([mhd]?)$/.exec(text);
+  if (match === null) throw new RuleError(`invalid "${what}" (use e.g. 15m, 2h or 1d)`);
+  return Number(match[1]) * (DURATION_UNITS[match[2] || "m"] ?? 1);
+}
+
+function propertyName(name: string, what: string): string {
+  if (!PROPERTY_NAME.test(name)) throw new RuleError(`"${what}": invalid property name "${name}"`);
+  if (PROTECTED_PROPERTIES.has(name)) throw new RuleError(`"${what}": ${name} can't be changed by rules`);
+  return name;
+}
+
+function pattern(name: string, value: unknown): string {
+  if (typeof value !== "string") throw new RuleError(`"match.${name}" must be a regular expression`);
+  if (value.length > MAX_PATTERN_LENGTH) throw new RuleError(`"match.${name}": pattern longer than ${MAX_PATTERN_LENGTH} characters`);
+  try {
+    new RegExp(value, "iu");
+  } catch {
+    throw new RuleError(`"match.${name}": invalid regular expression "${value}"`);
+  }
+  return value;
+}
+
+function parseMatch(value: unknown): RuleMatch {
+  if (value === undefined || value === null) return {};
+  if (!isRecord(value)) throw new RuleError(`"match" must be an object`);
+  const match: RuleMatch = {};
+  const properties: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (PROPERTY_NAME.test(key)) properties[key] = pattern(key, v);
+    else if (!MATCH_KEYS.includes(key)) throw new RuleError(`unknown condition "match.${key}" (use ${MATCH_KEYS.join(", ")} or an upper-case property name)`);
+  }
+  if (Object.keys(properties).length > 0) match.properties = properties;
+  if (value.organizer !== undefined) match.organizers = stringList(value.organizer, "match.organizer").map((o) => o.replace(/^mailto:/i, "").toLowerCase());
+  if (value.categories !== undefined) match.categories = stringList(value.categories, "match.categories").map((c) => c.toLowerCase());
+  if (value.allDay !== undefined) {
+    if (typeof value.allDay !== "boolean") throw new RuleError(`"match.allDay" must be true or false`);
+    match.allDay = value.allDay;
+  }
+  if (value.minDuration !== undefined) match.minMinutes = parseMinutes(value.minDuration, "match.minDuration");
+  if (value.maxDuration !== undefined) match.maxMinutes = parseMinutes(value.maxDuration, "match.maxDuration");
+  return match;
+}
+
+// Values for `set`: text is encoded for TEXT properties; lists are allowed for CATEGORIES / RESOURCES
+function propertyValue(name: string, value: unknown, what: string): string {
+  const items = Array.isArray(value) && LIST_PROPERTIES.has(name) ? value : [value];
+  if (!items.every((v) => typeof v === "string" || typeof v === "number")) throw new RuleError(`"${what}.${name}" must be a string`);
+  const texts = items.map(String);
+  if (!TEXT_PROPERTIES.has(name) && texts.some((t) => /[\x00-\x1f]/.test(t))) throw new RuleError(`"${what}.${name}" must not contain control characters`);
+  return texts.map((t) => (TEXT_PROPERTIES.has(name) ? encodeText(t) : t)).join(",");
+}
+
+function propertyMap(value: unknown, what: string, textOnly: boolean): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) throw new RuleError(`"${what}" must map property names to values`);
+  const map: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value)) {
+    const name = propertyName(key, what);
+    if (textOnly && !TEXT_PROPERTIES.has(name)) throw new RuleError(`"${what}" only works on text properties (${[...TEXT_PROPERTIES].join(", ")})`);
+    if (what === "prefix" && LIST_PROPERTIES.has(name)) throw new RuleError(`"prefix" doesn't work on ${name}; use "append" to add an item`);
+    map[name] = propertyValue(name, v, what);
+  }
+  return map;
+}
+
+// `before: 10m`, or `at: "09:00"` with `daysBefore` for all-day events (the trigger counts from midnight of the start day)
+function parseAlarm(value: unknown, allDayOnly: boolean): RuleAlarm {
+  if (!isRecord(value)) throw new RuleError(`each alarm must be an object with "before" or "at"`);
+  const description = value.description;
+  if (description !== undefined && typeof description !== "string") throw new RuleError(`alarm "description" must be a string`);
+  let triggerMinutes: number;
+  if (value.before !== undefined && value.at === undefined) {
+    triggerMinutes = -parseMinutes(value.before, "alarms.before");
+  } else if (value.at !== undefined && value.before === undefined) {
+    if (!allDayOnly) throw new RuleError(`alarms with "at" need "match.allDay: true"`);
+    const time = typeof value.at === "string" ? /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.at.trim()) : null;
+    if (time === null) throw new RuleError(`alarm "at" must be a time like "09:00"`);
+    const daysBefore = value.daysBefore ?? 0;
+    if (typeof daysBefore !== "number" || !Number.isInteger(daysBefore) || daysBefore < 0) throw new RuleError(`alarm "daysBefore" must be a whole number of days`);
+    triggerMinutes = -daysBefore * 1440 + Number(time[1]) * 60 + Number(time[2]);
+  } else {
+    throw new RuleError(`each alarm needs either "before" or "at"`);
+  }
+  return { triggerMinutes, ...(description !== undefined ? { description: encodeText(description) } : {}) };
+}
+
+function parseRule(value: unknown): EventRule {
+  if (!isRecord(value)) throw new RuleError("must be an object");
+  for (const key of Object.keys(value)) {
+    if (!RULE_KEYS.includes(key)) throw new RuleError(`unknown key "${key}" (use ${RULE_KEYS.join(", ")})`);
+  }
+  if (value.name !== undefined && typeof value.name !== "string") throw new RuleError(`"name" must be a string`);
+  if (value.drop !== undefined && typeof value.drop !== "boolean") throw new RuleError(`"drop" must be true or false`);
+
+  const match = parseMatch(value.match);
+  const set = propertyMap(value.set, "set", false);
+  const prefix = propertyMap(value.prefix, "prefix", true);
+  const append = propertyMap(value.append, "append", true);
+  const remove = value.remove !== undefined ? stringList(value.remove, "remove").map((n) => propertyName(n.toUpperCase(), "remove")) : undefined;
+  if (value.alarms !== undefined && !Array.isArray(value.alarms)) throw new RuleError(`"alarms" must be a list`);
+  const alarms = (value.alarms as unknown[] | undefined)?.map((a) => parseAlarm(a, match.allDay === true));
+
+  const actions = [set, prefix, append, remove, alarms].filter((a) => a !== undefined);
+  if (value.drop === true && actions.length > 0) throw new RuleError(`"drop" can't be combined with other actions`);
+  if (value.drop !== true && actions.length === 0) throw new RuleError("needs at least one action (set, prefix, append, remove, alarms or drop)");
+
+  return {
+    ...(value.name !== undefined ? { name: value.name } : {}),
+    match,
+    ...(set !== undefined ? { set } : {}),
+    ...(prefix !== undefined ? { prefix } : {}),
+    ...(append !== undefined ? { append } : {}),
+    ...(remove !== undefined ? { remove } : {}),
+    ...(alarms !== undefined ? { alarms } : {}),
+    ...(value.drop === true ? { drop: true } : {}),
+  };
+}
+
+// Validate a `rules:` list from a config file. Throws RuleError naming the rule.
+// Returns undefined for an empty list, so feeds without rules share their cache entries.
+export function parseRules(value: unknown): EventRule[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new RuleError(`"rules" must be a list`);
+  const rules = value.map((rule, i) => {
+    try {
+      return parseRule(rule);
+    } catch (err: unknown) {
+      if (!(err instanceof RuleError)) throw err;
+      const name = isRecord(rule) && typeof rule.name === "string" ? ` "${rule.name}"` : "";
+      throw new RuleError(`rule ${i + 1}${name}: ${err.message}`);
+    }
+  });
+  return rules.length > 0 ? rules : undefined;
+}
+
+// --- Events ------------------------------------------------------------------
+
+function durationMinutes(event: IcsComponent, zone: string): number | undefined {
+  const dtstart = getProperty(event, "DTSTART");
+  if (dtstart === undefined) return undefined;
+  const eventZone = zoneFor(dtstart, zone);
+  const start = propertyDates(dtstart, eventZone)[0];
+  return start !== undefined ? eventDuration(event, start, eventZone).as("minutes") : undefined;
+}
+
+// Predicate for the rule's conditions. `zone` is used for floating and unknown-zone times.
+function matcher(match: RuleMatch, zone: string): (event: IcsComponent) => boolean {
+  const properties = Object.entries(match.properties ?? {}).map(([name, p]) => ({ name, regex: new RegExp(p, "iu") }));
+  return (event) => {
+    for (const { name, regex } of properties) {
+      const values = getProperties(event, name).map((p) => (TEXT_PROPERTIES.has(name) ? decodeText(p.value) : p.value));
+      if (!values.some((v) => regex.test(v))) return false;
+    }
+    if (match.organizers !== undefined) {
+      const organizer = getProperty(event, "ORGANIZER")?.value.trim().replace(/^mailto:/i, "").toLowerCase();
+      if (organizer === undefined || !match.organizers.includes(organizer)) return false;
+    }
+    if (match.categories !== undefined) {
+      const own = categoriesOf(event);
+      if (!own.some((c) => match.categories!.includes(c))) return false;
+    }
+    if (match.allDay !== undefined) {
+      const dtstart = getProperty(event, "DTSTART");
+      if (dtstart === undefined || isDateOnly(dtstart) !== match.allDay) return false;
+    }
+    if (match.minMinutes !== undefined || match.maxMinutes !== undefined) {
+      const minutes = durationMinutes(event, zone);
+      if (minutes === undefined) return false;
+      if (match.minMinutes !== undefined && minutes < match.minMinutes) return false;
+      if (match.maxMinutes !== undefined && minutes > match.maxMinutes) return false;
+    }
+    return true;
+  };
+}
+
+// RFC 5545 DURATION for a trigger offset in minutes, e.g. -PT10M, -PT15H, P1DT2H
+function formatTrigger(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "";
+  const abs = Math.abs(minutes);
+  const days = Math.floor(abs / 1440);
+  const hours = Math.floor((abs % 1440) / 60);
+  const mins = abs % 60;
+  const time = `${hours > 0 ? `${hours}H` : ""}${mins > 0 ? `${mins}M` : ""}`;
+  if (days === 0 && time.length === 0) return "PT0S";
+  return `${sign}P${days > 0 ? `${days}D` : ""}${time.length > 0 ? `T${time}` : ""}`;
+}
+
+function alarmComponent(event: IcsComponent, alarm: RuleAlarm): IcsComponent {
+  const summary = getProperty(event, "SUMMARY")?.value;
+  return {
+    name: "VALARM",
+    properties: [
+      { name: "ACTION", params: [], value: "DISPLAY" },
+      { name: "TRIGGER", params: [], value: formatTrigger(alarm.triggerMinutes) },
+      { name: "DESCRIPTION", params: [], value: alarm.description ?? (summary !== undefined && summary.length > 0 ? summary : "Reminder") },
+    ],
+    components: [],
+  };
+}
+
+function applyActions(event: IcsComponent, rule: EventRule): void {
+  for (const name of rule.remove ?? []) removeProperties(event, name);
+  for (const [name, value] of Object.entries(rule.set ?? {})) setProperty(event, { name, params: [], value });
+  for (const [name, text] of Object.entries(rule.prefix ?? {})) {
+    const prop = getProperty(event, name);
+    if (prop !== undefined) prop.value = text + prop.value;
+    else event.properties.push({ name, params: [], value: text });
+  }
+  for (const [name, text] of Object.entries(rule.append ?? {})) {
+    const prop = getProperty(event, name);
+    if (prop === undefined) event.properties.push({ name, params: [], value: text });
+    else if (!LIST_PROPERTIES.has(name)) prop.value += text;
+    else if (!decodeTextList(prop.value).includes(decodeText(text))) prop.value = prop.value.length > 0 ? `${prop.value},${text}` : text;
+  }
+  // Default reminders only: an event that has its own alarms keeps them as they are
+  if (rule.alarms !== undefined && !event.components.some((c) => c.name === "VALARM")) {
+    event.components.push(...rule.alarms.map((alarm) => alarmComponent(event, alarm)));
+  }
+}
+
+// Apply the rules to the calendar's VEVENTs (in place). `zone` is used for floating and unknown-zone times.
+export function applyRules(calendar: IcsComponent, rules: EventRule[], zone: string): void {
+  const compiled = rules.map((rule) => ({ rule, matches: matcher(rule.match, zone) }));
+  const dropped = new Set<IcsComponent>();
+  for (const event of calendar.components) {
+    if (event.name !== "VEVENT") continue;
+    for (const { rule, matches } of compiled) {
+      if (!matches(event)) continue;
+      if (rule.drop === true) {
+        dropped.add(event);
+        break;
+      }
+      applyActions(event, rule);
+    }
+  }
+  if (dropped.size > 0) dropEvents(calendar, dropped);
+}
@@ -0,0 +1,337 @@
+// transform.ts
+// ICS transformation pipeline, working on the parsed component tree (see ics.ts).
+// - Turns Outlook's pseudo all-day events (midnight-to-midnight DATE-TIMEs) into VALUE=DATE events (see allDay.ts)
+// - Rewrites DTSTART/DTEND/RECURRENCE-ID/EXDATE/RDATE according to the timezone mode
+// - Drops or marks cancelled, declined and unanswered meetings (see meetings.ts)
+// - Drops events that don't pass the optional filter (see filter.ts)
+// - Optionally flattens recurring series into standalone instances (see expand.ts)
+// - Emits one VTIMEZONE per zone referenced by the events, generated from the tz database
+// - Optionally cleans up Outlook / Teams descriptions and extracts join links (see cleanup.ts)
+// - Applies the feed's rules: property rewrites, default reminders, dropped events (see rules.ts)
+// - Applies the privacy projection (see privacy.ts)
+// - Applies the client profile: PRODID, calendar-level properties, VEVENT cleanups (see clientProfile.ts)
+
+import { DateTime, IANAZone } from "luxon";
+import { normalizeAllDayEvents } from "./allDay.js";
+import { cleanupEvent, type CleanupOptions } from "./cleanup.js";
+import { applyCalendarProperties, clientProfile, type ClientName, type ClientProfile } from "./clientProfile.js";
+import { parseVTimezone, type VTimezoneZone } from "./customZone.js";
+import { expandCalendar, type ExpandOptions } from "./expand.js";
+import { filterEvents, type EventFilter } from "./filter.js";
+import { handleMeetings, type MeetingOptions } from "./meetings.js";
+import { applyPrivacy, type PrivacyMode } from "./privacy.js";
+import { applyRules, type EventRule } from "./rules.js";
+import {
+  getParam,
+  getProperty,
+  parseCalendar,
+  removeParam,
+  serializeIcs,
+  type IcsComponent,
+  type IcsProperty,
+} from "./ics.js";
+import { clampYearRange, defaultYearRange, vtimezoneComponent, type YearRange } from "./vtimezone.js";
+import { mapWindowsToIana } from "./windowsZones.js";
+
+// Transform DTSTART/DTEND lines
+// Rules (tzmode=convert, the default):
+// - If ends with Z -> interpret as UTC, convert to target tz, output with TZID=tz and without the trailing Z
+//   (client profiles that handle UTC keep it as published)
+// - If has VALUE=DATE -> leave unchanged (all-day)
+// - If has TZID already -> if override=true, convert from that TZ to target TZ, else leave as-is
+//   (Windows names via the CLDR table, custom zones via the feed's own VTIMEZONE; unknown zones are left as-is)
+// - If floating (no Z, no TZID) -> attach TZID=tz without shifting
+// Rules (tzmode=preserve):
+// - UTC and floating times are handled as above, using the target tz as the default zone
+// - Existing TZIDs keep their wall-clock time; Windows names are normalised to IANA
+// - Custom zones (no IANA equivalent) are converted to the target tz using the feed's own VTIMEZONE
+// - TZIDs that can't be resolved at all are left untouched (their source VTIMEZONE is kept)
+
+export type TzMode = "convert" | "preserve";
+
+export interface TransformOptions {
+  targetTz: string;
+  overrideExistingTz: boolean;
+  tzMode: TzMode;
+  windowsTerritory?: string; // CLDR territory used to pick Windows zone variants
+  filter?: EventFilter;
+  meetings?: MeetingOptions; // cancelled / declined / unanswered meeting handling
+  privacy?: PrivacyMode; // default "full"; private and confidential events are always redacted
+  expand?: ExpandOptions; // flatten recurring series within this window
+  cleanup?: CleanupOptions; // HTML / invitation boilerplate clean-up and join links
+  rules?: EventRule[]; // per-feed event rewriting, in order
+  client?: ClientName; // default "google"
+  calendarName?: string; // X-WR-CALNAME / NAME, for profiles that publish it
+  refreshMinutes?: number; // REFRESH-INTERVAL / X-PUBLISHED-TTL, for profiles that publish them
+}
+
+// Poll interval suggested to clients when the options don't set one
+const DEFAULT_REFRESH_MINUTES = 60;
+
+// Properties carrying DATE-TIME values that follow the event's timezone
+const DATE_TIME_PROPERTIES = new Set(["DTSTART", "DTEND", "RECURRENCE-ID", "EXDATE", "RDATE"]);
+
+// Standard field order for VEVENT (RFC 5545 recommended order)
+const VEVENT_FIELD_ORDER = [
+  "UID",
+  "DTSTAMP",
+  "DTSTART",
+  "DTEND",
+  "DURATION",
+  "RRULE",
+  "RDATE",
+  "EXDATE",
+  "EXRULE",
+  "RECURRENCE-ID",
+  "SUMMARY",
+  "DESCRIPTION",
+  "LOCATION",
+  "CLASS",
+  "PRIORITY",
+  "TRANSP",
+  "STATUS",
+  "SEQUENCE",
+  "ORGANIZER",
+  "ATTENDEE",
+  "CREATED",
+  "LAST-MODIFIED",
+  "URL",
+];
+
+// Minimal validator for IANA tz name (not exhaustive but avoids obvious errors)
+export function isLikelyIana(name: unknown): name is string {
+  if (typeof name !== "string") return false;
+  return /\w+\/[-_A-Za-z0-9+]+/.test(name);
+}
+
+// Visit every component below the calendar except VTIMEZONE definitions (their DTSTARTs are rule onsets)
+function forEachEventComponent(calendar: IcsComponent, visit: (component: IcsComponent) => void): void {
+  const walk = (component: IcsComponent): void => {
+    for (const sub of component.components) {
+      if (sub.name === "VTIMEZONE") continue;
+      visit(sub);
+      walk(sub);
+    }
+  };
+  walk(calendar);
+}
+
+function isAllDay(prop: IcsProperty): boolean {
+  const valueType = getParam(prop, "VALUE")?.toUpperCase();
+  return valueType === "DATE" || /^\d{8}$/.test(prop.value);
+}
+
+// Convert a single DATE-TIME value. UTC values (..Z) are converted from UTC, values with a known
+// source zone are converted from it, floating values keep their wall clock. Returns undefined if invalid.
+function convertDateTimeValue(value: string, fromZone: string | VTimezoneZone | undefined, toZone: string): string | undefined {
+  // DATE-TIME formats are either YYYYMMDDTHHMMSS(Z?) or YYYYMMDDTHHMM(Z?)
+  const hasZ = value.endsWith("Z");
+  const dtBasic = value.replace("Z", "");
+  const hasSeconds = /T\d{6}$/.test(dtBasic);
+  const fmt = hasSeconds ? "yyyyLLdd'T'HHmmss" : "yyyyLLdd'T'HHmm";
+
+  const zone = hasZ ? "utc" : fromZone;
+  if (zone === undefined) return dtBasic; // floating: attach TZID without shifting
+
+  const dt = DateTime.fromFormat(dtBasic, fmt, { zone });
+  if (!dt.isValid) return undefined;
+  return dt.setZone(toZone).toFormat(fmt);
+}
+
+// Rewrite a DATE-TIME property in place according to the rules above
+function transformDateTimeProperty(prop: IcsProperty, opts: TransformOptions, customZones: Map<string, VTimezoneZone>): void {
+  if (isAllDay(prop)) return; // keep all-day intact
+  if (getParam(prop, "VALUE")?.toUpperCase() === "PERIOD") return; // RDATE periods are left as published
+
+  const values = prop.value.split(","); // EXDATE/RDATE may carry a comma-separated list
+  const existingTz = getParam(prop, "TZID");
+  if (clientProfile(opts.client).keepUtc && existingTz === undefined && values.every((v) => v.endsWith("Z"))) return;
+
+  // Zone the non-UTC values are expressed in (undefined = floating) and zone to write them in
+  let fromZone: string | VTimezoneZone | undefined;
+  let outTz = opts.targetTz;
+
+  if (typeof existingTz === "string" && existingTz.length > 0) {
+    // Map Windows timezone to IANA equivalent (territory variant closest to the target tz)
+    const mappedTz = mapWindowsToIana(existingTz, opts.targetTz, opts.windowsTerritory);
+    // Zones with no IANA equivalent are read from the feed's own VTIMEZONE rules instead of guessing
+    const customZone = mappedTz === undefined ? customZones.get(existingTz) : undefined;
+    if (opts.tzMode === "preserve" && mappedTz !== undefined) {
+      // Keep the event's own zone: only the TZID name changes, never the wall-clock time
+      fromZone = mappedTz;
+      outTz = mappedTz;
+    } else {
+      if (opts.tzMode === "convert" && !opts.overrideExistingTz) return; // respect
+      if (mappedTz === undefined && customZone === undefined) return; // unknown zone: never shift blindly
+      fromZone = mappedTz ?? customZone;
+    }
+  }
+
+  const converted = values.map((v) => convertDateTimeValue(v, fromZone, outTz));
+  if (converted.some((v) => v === undefined)) return; // don't risk corrupting
+
+  removeParam(prop, "TZID");
+  prop.params.unshift({ name: "TZID", values: [outTz] });
+  prop.value = converted.join(",");
+}
+
+// Year range covered by the feed's own dates (outside VTIMEZONE blocks), padded by one year on each
+// side so generated VTIMEZONEs also cover events that the UTC -> local shift moves across a year boundary
+function feedYearRange(calendar: IcsComponent): YearRange {
+  let minYear = Infinity;
+  let maxYear = -Infinity;
+  forEachEventComponent(calendar, (component) => {
+    for (const prop of component.properties) {
+      if (!DATE_TIME_PROPERTIES.has(prop.name)) continue;
+      for (const m of prop.value.matchAll(/(\d{4})\d{4}/g)) {
+        const year = Number(m[1]);
+        if (year < minYear) minYear = year;
+        if (year > maxYear) maxYear = year;
+      }
+    }
+  });
+  const fallback = defaultYearRange();
+  if (!Number.isFinite(minYear)) return fallback;
+  // Recurring series extend past their first occurrence, so always reach the default horizon
+  return clampYearRange({ startYear: minYear - 1, endYear: Math.max(maxYear + 1, fallback.endYear) });
+}
+
+// TZIDs referenced by properties outside VTIMEZONE blocks, in order of first use
+function referencedTzids(calendar: IcsComponent): string[] {
+  const tzids = new Set<string>();
+  forEachEventComponent(calendar, (component) => {
+    for (const prop of component.properties) {
+      const tzid = getParam(prop, "TZID");
+      if (typeof tzid === "string" && tzid.length > 0) tzids.add(tzid);
+    }
+  });
+  return [...tzids];
+}
+
+// Emit exactly one VTIMEZONE per zone referenced by the events (plus the target zone, always):
+// IANA zones get a block generated from the tz database for the years the feed actually uses,
+// zones we couldn't map keep the block the source provided. Unreferenced blocks are dropped.
+export function rebuildVTimezones(calendar: IcsComponent, sourceBlocks: Map<string, IcsComponent>, targetTz: string): void {
+  const range = feedYearRange(calendar);
+  const tzids = referencedTzids(calendar);
+  if (isLikelyIana(targetTz) && !tzids.includes(targetTz)) tzids.unshift(targetTz);
+
+  const vtimezones: IcsComponent[] = [];
+  for (const tzid of tzids) {
+    const generated = IANAZone.isValidZone(tzid) ? vtimezoneComponent(tzid, range) : undefined;
+    const block = generated ?? sourceBlocks.get(tzid);
+    if (block !== undefined) vtimezones.push(block);
+  }
+
+  // Put them where the source had its first VTIMEZONE, or else before every other component
+  const firstIdx = calendar.components.findIndex((c) => c.name === "VTIMEZONE");
+  const rest = calendar.components.filter((c) => c.name !== "VTIMEZONE");
+  rest.splice(firstIdx >= 0 ? firstIdx : 0, 0, ...vtimezones);
+  calendar.components = rest;
+}
+
+// Fix malformed DESCRIPTION values: drop a dangling escape backslash and trailing line breaks
+function fixDescription(prop: IcsProperty): IcsProperty | undefined {
+  let value = prop.value;
+  // Pattern: "text\\n " or "text\" at the very end should become "text"
+  value = value.replace(/(\\[nN]|\s)+$/, "");
+  value = value.replace(/(^|[^\\])((?:\\\\)*)\\$/, "$1$2");
+  // If description is empty after cleaning, drop it
+  if (value.trim().length === 0) return undefined;
+  return { ...prop, value };
+}
+
+// Fix VEVENT structure: correct malformed descriptions and reorder fields, as far as the client profile asks.
+// This ensures Google Calendar compatibility by:
+// 1. Fixing malformed DESCRIPTION fields (incorrect line breaks)
+// 2. Reordering fields to standard iCalendar order (UID, DTSTAMP, DTSTART, DTEND, SUMMARY, DESCRIPTION, etc.)
+//    Repeated properties (ATTENDEE, EXDATE, ...) keep their relative order; nested VALARMs stay nested
+export function fixVEventStructure(event: IcsComponent, profile: ClientProfile): void {
+  if (profile.fixDescriptions) {
+    event.properties = event.properties.flatMap((prop) => {
+      if (prop.name !== "DESCRIPTION") return [prop];
+      const fixed = fixDescription(prop);
+      return fixed !== undefined ? [fixed] : [];
+    });
+  }
+  if (!profile.reorderFields) return;
+
+  const known: IcsProperty[] = [];
+  const otherFields: IcsProperty[] = []; // Unknown fields
+  const xFields: IcsProperty[] = []; // X-* fields go at the end
+
+  for (const fieldName of VEVENT_FIELD_ORDER) {
+    for (const prop of event.properties) {
+      if (prop.name === fieldName) known.push(prop);
+    }
+  }
+  for (const prop of event.properties) {
+    if (VEVENT_FIELD_ORDER.includes(prop.name)) continue;
+    if (prop.name.startsWith("X-")) xFields.push(prop);
+    else otherFields.push(prop);
+  }
+
+  event.properties = [...known, ...otherFields, ...xFields];
+}
+
+// Apply the timezone rules to a parsed calendar in place
+export function transformCalendar(calendar: IcsComponent, opts: TransformOptions): void {
+  // Zones defined only by the feed's own VTIMEZONE blocks (e.g. "Customized Time Zone")
+  const sourceBlocks = new Map<string, IcsComponent>();
+  const customZones = new Map<string, VTimezoneZone>();
+  for (const vtimezone of calendar.components.filter((c) => c.name === "VTIMEZONE")) {
+    const tzid = getProperty(vtimezone, "TZID")?.value ?? "";
+    if (sourceBlocks.has(tzid)) continue;
+    sourceBlocks.set(tzid, vtimezone);
+    if (mapWindowsToIana(tzid) !== undefined) continue;
+    const zone = parseVTimezone(vtimezone);
+    if (zone !== undefined) customZones.set(tzid, zone);
+  }
+
+  // Pseudo all-day events become real ones while their source zone is still known
+  normalizeAllDayEvents(calendar, (tzid) => mapWindowsToIana(tzid, opts.targetTz, opts.windowsTerritory) ?? customZones.get(tzid), opts.targetTz);
+
+  // Transform DTSTART/DTEND/RECURRENCE-ID/EXDATE/RDATE (but not inside VTIMEZONE blocks)
+  forEachEventComponent(calendar, (component) => {
+    for (const prop of component.properties) {
+      if (DATE_TIME_PROPERTIES.has(prop.name)) transformDateTimeProperty(prop, opts, customZones);
+    }
+  });
+
+  // Meeting states and filters work on the converted dates, before VTIMEZONEs are rebuilt for the events that remain
+  if (opts.meetings !== undefined) handleMeetings(calendar, opts.meetings);
+  if (opts.filter !== undefined) filterEvents(calendar, opts.filter, opts.targetTz);
+  if (opts.expand !== undefined) expandCalendar(calendar, opts.expand, opts.targetTz);
+
+  rebuildVTimezones(calendar, sourceBlocks, opts.targetTz);
+
+  // PRODID, calendar name, refresh interval, ... as the subscribing client expects them
+  const profile = clientProfile(opts.client);
+  applyCalendarProperties(calendar, profile, {
+    ...(opts.calendarName !== undefined ? { name: opts.calendarName } : {}),
+    timeZone: opts.targetTz,
+    refreshMinutes: opts.refreshMinutes ?? DEFAULT_REFRESH_MINUTES,
+  });
+
+  // Clean up content and apply the rules (they see the cleaned-up text and decide before anything is redacted),
+  // then redact what the privacy mode hides and fix VEVENT structure: correct malformed descriptions and reorder fields
+  if (opts.cleanup !== undefined) {
+    for (const component of calendar.components) {
+      if (component.name === "VEVENT") cleanupEvent(component, opts.cleanup);
+    }
+  }
+  if (opts.rules !== undefined) applyRules(calendar, opts.rules, opts.targetTz);
+  for (const component of calendar.components) {
+    if (component.name === "VEVENT" || component.name === "VTODO" || component.name === "VJOURNAL") {
+      applyPrivacy(component, opts.privacy ?? "full");
+    }
+    if (component.name === "VEVENT") fixVEventStructure(component, profile);
+  }
+}
+
+// Parse, transform and serialize an ICS feed. Throws IcsParseError if the text is not a calendar.
+export function transformIcs(ics: string, opts: TransformOptions): string {
+  const calendar = parseCalendar(ics);
+  transformCalendar(calendar, opts);
+  return serializeIcs(calendar);
+}
@@ -0,0 +1,249 @@
+// upstream.ts
+// Fetches source ICS feeds, with conditional requests (ETag / Last-Modified) when a cached copy exists.
+// - Requests go through the URL policy (urlPolicy.ts): allowed schemes and hosts, public addresses only
+// - Redirects are followed manually so every hop is checked, up to the configured limit
+// - Bodies are decompressed and capped at the configured size; unexpected content types are refused
+// - Connect and total timeouts; 429 / 5xx and network errors are retried with jittered backoff,
+//   honouring Retry-After
+// - The body is parsed while it downloads (see createIcsParser), and a response that doesn't start
+//   like a calendar is abandoned after its first bytes
+
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { StringDecoder } from "node:string_decoder";
+import { setTimeout as sleep } from "node:timers/promises";
+import { createBrotliDecompress, createGunzip, createInflate } from "node:zlib";
+import type { Readable } from "node:stream";
+import { createIcsParser, findCalendar, IcsParseError, type IcsComponent } from "./ics.js";
+import { log } from "./log.js";
+import { recordUpstreamRetry } from "./metrics.js";
+import { checkContentType, checkSourceUrl, guardedLookup, UrlRejectedError, urlPolicy } from "./urlPolicy.js";
+
+export interface UpstreamValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export type UpstreamResult =
+  | { status: "not-modified" }
+  | { status: "ok"; body: string; calendar: IcsComponent; validators: UpstreamValidators };
+
+export interface UpstreamConfig {
+  connectTimeoutMs: number; // until the TCP connection is established
+  timeoutMs: number; // whole attempt: connect, redirects and body
+  retries: number; // extra attempts after a retryable failure
+  userAgent: string;
+}
+
+export class UpstreamError extends Error {
+  readonly status: number | undefined; // HTTP status, undefined for network errors
+  readonly retryAfterMs: number | undefined; // from Retry-After, when upstream sent one
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "UpstreamError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const DEFAULT_USER_AGENT = "OutlookIcsProxy/1.0 (+https://github.com/outlookicsproxy)";
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+// A longer Retry-After is not waited for: the request fails (or the stale copy is served) instead
+const RETRY_AFTER_LIMIT_MS = 30_000;
+// Bytes inspected before deciding whether the body looks like a calendar
+const SNIFF_BYTES = 256;
+
+let config: UpstreamConfig = { connectTimeoutMs: 5000, timeoutMs: 30_000, retries: 2, userAgent: DEFAULT_USER_AGENT };
+
+export function configureUpstream(next: UpstreamConfig): void {
+  config = next;
+}
+
+export function upstreamConfig(): UpstreamConfig {
+  return config;
+}
+
+// Send one GET without following redirects. The connect timeout only covers new connections.
+function get(url: URL, headers: Record<string, string>, signal: AbortSignal): Promise<IncomingMessage> {
+  const request = url.protocol === "http:" ? httpRequest : httpsRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: "GET", headers, lookup: guardedLookup, signal }, resolve);
+    req.on("socket", (socket) => {
+      if (!socket.connecting) return;
+      const timer = setTimeout(() => {
+        req.destroy(new UpstreamError(`Upstream connect timed out after ${config.connectTimeoutMs}ms`));
+      }, config.connectTimeoutMs);
+      socket.once("connect", () => clearTimeout(timer));
+      socket.once("close", () => clearTimeout(timer));
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+// Retry-After as a delay: delta-seconds or an HTTP date
+function retryAfter(header: string | undefined, now: number = Date.now()): number | undefined {
+  if (header === undefined) return undefined;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isRetryable(err: unknown): err is UpstreamError {
+  if (!(err instanceof UpstreamError)) return false;
+  return err.status === undefined || err.status === 429 || err.status >= 500;
+}
+
+// Full jitter: a random delay up to the exponential bound, unless upstream said how long to wait
+function retryDelay(err: UpstreamError, attempt: number): number {
+  if (err.retryAfterMs !== undefined) return err.retryAfterMs;
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+function decoded(resp: IncomingMessage): Readable {
+  switch ((resp.headers["content-encoding"] ?? "").trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return resp.pipe(createGunzip());
+    case "deflate":
+      return resp.pipe(createInflate());
+    case "br":
+      return resp.pipe(createBrotliDecompress());
+    default:
+      return resp;
+  }
+}
+
+// Read the (decompressed) body, parsing it as it arrives. Gives up as soon as the body exceeds the
+// size limit, or when its first bytes show it is not a calendar.
+async function readBody(resp: IncomingMessage, signal: AbortSignal): Promise<{ body: string; roots: IcsComponent[] }> {
+  const limit = urlPolicy().maxResponseBytes;
+  const declared = Number(resp.headers["content-length"]);
+  if (Number.isFinite(declared) && declared > limit) {
+    resp.destroy();
+    throw new UrlRejectedError(`Upstream response is larger than ${limit} bytes`, 422);
+  }
+
+  const decoder = new StringDecoder("utf8");
+  const parser = createIcsParser();
+  const texts: string[] = [];
+  let size = 0;
+  let head = "";
+  for await (const chunk of decoded(resp)) {
+    size += (chunk as Buffer).length;
+    if (size > limit) {
+      resp.destroy();
+      throw new UrlRejectedError(`Upstream response is larger than ${limit} bytes`, 422);
+    }
+    const text = decoder.write(chunk as Buffer);
+    if (head.length < SNIFF_BYTES) {
+      head += text;
+      const start = head.replace(/^[\uFEFF\s]+/, "");
+      if (start.length >= "BEGIN:VCALENDAR".length && !/^BEGIN:VCALENDAR/i.test(start)) {
+        resp.destroy();
+        throw new IcsParseError("Response does not start with BEGIN:VCALENDAR");
+      }
+    }
+    texts.push(text);
+    parser.push(text);
+  }
+  // An aborted response can end without an error (a body delimited by connection close looks complete),
+  // so check the signal too; a truncated body must never be taken for the feed
+  if (!resp.complete || signal.aborted) throw new Error("Connection closed before the response was complete");
+  const rest = decoder.end();
+  texts.push(rest);
+  parser.push(rest);
+  return { body: texts.join(""), roots: parser.end() };
+}
+
+// One attempt: the request, its redirects and the body, within the total timeout
+async function attempt(url: string, headers: Record<string, string>): Promise<UpstreamResult> {
+  const signal = AbortSignal.timeout(config.timeoutMs);
+  const failure = (err: unknown, status?: number): UpstreamError => {
+    if (err instanceof UpstreamError) return err;
+    if (signal.aborted) return new UpstreamError(`Upstream timed out after ${config.timeoutMs}ms`, status);
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return new UpstreamError(`Upstream fetch failed (${msg})`, status);
+  };
+
+  let target = checkSourceUrl(url);
+  let resp: IncomingMessage;
+  for (let redirects = 0; ; redirects++) {
+    try {
+      resp = await get(target, headers, signal);
+    } catch (err: unknown) {
+      if (err instanceof UrlRejectedError) throw err;
+      throw failure(err);
+    }
+
+    const location = resp.headers.location;
+    if (resp.statusCode === undefined || !REDIRECT_STATUSES.has(resp.statusCode) || location === undefined) break;
+    resp.resume(); // discard the redirect body
+    if (redirects >= urlPolicy().maxRedirects) throw new UrlRejectedError(`Upstream redirected more than ${urlPolicy().maxRedirects} times`, 422);
+    target = checkSourceUrl(new URL(location, target).toString());
+  }
+
+  const status = resp.statusCode ?? 0;
+  if (status === 304) {
+    resp.resume();
+    return { status: "not-modified" };
+  }
+  if (status < 200 || status >= 300) {
+    resp.resume();
+    throw new UpstreamError(`Upstream fetch failed (${status})`, status, retryAfter(resp.headers["retry-after"]));
+  }
+
+  try {
+    checkContentType(resp.headers["content-type"]);
+  } catch (err: unknown) {
+    resp.destroy();
+    throw err;
+  }
+
+  let body: string;
+  let roots: IcsComponent[];
+  try {
+    ({ body, roots } = await readBody(resp, signal));
+  } catch (err: unknown) {
+    if (err instanceof UrlRejectedError || err instanceof IcsParseError) throw err;
+    throw failure(err); // no status: a connection lost mid-body is retried like any network error
+  }
+  if (body.length === 0) throw new UpstreamError("Upstream returned empty body", status);
+  const calendar = findCalendar(roots);
+
+  const next: UpstreamValidators = {};
+  const etag = resp.headers.etag;
+  const lastModified = resp.headers["last-modified"];
+  if (etag !== undefined) next.etag = etag;
+  if (lastModified !== undefined) next.lastModified = lastModified;
+  return { status: "ok", body, calendar, validators: next };
+}
+
+// GET the source feed. Sends If-None-Match / If-Modified-Since when validators are known.
+// Network errors, timeouts, 429 and 5xx are retried up to the configured count.
+// Throws UrlRejectedError when the URL, an address, a redirect or the response breaks the URL policy,
+// IcsParseError when the body is not a calendar, and UpstreamError on network failure, timeout,
+// non-2xx/304 status or empty body.
+export async function fetchUpstream(url: string, validators: UpstreamValidators = {}): Promise<UpstreamResult> {
+  const headers: Record<string, string> = { "Accept-Encoding": "gzip, deflate, br", "User-Agent": config.userAgent };
+  if (typeof validators.etag === "string") headers["If-None-Match"] = validators.etag;
+  if (typeof validators.lastModified === "string") headers["If-Modified-Since"] = validators.lastModified;
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(url, headers);
+    } catch (err: unknown) {
+      if (!isRetryable(err) || retry >= config.retries) throw err;
+      const delay = retryDelay(err, retry);
+      if (delay > RETRY_AFTER_LIMIT_MS) throw err;
+      log.warn("Retrying upstream fetch", { error: err.message, attempt: retry + 2, delayMs: Math.round(delay) });
+      recordUpstreamRetry();
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,193 @@
+// urlPolicy.ts
+// Decides which upstream URLs the proxy may fetch, so it cannot be used to reach internal services (SSRF).
+// - Only https, unless plain http is explicitly allowed
+// - The host must match the allowlist (default: Outlook / Office 365 domains)
+// - Every address a host resolves to must be public: loopback, private, link-local, CGNAT, multicast
+//   and reserved ranges are refused; the check runs at connect time, for each redirect hop
+// - Responses are limited in redirect count, size and content-type (enforced in upstream.ts)
+
+import { lookup, type LookupAddress, type LookupOptions } from "node:dns";
+import { BlockList, isIP } from "node:net";
+
+export interface UrlPolicy {
+  allowHttp: boolean;
+  allowedHosts: string[]; // exact hosts, "*.example.com" for subdomains, or "*" for any host
+  allowPrivateNetworks: boolean;
+  maxRedirects: number;
+  maxResponseBytes: number;
+}
+
+export class UrlRejectedError extends Error {
+  readonly status: number; // HTTP status to answer the client with
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "UrlRejectedError";
+    this.status = status;
+  }
+}
+
+export const DEFAULT_ALLOWED_HOSTS = [
+  "outlook.office365.com",
+  "outlook.office.com",
+  "outlook.live.com",
+  "*.outlook.com",
+  "*.office365.com",
+];
+
+// Content types an ICS feed may be served with (Outlook uses text/calendar)
+const ALLOWED_CONTENT_TYPES = new Set([
+  "text/calendar",
+  "text/plain",
+  "text/x-vcalendar",
+  "application/ics",
+  "application/octet-stream",
+]);
+
+let policy: UrlPolicy = {
+  allowHttp: false,
+  allowedHosts: DEFAULT_ALLOWED_HOSTS,
+  allowPrivateNetworks: false,
+  maxRedirects: 3,
+  maxResponseBytes: 10 * 1024 * 1024,
+};
+
+export function configureUrlPolicy(next: UrlPolicy): void {
+  policy = { ...next, allowedHosts: next.allowedHosts.map((h) => h.toLowerCase()) };
+}
+
+export function urlPolicy(): UrlPolicy {
+  return policy;
+}
+
+// Addresses that must never be fetched: everything that is not globally routable
+const blockedAddresses = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(net, prefix, "ipv4");
+}
+// ::/96 (IPv4-compatible, deprecated) and 2002::/16 (6to4) embed an IPv4 address too; neither is used by
+// real feed hosts, so they are refused as a whole instead of unwrapped
+for (const [net, prefix] of [
+  ["::", 96], ["100::", 64], ["2001:db8::", 32], ["2002::", 16], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(net, prefix, "ipv6");
+}
+
+// The 16 bytes of an IPv6 address; URL parsing canonicalises case and dotted quads.
+// Undefined for addresses URL can't take (scoped link-local ones, which are refused anyway)
+function ipv6Bytes(address: string): number[] | undefined {
+  let canonical: string;
+  try {
+    canonical = new URL(`http://[${address}]/`).hostname.slice(1, -1);
+  } catch {
+    return undefined;
+  }
+  const [head = "", tail] = canonical.split("::");
+  const words = (part: string | undefined): number[] => (part === undefined || part === "" ? [] : part.split(":").map((w) => parseInt(w, 16)));
+  const high = words(head);
+  const low = words(tail);
+  return [...high, ...new Array<number>(8 - high.length - low.length).fill(0), ...low].flatMap((w) => [w >> 8, w & 255]);
+}
+
+// IPv4 address embedded in an IPv6 address:
+// - IPv4-mapped ::ffff:a.b.c.d and IPv4-translated ::ffff:0:a.b.c.d
+// - NAT64 64:ff9b::a.b.c.d, and the local-use NAT64 prefix 64:ff9b:1::/48 (RFC 8215), either as a /96
+//   carved from it (zeros up to the last 32 bits) or with the /48 layout of RFC 6052 (bits 48-63 and 72-87)
+function embeddedIpv4(address: string): string | undefined {
+  const b = ipv6Bytes(address);
+  if (b === undefined) return undefined;
+  const zero = (from: number, to: number): boolean => b.slice(from, to).every((x) => x === 0);
+  const word = (i: number): number => b[i * 2]! * 256 + b[i * 2 + 1]!;
+  const last32 = b.slice(12).join(".");
+  if (zero(0, 10) && word(5) === 0xffff) return last32;
+  if (zero(0, 8) && word(4) === 0xffff && word(5) === 0) return last32;
+  if (word(0) !== 0x64 || word(1) !== 0xff9b) return undefined;
+  if (zero(4, 12)) return last32;
+  if (word(2) !== 1) return undefined;
+  return zero(6, 12) ? last32 : [b[6], b[7], b[9], b[10]].join(".");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return blockedAddresses.check(address, "ipv4");
+  if (family === 6) {
+    const v4 = embeddedIpv4(address);
+    if (v4 !== undefined) return blockedAddresses.check(v4, "ipv4");
+    return blockedAddresses.check(address, "ipv6");
+  }
+  return true; // not an address at all: refuse
+}
+
+function hostAllowed(host: string): boolean {
+  return policy.allowedHosts.some((pattern) => {
+    if (pattern === "*") return true;
+    if (pattern.startsWith("*.")) return host.endsWith(pattern.slice(1)) && host.length > pattern.length - 1;
+    return host === pattern;
+  });
+}
+
+// Validate a URL before fetching it (also used for every redirect target).
+// Throws UrlRejectedError with a 4xx status; DNS results are checked separately by guardedLookup.
+export function checkSourceUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new UrlRejectedError("Invalid source URL", 400);
+  }
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && policy.allowHttp)) {
+    throw new UrlRejectedError(`Source URL must use https (got ${url.protocol.replace(/:$/, "")})`, 400);
+  }
+  if (url.username !== "" || url.password !== "") throw new UrlRejectedError("Source URL must not contain credentials", 400);
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (!hostAllowed(host)) throw new UrlRejectedError(`Source host ${host} is not allowed`, 403);
+  // IP literals never go through DNS, so check them here
+  if (isIP(host) !== 0 && !policy.allowPrivateNetworks && isPrivateAddress(host)) {
+    throw new UrlRejectedError(`Source address ${host} is not allowed`, 403);
+  }
+  return url;
+}
+
+// Content-Type check for upstream responses (a missing header is accepted)
+export function checkContentType(contentType: string | undefined): void {
+  if (contentType === undefined) return;
+  const mime = contentType.split(";")[0]!.trim().toLowerCase();
+  if (mime.length > 0 && !ALLOWED_CONTENT_TYPES.has(mime)) {
+    throw new UrlRejectedError(`Upstream returned unsupported content type ${mime}`, 422);
+  }
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+// dns.lookup replacement for http(s).request: resolves, then refuses hosts with any non-public address.
+// Checking at connect time (rather than before the request) leaves no gap for DNS rebinding.
+export function guardedLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, []);
+      return;
+    }
+    if (!policy.allowPrivateNetworks) {
+      const blocked = addresses.find((a) => isPrivateAddress(a.address));
+      if (blocked !== undefined) {
+        callback(new UrlRejectedError(`Source host ${hostname} resolves to a non-public address`, 403), []);
+        return;
+      }
+    }
+    if (options.all === true) {
+      callback(null, addresses);
+      return;
+    }
+    const first = addresses[0];
+    if (first === undefined) {
+      callback(Object.assign(new Error(`No addresses for ${hostname}`), { code: "ENOTFOUND" }), []);
+      return;
+    }
+    callback(null, first.address, first.family);
+  });
+}
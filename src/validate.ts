@@ -0,0 +1,292 @@
+// validate.ts
+// RFC 5545 checks for a calendar text, with line numbers, for /validate and `?debug=1`.
+// - Structure: unbalanced BEGIN/END, lines that are not content lines, lines over 75 octets
+// - Properties: missing required ones (PRODID, VERSION, UID, DTSTAMP, DTSTART, TZID), invalid dates,
+//   DTEND before DTSTART, bad TEXT escaping, duplicate UIDs
+// - Zones: TZIDs without a VTIMEZONE, Windows zone names (info) and names that map to no IANA zone
+// - Redacted reports (named feeds) keep lines and codes but drop UIDs and quoted values
+// Works on the raw text rather than the parsed tree, so problems the parser tolerates are still reported.
+
+import { DateTime, IANAZone } from "luxon";
+import { getParam, MAX_LINE_OCTETS, parseContentLine, unfoldNumberedLines, type IcsProperty } from "./ics.js";
+import { isWindowsZone, mapWindowsToIana } from "./windowsZones.js";
+
+export type IssueSeverity = "error" | "warning" | "info";
+
+export type IssueCode =
+  | "unbalanced-component"
+  | "invalid-line"
+  | "line-too-long"
+  | "missing-property"
+  | "invalid-date"
+  | "end-before-start"
+  | "bad-escape"
+  | "duplicate-uid"
+  | "undefined-tzid"
+  | "windows-tzid"
+  | "unmapped-tzid";
+
+export interface ValidationIssue {
+  line: number; // 1-based physical line where the content line (or component) starts
+  severity: IssueSeverity;
+  code: IssueCode;
+  message: string;
+  component?: string; // e.g. VEVENT
+  uid?: string;
+}
+
+// Zone preferences used to report what Windows zone names map to, as the transform would map them
+export interface ValidationOptions {
+  targetTz?: string;
+  windowsTerritory?: string;
+}
+
+export interface ValidationReport {
+  valid: boolean; // no errors (warnings and infos allowed)
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+  truncated: boolean; // more issues than MAX_ISSUES were found
+}
+
+// Keep reports readable (and bounded) for badly broken feeds; counts still cover everything
+const MAX_ISSUES = 500;
+
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  VCALENDAR: ["PRODID", "VERSION"],
+  VEVENT: ["UID", "DTSTAMP", "DTSTART"],
+  VTIMEZONE: ["TZID"],
+};
+
+// DATE / DATE-TIME properties; the UTC ones must be written in UTC
+const DATE_PROPERTIES = new Set(["DTSTART", "DTEND", "DUE", "RECURRENCE-ID", "EXDATE", "RDATE", "DTSTAMP", "CREATED", "LAST-MODIFIED", "COMPLETED"]);
+const UTC_PROPERTIES = new Set(["DTSTAMP", "CREATED", "LAST-MODIFIED", "COMPLETED"]);
+
+// Messages of redacted reports: nothing from the feed's events. Zone names are not event data and stay.
+const REDACTED_MESSAGES: Partial<Record<IssueCode, string>> = {
+  "unbalanced-component": "Unbalanced BEGIN / END",
+  "invalid-line": "Not a content line",
+  "missing-property": "Required property missing",
+  "invalid-date": "Invalid DATE / DATE-TIME value",
+  "end-before-start": "DTEND is not after DTSTART",
+  "bad-escape": "Invalid TEXT escaping",
+  "duplicate-uid": "Duplicate UID",
+};
+
+const TEXT_PROPERTIES = new Set(["SUMMARY", "DESCRIPTION", "LOCATION", "COMMENT", "CONTACT", "RESOURCES", "CATEGORIES", "TZNAME", "NAME", "X-WR-CALNAME", "X-WR-CALDESC"]);
+
+interface NumberedProperty {
+  prop: IcsProperty;
+  line: number;
+}
+
+interface OpenComponent {
+  name: string;
+  line: number;
+  properties: NumberedProperty[];
+}
+
+class Collector {
+  readonly issues: ValidationIssue[] = [];
+  errors = 0;
+  warnings = 0;
+  total = 0;
+
+  add(issue: ValidationIssue): void {
+    this.total++;
+    if (issue.severity === "error") this.errors++;
+    if (issue.severity === "warning") this.warnings++;
+    if (this.issues.length < MAX_ISSUES) this.issues.push(issue);
+  }
+}
+
+function uidOf(component: OpenComponent): string | undefined {
+  return component.properties.find((p) => p.prop.name === "UID")?.prop.value;
+}
+
+function context(component: OpenComponent): Pick<ValidationIssue, "component" | "uid"> {
+  const uid = uidOf(component);
+  return { component: component.name, ...(uid !== undefined ? { uid } : {}) };
+}
+
+// --- Values ------------------------------------------------------------------
+
+// A DATE or DATE-TIME value that exists on the calendar, or undefined
+function parseDate(value: string, dateOnly: boolean): DateTime | undefined {
+  const m = dateOnly ? /^(\d{4})(\d{2})(\d{2})$/.exec(value) : /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/.exec(value);
+  if (m === null) return undefined;
+  const dt = DateTime.fromObject(
+    { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]), hour: Number(m[4] ?? 0), minute: Number(m[5] ?? 0), second: Number(m[6] ?? 0) },
+    { zone: "utc" },
+  );
+  return dt.isValid ? dt : undefined;
+}
+
+function checkDates(component: OpenComponent, { prop, line }: NumberedProperty, out: Collector): void {
+  const valueType = getParam(prop, "VALUE")?.toUpperCase();
+  if (valueType === "PERIOD") return;
+  const dateOnly = valueType === "DATE";
+  for (const value of prop.value.split(",")) {
+    if (parseDate(value, dateOnly) !== undefined) continue;
+    const hint = !dateOnly && parseDate(value, true) !== undefined ? " (a DATE needs VALUE=DATE)" : "";
+    out.add({ line, severity: "error", code: "invalid-date", message: `${prop.name} has an invalid ${dateOnly ? "DATE" : "DATE-TIME"} "${value}"${hint}`, ...context(component) });
+  }
+  if (UTC_PROPERTIES.has(prop.name) && !prop.value.endsWith("Z")) {
+    out.add({ line, severity: "error", code: "invalid-date", message: `${prop.name} must be in UTC (ending with Z)`, ...context(component) });
+  }
+}
+
+// Instant of a DTSTART / DTEND for comparison; undefined when its zone can't be resolved
+function instantOf(prop: IcsProperty): DateTime | undefined {
+  const dateOnly = getParam(prop, "VALUE")?.toUpperCase() === "DATE";
+  const utc = parseDate(prop.value, dateOnly);
+  if (utc === undefined) return undefined;
+  const tzid = getParam(prop, "TZID");
+  if (prop.value.endsWith("Z") || dateOnly || tzid === undefined) return utc; // floating values compare on the wall clock
+  const zone = mapWindowsToIana(tzid);
+  return zone !== undefined ? utc.setZone(zone, { keepLocalTime: true }) : undefined;
+}
+
+function checkEnd(component: OpenComponent, out: Collector): void {
+  const start = component.properties.find((p) => p.prop.name === "DTSTART");
+  const end = component.properties.find((p) => p.prop.name === "DTEND");
+  if (start === undefined || end === undefined) return;
+  const a = instantOf(start.prop);
+  const b = instantOf(end.prop);
+  if (a === undefined || b === undefined) return;
+  const dateOnly = getParam(start.prop, "VALUE")?.toUpperCase() === "DATE";
+  if (b < a || (dateOnly && b.equals(a))) {
+    out.add({ line: end.line, severity: "error", code: "end-before-start", message: `DTEND ${end.prop.value} is ${b < a ? "before" : "not after"} DTSTART ${start.prop.value}`, ...context(component) });
+  }
+}
+
+function checkEscaping(component: OpenComponent, { prop, line }: NumberedProperty, out: Collector): void {
+  // Escape sequences are consumed in pairs, so "\\x" is an escaped backslash followed by "x"
+  const bad = [...prop.value.matchAll(/\\([\s\S]?)/g)].find((m) => !/^[\\;,nN]$/.test(m[1] ?? ""));
+  if (bad === undefined) return;
+  out.add({
+    line,
+    severity: "error",
+    code: "bad-escape",
+    message: bad[1] === "" ? `${prop.name} ends with a lone backslash` : `${prop.name} has an invalid escape "${bad[0]}" (only \\\\ \\; \\, \\n are allowed)`,
+    ...context(component),
+  });
+}
+
+// --- Components --------------------------------------------------------------
+
+function closeComponent(component: OpenComponent, out: Collector, uids: Map<string, number>): void {
+  for (const name of REQUIRED_PROPERTIES[component.name] ?? []) {
+    if (component.properties.some((p) => p.prop.name === name)) continue;
+    out.add({ line: component.line, severity: "error", code: "missing-property", message: `${component.name} is missing ${name}`, ...context(component) });
+  }
+  if (component.name === "VEVENT" || component.name === "VTODO" || component.name === "VJOURNAL") {
+    checkEnd(component, out);
+    const uid = uidOf(component);
+    if (uid !== undefined) {
+      const recurrenceId = component.properties.find((p) => p.prop.name === "RECURRENCE-ID")?.prop.value ?? "";
+      const key = `${component.name}|${uid}|${recurrenceId}`;
+      const first = uids.get(key);
+      if (first === undefined) {
+        uids.set(key, component.line);
+      } else {
+        const which = recurrenceId.length > 0 ? ` and RECURRENCE-ID ${recurrenceId}` : "";
+        out.add({ line: component.line, severity: "error", code: "duplicate-uid", message: `Duplicate ${component.name} with this UID${which} (first at line ${first})`, ...context(component) });
+      }
+    }
+  }
+}
+
+// Check a calendar text. Never throws: unparseable input is reported as issues.
+export function validateIcs(raw: string, opts: ValidationOptions = {}): ValidationReport {
+  const out = new Collector();
+
+  raw.replace(/\r\n?/g, "\n").split("\n").forEach((text, i) => {
+    const octets = Buffer.byteLength(text);
+    if (octets > MAX_LINE_OCTETS) {
+      out.add({ line: i + 1, severity: "warning", code: "line-too-long", message: `Line is ${octets} octets long (fold at ${MAX_LINE_OCTETS})` });
+    }
+  });
+
+  const stack: OpenComponent[] = [];
+  const uids = new Map<string, number>(); // instance key -> line of its first component
+  const vtimezones = new Set<string>();
+  const tzidUses = new Map<string, { line: number; count: number }>(); // TZID -> first use outside VTIMEZONE
+
+  for (const { text, line } of unfoldNumberedLines(raw)) {
+    const prop = parseContentLine(text);
+    if (prop === undefined) {
+      out.add({ line, severity: "error", code: "invalid-line", message: `Not a content line: "${text.slice(0, 40)}"` });
+      continue;
+    }
+    const current = stack[stack.length - 1];
+
+    if (prop.name === "BEGIN") {
+      stack.push({ name: prop.value.trim().toUpperCase(), line, properties: [] });
+      continue;
+    }
+    if (prop.name === "END") {
+      const name = prop.value.trim().toUpperCase();
+      const openAt = stack.map((c) => c.name).lastIndexOf(name);
+      if (openAt === -1) {
+        out.add({ line, severity: "error", code: "unbalanced-component", message: `END:${name} without a matching BEGIN:${name}` });
+        continue;
+      }
+      // Components left open inside this one are closed with it
+      while (stack.length > openAt + 1) {
+        const unclosed = stack.pop()!;
+        out.add({ line: unclosed.line, severity: "error", code: "unbalanced-component", message: `BEGIN:${unclosed.name} is not closed before END:${name} (line ${line})` });
+        closeComponent(unclosed, out, uids);
+      }
+      const closed = stack.pop()!;
+      if (closed.name === "VTIMEZONE") {
+        const tzid = closed.properties.find((p) => p.prop.name === "TZID")?.prop.value;
+        if (tzid !== undefined) vtimezones.add(tzid);
+      }
+      closeComponent(closed, out, uids);
+      continue;
+    }
+
+    if (current === undefined) {
+      out.add({ line, severity: "error", code: "invalid-line", message: `${prop.name} outside of any component` });
+      continue;
+    }
+    current.properties.push({ prop, line });
+    if (DATE_PROPERTIES.has(prop.name) && !stack.some((c) => c.name === "VTIMEZONE")) checkDates(current, { prop, line }, out);
+    if (TEXT_PROPERTIES.has(prop.name)) checkEscaping(current, { prop, line }, out);
+
+    const tzid = getParam(prop, "TZID");
+    if (tzid !== undefined && !stack.some((c) => c.name === "VTIMEZONE")) {
+      const use = tzidUses.get(tzid);
+      if (use === undefined) tzidUses.set(tzid, { line, count: 1 });
+      else use.count++;
+    }
+  }
+
+  for (const unclosed of stack.reverse()) {
+    out.add({ line: unclosed.line, severity: "error", code: "unbalanced-component", message: `BEGIN:${unclosed.name} is never closed` });
+  }
+
+  // Zones, reported once per TZID at its first use
+  for (const [tzid, { line, count }] of tzidUses) {
+    const uses = count > 1 ? ` (used ${count} times)` : "";
+    if (!vtimezones.has(tzid)) {
+      out.add({ line, severity: "error", code: "undefined-tzid", message: `TZID "${tzid}" has no VTIMEZONE${uses}` });
+    }
+    if (isWindowsZone(tzid)) {
+      out.add({ line, severity: "info", code: "windows-tzid", message: `TZID "${tzid}" is a Windows zone name, mapped to ${mapWindowsToIana(tzid, opts.targetTz, opts.windowsTerritory) ?? "nothing"}${uses}` });
+    } else if (!IANAZone.isValidZone(tzid)) {
+      const fallback = vtimezones.has(tzid) ? "read from its VTIMEZONE" : "left as published";
+      out.add({ line, severity: "warning", code: "unmapped-tzid", message: `TZID "${tzid}" is neither an IANA nor a Windows zone; ${fallback}${uses}` });
+    }
+  }
+
+  out.issues.sort((a, b) => a.line - b.line);
+  return { valid: out.errors === 0, errors: out.errors, warnings: out.warnings, issues: out.issues, truncated: out.total > out.issues.length };
+}
+
+// The report without UIDs and values quoted from the calendar, for feeds whose events may be filtered or redacted
+export function redactReport(report: ValidationReport): ValidationReport {
+  const issues = report.issues.map(({ uid: _uid, ...issue }) => ({ ...issue, message: REDACTED_MESSAGES[issue.code] ?? issue.message }));
+  return { ...report, issues };
+}
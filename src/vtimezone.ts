@@ -0,0 +1,264 @@
+// vtimezone.ts
+// Builds RFC 5545 VTIMEZONE definitions from the tz database shipped with the runtime (via Luxon).
+// - Scans the requested year range for UTC offset transitions, clamped to a bounded window around today
+// - Emits one STANDARD/DAYLIGHT observance per rule, compressed into yearly RRULEs where possible
+// - Zones without DST (or without transitions in range) get a single STANDARD observance
+// - The offset in effect on Jan 1 of the first year gets its own observance, up to the first transition
+// - Historical rule changes end a run with RRULE UNTIL and start a new observance
+
+import { DateTime, IANAZone } from "luxon";
+import { cloneComponent, type IcsComponent, type IcsProperty } from "./ics.js";
+
+export interface YearRange {
+  startYear: number;
+  endYear: number;
+}
+
+interface Transition {
+  at: number; // UTC millis of the first instant with the new offset
+  offsetFrom: number; // minutes
+  offsetTo: number; // minutes
+  isDaylight: boolean;
+  name: string;
+}
+
+interface Observance {
+  isDaylight: boolean;
+  offsetFrom: number;
+  offsetTo: number;
+  name: string;
+  dtstart: string; // local wall-clock time in the offset in effect before the transition
+  rrule?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+// Cache generated components: zone scans are cheap, but feeds are requested often.
+// Year ranges come from feed contents, so the cache is an LRU of bounded size (Map keeps insertion order).
+const componentCache = new Map<string, IcsComponent>();
+const MAX_CACHED_COMPONENTS = 256;
+
+// Scans sample every day of the range, so a feed dated 0001 or 9999 must not widen it without limit
+const MAX_YEARS_BEFORE = 30;
+const MAX_YEARS_AFTER = 10;
+
+// Default range when a feed carries no usable dates: last year to a few years ahead
+export function defaultYearRange(): YearRange {
+  const year = DateTime.utc().year;
+  return { startYear: year - 1, endYear: year + 2 };
+}
+
+// Limit a range to the window around the current year that VTIMEZONEs are generated for.
+// Times outside it still resolve: clients extend the first and last observances.
+export function clampYearRange(range: YearRange): YearRange {
+  const year = DateTime.utc().year;
+  const min = year - MAX_YEARS_BEFORE;
+  const max = year + MAX_YEARS_AFTER;
+  const startYear = Math.min(Math.max(range.startYear, min), max);
+  return { startYear, endYear: Math.min(Math.max(range.endYear, startYear), max) };
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  const hh = String(Math.floor(abs / 60)).padStart(2, "0");
+  const mm = String(abs % 60).padStart(2, "0");
+  return `${sign}${hh}${mm}`;
+}
+
+// Short zone name for TZNAME (e.g. "EST", "CEST"); falls back to a "GMT+1" style label
+function zoneAbbreviation(zone: IANAZone, ts: number): string {
+  const name = zone.offsetName(ts, { format: "short", locale: "en-US" });
+  return typeof name === "string" && name.length > 0 ? name : `GMT${formatOffset(zone.offset(ts))}`;
+}
+
+// Binary search the first instant (minute precision) in (lo, hi] whose offset differs from lo's offset
+function findTransitionInstant(zone: IANAZone, lo: number, hi: number): number {
+  const before = zone.offset(lo);
+  let a = lo;
+  let b = hi;
+  while (b - a > 60 * 1000) {
+    const mid = a + Math.floor((b - a) / 2 / 60000) * 60000;
+    if (zone.offset(mid) === before) a = mid;
+    else b = mid;
+  }
+  return b;
+}
+
+function collectTransitions(zone: IANAZone, range: YearRange): Transition[] {
+  const start = Date.UTC(range.startYear, 0, 1);
+  const end = Date.UTC(range.endYear + 1, 0, 1);
+  const transitions: Transition[] = [];
+
+  // Daily sampling catches every real-world rule (the shortest DST periods last weeks)
+  let prevTs = start;
+  let prevOffset = zone.offset(prevTs);
+  for (let ts = start + DAY_MS; ts <= end; ts += DAY_MS) {
+    const offset = zone.offset(ts);
+    if (offset !== prevOffset) {
+      const at = findTransitionInstant(zone, prevTs, ts);
+      const dt = DateTime.fromMillis(at, { zone });
+      transitions.push({
+        at,
+        offsetFrom: prevOffset,
+        offsetTo: zone.offset(at),
+        isDaylight: dt.isInDST,
+        name: zoneAbbreviation(zone, at),
+      });
+    }
+    prevTs = ts;
+    prevOffset = offset;
+  }
+  return transitions;
+}
+
+// Local wall-clock time of the transition, expressed in the offset that applied just before it
+function localOnset(t: Transition): DateTime {
+  return DateTime.fromMillis(t.at + t.offsetFrom * 60 * 1000, { zone: "utc" });
+}
+
+// Rule keys: two transitions share a key if a single yearly RRULE can generate both
+function weekdayRuleKey(t: Transition): string {
+  const local = localOnset(t);
+  const nth = local.day + 7 > local.daysInMonth! ? -1 : Math.ceil(local.day / 7);
+  return `M${local.month};D${nth}${WEEKDAYS[local.weekday - 1]};T${local.toFormat("HHmmss")}`;
+}
+
+function monthDayRuleKey(t: Transition): string {
+  const local = localOnset(t);
+  return `M${local.month};MD${local.day};T${local.toFormat("HHmmss")}`;
+}
+
+function rruleFromKey(key: string): string {
+  const parts = key.split(";");
+  const month = parts[0]!.slice(1);
+  const day = parts[1]!;
+  if (day.startsWith("MD")) return `FREQ=YEARLY;BYMONTH=${month};BYMONTHDAY=${day.slice(2)}`;
+  return `FREQ=YEARLY;BYMONTH=${month};BYDAY=${day.slice(1)}`;
+}
+
+function sameShape(a: Transition, b: Transition): boolean {
+  return a.offsetFrom === b.offsetFrom && a.offsetTo === b.offsetTo && a.isDaylight === b.isDaylight && a.name === b.name;
+}
+
+// Length of the run starting at index i where every transition follows the same yearly rule
+function runLength(list: Transition[], i: number, keyOf: (t: Transition) => string): number {
+  const first = list[i]!;
+  const key = keyOf(first);
+  let n = 1;
+  while (i + n < list.length) {
+    const prev = list[i + n - 1]!;
+    const next = list[i + n]!;
+    if (!sameShape(first, next)) break;
+    if (localOnset(next).year !== localOnset(prev).year + 1) break;
+    if (keyOf(next) !== key) break;
+    n++;
+  }
+  return n;
+}
+
+// Group transitions of the same kind into yearly RRULE observances
+function compressTransitions(transitions: Transition[], range: YearRange): Observance[] {
+  const observances: Observance[] = [];
+  const lastYear = range.endYear;
+
+  // Split by shape so that northern/southern hemisphere ordering does not matter
+  const kinds = new Map<string, Transition[]>();
+  for (const t of transitions) {
+    const kind = `${t.isDaylight}|${t.offsetFrom}|${t.offsetTo}|${t.name}`;
+    const list = kinds.get(kind) ?? [];
+    list.push(t);
+    kinds.set(kind, list);
+  }
+
+  for (const list of kinds.values()) {
+    let i = 0;
+    while (i < list.length) {
+      const first = list[i]!;
+      const byWeekday = runLength(list, i, weekdayRuleKey);
+      const byMonthDay = runLength(list, i, monthDayRuleKey);
+      const n = Math.max(byWeekday, byMonthDay);
+      const keyOf = byWeekday >= byMonthDay ? weekdayRuleKey : monthDayRuleKey;
+      const last = list[i + n - 1]!;
+      const observance: Observance = {
+        isDaylight: first.isDaylight,
+        offsetFrom: first.offsetFrom,
+        offsetTo: first.offsetTo,
+        name: first.name,
+        dtstart: localOnset(first).toFormat("yyyyLLdd'T'HHmmss"),
+      };
+      if (n > 1) {
+        let rrule = rruleFromKey(keyOf(first));
+        // A run reaching the end of the range is assumed to continue (open-ended series)
+        if (localOnset(last).year < lastYear) {
+          rrule += `;UNTIL=${DateTime.fromMillis(last.at, { zone: "utc" }).toFormat("yyyyLLdd'T'HHmmss'Z'")}`;
+        }
+        observance.rrule = rrule;
+      }
+      observances.push(observance);
+      i += n;
+    }
+  }
+
+  return observances.sort((a, b) => a.dtstart.localeCompare(b.dtstart));
+}
+
+function prop(name: string, value: string): IcsProperty {
+  return { name, params: [], value };
+}
+
+function observanceComponent(o: Observance): IcsComponent {
+  const properties = [
+    prop("TZOFFSETFROM", formatOffset(o.offsetFrom)),
+    prop("TZOFFSETTO", formatOffset(o.offsetTo)),
+    prop("TZNAME", o.name),
+    prop("DTSTART", o.dtstart),
+  ];
+  if (typeof o.rrule === "string") properties.push(prop("RRULE", o.rrule));
+  return { name: o.isDaylight ? "DAYLIGHT" : "STANDARD", properties, components: [] };
+}
+
+// Build a complete VTIMEZONE component for an IANA zone covering the given year range (see clampYearRange).
+// Returns undefined if the zone is unknown to the runtime's tz database.
+export function vtimezoneComponent(tzid: string, requested: YearRange = defaultYearRange()): IcsComponent | undefined {
+  const range = clampYearRange(requested);
+  const cacheKey = `${tzid}|${range.startYear}|${range.endYear}`;
+  const cached = componentCache.get(cacheKey);
+  if (cached) {
+    // Refresh recency
+    componentCache.delete(cacheKey);
+    componentCache.set(cacheKey, cached);
+    return cloneComponent(cached);
+  }
+
+  const zone = IANAZone.create(tzid);
+  if (!zone.isValid) return undefined;
+  const transitions = collectTransitions(zone, range);
+  const observances = compressTransitions(transitions, range);
+
+  // Cover the start of the range up to the first transition with the offset in effect on Jan 1
+  // (transitions are only found after the first sample, so nothing else defines that stretch)
+  const rangeStart = Date.UTC(range.startYear, 0, 1);
+  const offset = zone.offset(rangeStart);
+  observances.unshift({
+    isDaylight: DateTime.fromMillis(rangeStart, { zone }).isInDST,
+    offsetFrom: offset,
+    offsetTo: offset,
+    name: zoneAbbreviation(zone, rangeStart),
+    dtstart: `${range.startYear}0101T000000`,
+  });
+
+  const component: IcsComponent = {
+    name: "VTIMEZONE",
+    properties: [prop("TZID", tzid), prop("X-LIC-LOCATION", tzid)],
+    components: observances.map(observanceComponent),
+  };
+  componentCache.set(cacheKey, component);
+  while (componentCache.size > MAX_CACHED_COMPONENTS) {
+    const oldest = componentCache.keys().next().value;
+    if (oldest === undefined) break;
+    componentCache.delete(oldest);
+  }
+  return cloneComponent(component);
+}
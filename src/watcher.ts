@@ -0,0 +1,106 @@
+// watcher.ts
+// Background polling of named feeds with a `watch:` block.
+// - Each watched feed is loaded on its own timer, compared with the previous poll (changes.ts),
+//   and new changes are sent to the feed's webhooks (webhooks.ts)
+// - The first successful poll after a start or a config change only records the baseline
+// - Polls that only got a stale copy (upstream failing) are skipped, so an outage never looks like changes
+// - The loader decides what is compared: server.ts leaves out the rolling date window and expansion
+//   and revalidates with upstream on every poll
+// - Timers are unref'd: a pending poll never keeps the process alive
+
+import { clearChanges, diffSnapshots, recordChanges, takeSnapshot, type Snapshot } from "./changes.js";
+import type { FeedConfig } from "./config.js";
+import { parseCalendar } from "./ics.js";
+import { log } from "./log.js";
+import { recordFeedChanges } from "./metrics.js";
+import { deliverWebhook, type WebhookConfig } from "./webhooks.js";
+
+export interface WatchConfig {
+  intervalSeconds: number;
+  webhooks: WebhookConfig[];
+}
+
+// The transformed calendar of a feed and the zone it was transformed for,
+// or undefined when there is nothing fresh to compare this round
+export type FeedLoader = (feed: FeedConfig) => Promise<{ body: string; zone: string } | undefined>;
+
+export interface WatchStatus {
+  lastPoll?: string; // ISO 8601 of the last successful poll
+  lastError?: string;
+}
+
+interface Watcher {
+  feed: FeedConfig;
+  timer: NodeJS.Timeout;
+  running: boolean;
+  snapshot?: Snapshot;
+  status: WatchStatus;
+}
+
+const watchers = new Map<string, Watcher>();
+
+async function poll(watcher: Watcher, load: FeedLoader): Promise<void> {
+  if (watcher.running) return; // the previous poll is still waiting on upstream
+  watcher.running = true;
+  const { feed } = watcher;
+  try {
+    const loaded = await load(feed);
+    if (loaded === undefined) return;
+    const snapshot = takeSnapshot(parseCalendar(loaded.body), loaded.zone);
+    const previous = watcher.snapshot;
+    watcher.snapshot = snapshot;
+    watcher.status = { lastPoll: new Date().toISOString() };
+    if (previous === undefined) {
+      log.debug("Watch baseline recorded", { feed: feed.name, events: snapshot.size });
+      return;
+    }
+
+    const drafts = diffSnapshots(previous, snapshot);
+    if (drafts.length === 0) return;
+    const changes = recordChanges(feed.name, drafts);
+    for (const change of changes) recordFeedChanges(change.type, 1);
+    log.info("Feed changed", { feed: feed.name, changes: changes.length });
+
+    const payload = { feed: feed.name, sentAt: new Date().toISOString(), changes };
+    for (const hook of feed.watch?.webhooks ?? []) void deliverWebhook(hook, payload);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    watcher.status = { ...watcher.status, lastError: msg };
+    log.warn("Watch poll failed", { feed: feed.name, error: msg });
+  } finally {
+    watcher.running = false;
+  }
+}
+
+function start(feed: FeedConfig, watch: WatchConfig, load: FeedLoader): Watcher {
+  const watcher: Watcher = { feed, timer: setInterval(() => void poll(watcher, load), watch.intervalSeconds * 1000), running: false, status: {} };
+  watcher.timer.unref();
+  void poll(watcher, load);
+  return watcher;
+}
+
+// Start, restart or stop watchers to match the configured feeds (after loading or reloading the config).
+// A feed whose sources or options changed starts over with a new baseline; its history is kept
+// until the feed stops being watched.
+export function syncWatchers(feeds: FeedConfig[], load: FeedLoader): void {
+  const wanted = new Map(feeds.filter((f) => f.watch !== undefined).map((f) => [f.name, f]));
+
+  for (const [name, watcher] of watchers) {
+    const feed = wanted.get(name);
+    if (feed !== undefined && JSON.stringify(feed) === JSON.stringify(watcher.feed)) continue;
+    clearInterval(watcher.timer);
+    watchers.delete(name);
+    if (feed === undefined) clearChanges(name);
+  }
+
+  for (const [name, feed] of wanted) {
+    if (watchers.has(name)) continue;
+    watchers.set(name, start(feed, feed.watch!, load));
+    log.info("Watching feed", { feed: name, intervalSeconds: feed.watch!.intervalSeconds, webhooks: feed.watch!.webhooks.length });
+  }
+}
+
+// Undefined for feeds that are not watched
+export function watchStatus(feed: string): WatchStatus | undefined {
+  return watchers.get(feed)?.status;
+}
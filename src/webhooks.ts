@@ -0,0 +1,77 @@
+// webhooks.ts
+// Delivery of feed changes to webhook URLs.
+// - JSON payload, signed with HMAC-SHA256 of the raw body: X-Signature-256: sha256=<hex>
+// - X-Webhook-Delivery is the same for every attempt of one delivery, so receivers can de-duplicate
+// - Network errors, timeouts, 408, 429 and 5xx are retried with exponential backoff; other answers end the delivery
+// Webhook URLs come from the feeds config (operators), so they are not subject to the upstream URL policy.
+
+import { createHmac, randomUUID } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { FeedChange } from "./changes.js";
+import { log } from "./log.js";
+import { recordWebhookDelivery } from "./metrics.js";
+import { DEFAULT_USER_AGENT } from "./upstream.js";
+
+export interface WebhookConfig {
+  url: string;
+  secret: string; // HMAC key shared with the receiver
+}
+
+export interface WebhookPayload {
+  feed: string;
+  sentAt: string; // ISO 8601; lets receivers reject old replays
+  changes: FeedChange[];
+}
+
+const ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000;
+const TIMEOUT_MS = 10_000;
+
+// Signature header value for a body, as receivers should recompute it
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// POST the payload until it is accepted (2xx), refused, or the attempts run out.
+// Never throws: failures are logged and counted.
+export async function deliverWebhook(hook: WebhookConfig, payload: WebhookPayload): Promise<boolean> {
+  const body = JSON.stringify(payload);
+  const headers = {
+    "Content-Type": "application/json",
+    "User-Agent": DEFAULT_USER_AGENT,
+    "X-Webhook-Delivery": randomUUID(),
+    "X-Signature-256": signPayload(body, hook.secret),
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    let reason: string;
+    let retryable: boolean;
+    try {
+      const resp = await fetch(hook.url, { method: "POST", headers, body, redirect: "manual", signal: AbortSignal.timeout(TIMEOUT_MS) });
+      await resp.body?.cancel();
+      if (resp.ok) {
+        log.info("Webhook delivered", { feed: payload.feed, changes: payload.changes.length, attempt });
+        recordWebhookDelivery(true);
+        return true;
+      }
+      reason = `HTTP ${resp.status}`;
+      retryable = isRetryableStatus(resp.status);
+    } catch (err: unknown) {
+      reason = err instanceof Error ? err.message : "Unknown error";
+      retryable = true;
+    }
+
+    if (!retryable || attempt >= ATTEMPTS) {
+      log.error("Webhook delivery failed", { feed: payload.feed, error: reason, attempt });
+      recordWebhookDelivery(false);
+      return false;
+    }
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+    log.warn("Retrying webhook delivery", { feed: payload.feed, error: reason, attempt: attempt + 1, delayMs: Math.round(delay) });
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,205 @@
+// windowsZones.ts
+// Windows -> IANA timezone mapping, from the Unicode CLDR windowsZones table (supplemental/windowsZones.xml).
+// - Each Windows zone maps per territory to one or more IANA zones; "001" is the golden (default) zone
+// - Territory variants let "W. Europe Standard Time" resolve to Europe/Zurich for Swiss users, Europe/Berlin otherwise
+// - IANA ids are kept as CLDR lists them (e.g. Asia/Calcutta); the runtime's tz database accepts both spellings
+
+import { IANAZone } from "luxon";
+
+// Windows zone name -> territory (ISO 3166 / "001" / "ZZ") -> space-separated IANA zones
+const WINDOWS_ZONES: Record<string, Record<string, string>> = {
+  "Dateline Standard Time": { "001": "Etc/GMT+12", ZZ: "Etc/GMT+12" },
+  "UTC-11": { "001": "Etc/GMT+11", AS: "Pacific/Pago_Pago", NU: "Pacific/Niue", UM: "Pacific/Midway", ZZ: "Etc/GMT+11" },
+  "Aleutian Standard Time": { "001": "America/Adak", US: "America/Adak" },
+  "Hawaiian Standard Time": { "001": "Pacific/Honolulu", CK: "Pacific/Rarotonga", PF: "Pacific/Tahiti", UM: "Pacific/Johnston", US: "Pacific/Honolulu", ZZ: "Etc/GMT+10" },
+  "Marquesas Standard Time": { "001": "Pacific/Marquesas", PF: "Pacific/Marquesas" },
+  "Alaskan Standard Time": { "001": "America/Anchorage", US: "America/Anchorage America/Juneau America/Metlakatla America/Nome America/Sitka America/Yakutat" },
+  "UTC-09": { "001": "Etc/GMT+9", PF: "Pacific/Gambier", ZZ: "Etc/GMT+9" },
+  "Pacific Standard Time (Mexico)": { "001": "America/Tijuana", MX: "America/Tijuana America/Santa_Isabel" },
+  "UTC-08": { "001": "Etc/GMT+8", PN: "Pacific/Pitcairn", ZZ: "Etc/GMT+8" },
+  "Pacific Standard Time": { "001": "America/Los_Angeles", CA: "America/Vancouver", US: "America/Los_Angeles", ZZ: "PST8PDT" },
+  "US Mountain Standard Time": { "001": "America/Phoenix", CA: "America/Creston America/Dawson_Creek America/Fort_Nelson", MX: "America/Hermosillo", US: "America/Phoenix", ZZ: "Etc/GMT+7" },
+  "Mountain Standard Time (Mexico)": { "001": "America/Mazatlan", MX: "America/Mazatlan" },
+  "Mountain Standard Time": { "001": "America/Denver", CA: "America/Edmonton America/Cambridge_Bay America/Inuvik America/Yellowknife", MX: "America/Ciudad_Juarez", US: "America/Denver America/Boise", ZZ: "MST7MDT" },
+  "Yukon Standard Time": { "001": "America/Whitehorse", CA: "America/Whitehorse America/Dawson" },
+  "Central America Standard Time": { "001": "America/Guatemala", BZ: "America/Belize", CR: "America/Costa_Rica", EC: "Pacific/Galapagos", GT: "America/Guatemala", HN: "America/Tegucigalpa", NI: "America/Managua", SV: "America/El_Salvador", ZZ: "Etc/GMT+6" },
+  "Central Standard Time": { "001": "America/Chicago", CA: "America/Winnipeg America/Rainy_River America/Rankin_Inlet America/Resolute", MX: "America/Matamoros America/Ojinaga", US: "America/Chicago America/Indiana/Knox America/Indiana/Tell_City America/Menominee America/North_Dakota/Beulah America/North_Dakota/Center America/North_Dakota/New_Salem", ZZ: "CST6CDT" },
+  "Easter Island Standard Time": { "001": "Pacific/Easter", CL: "Pacific/Easter" },
+  "Central Standard Time (Mexico)": { "001": "America/Mexico_City", MX: "America/Mexico_City America/Bahia_Banderas America/Merida America/Monterrey America/Chihuahua" },
+  "Canada Central Standard Time": { "001": "America/Regina", CA: "America/Regina America/Swift_Current" },
+  "SA Pacific Standard Time": { "001": "America/Bogota", BR: "America/Rio_Branco America/Eirunepe", CA: "America/Coral_Harbour", CO: "America/Bogota", EC: "America/Guayaquil", JM: "America/Jamaica", KY: "America/Cayman", PA: "America/Panama", PE: "America/Lima", ZZ: "Etc/GMT+5" },
+  "Eastern Standard Time (Mexico)": { "001": "America/Cancun", MX: "America/Cancun" },
+  "Eastern Standard Time": { "001": "America/New_York", BS: "America/Nassau", CA: "America/Toronto America/Iqaluit America/Montreal America/Nipigon America/Pangnirtung America/Thunder_Bay", US: "America/New_York America/Detroit America/Indiana/Petersburg America/Indiana/Vincennes America/Indiana/Winamac America/Kentucky/Monticello America/Louisville", ZZ: "EST5EDT" },
+  "Haiti Standard Time": { "001": "America/Port-au-Prince", HT: "America/Port-au-Prince" },
+  "Cuba Standard Time": { "001": "America/Havana", CU: "America/Havana" },
+  "US Eastern Standard Time": { "001": "America/Indianapolis", US: "America/Indianapolis America/Indiana/Marengo America/Indiana/Vevay" },
+  "Turks And Caicos Standard Time": { "001": "America/Grand_Turk", TC: "America/Grand_Turk" },
+  "Paraguay Standard Time": { "001": "America/Asuncion", PY: "America/Asuncion" },
+  "Atlantic Standard Time": { "001": "America/Halifax", BM: "Atlantic/Bermuda", CA: "America/Halifax America/Glace_Bay America/Goose_Bay America/Moncton", GL: "America/Thule" },
+  "Venezuela Standard Time": { "001": "America/Caracas", VE: "America/Caracas" },
+  "Central Brazilian Standard Time": { "001": "America/Cuiaba", BR: "America/Cuiaba America/Campo_Grande" },
+  "SA Western Standard Time": { "001": "America/La_Paz", AG: "America/Antigua", AI: "America/Anguilla", AW: "America/Aruba", BB: "America/Barbados", BL: "America/St_Barthelemy", BO: "America/La_Paz", BQ: "America/Kralendijk", BR: "America/Manaus America/Boa_Vista America/Porto_Velho", CA: "America/Blanc-Sablon", CW: "America/Curacao", DM: "America/Dominica", DO: "America/Santo_Domingo", GD: "America/Grenada", GP: "America/Guadeloupe", GY: "America/Guyana", KN: "America/St_Kitts", LC: "America/St_Lucia", MF: "America/Marigot", MQ: "America/Martinique", MS: "America/Montserrat", PR: "America/Puerto_Rico", SX: "America/Lower_Princes", TT: "America/Port_of_Spain", VC: "America/St_Vincent", VG: "America/Tortola", VI: "America/St_Thomas", ZZ: "Etc/GMT+4" },
+  "Pacific SA Standard Time": { "001": "America/Santiago", CL: "America/Santiago" },
+  "Newfoundland Standard Time": { "001": "America/St_Johns", CA: "America/St_Johns" },
+  "Tocantins Standard Time": { "001": "America/Araguaina", BR: "America/Araguaina" },
+  "E. South America Standard Time": { "001": "America/Sao_Paulo", BR: "America/Sao_Paulo" },
+  "SA Eastern Standard Time": { "001": "America/Cayenne", AQ: "Antarctica/Rothera Antarctica/Palmer", BR: "America/Fortaleza America/Belem America/Maceio America/Recife America/Santarem", FK: "Atlantic/Stanley", GF: "America/Cayenne", SR: "America/Paramaribo", ZZ: "Etc/GMT+3" },
+  "Argentina Standard Time": { "001": "America/Buenos_Aires", AR: "America/Buenos_Aires America/Argentina/La_Rioja America/Argentina/Rio_Gallegos America/Argentina/Salta America/Argentina/San_Juan America/Argentina/San_Luis America/Argentina/Tucuman America/Argentina/Ushuaia America/Catamarca America/Cordoba America/Jujuy America/Mendoza" },
+  "Greenland Standard Time": { "001": "America/Godthab", GL: "America/Godthab" },
+  "Montevideo Standard Time": { "001": "America/Montevideo", UY: "America/Montevideo" },
+  "Magallanes Standard Time": { "001": "America/Punta_Arenas", CL: "America/Punta_Arenas" },
+  "Saint Pierre Standard Time": { "001": "America/Miquelon", PM: "America/Miquelon" },
+  "Bahia Standard Time": { "001": "America/Bahia", BR: "America/Bahia" },
+  "UTC-02": { "001": "Etc/GMT+2", BR: "America/Noronha", GS: "Atlantic/South_Georgia", ZZ: "Etc/GMT+2" },
+  "Mid-Atlantic Standard Time": { "001": "Etc/GMT+2", ZZ: "Etc/GMT+2" },
+  "Azores Standard Time": { "001": "Atlantic/Azores", GL: "America/Scoresbysund", PT: "Atlantic/Azores" },
+  "Cape Verde Standard Time": { "001": "Atlantic/Cape_Verde", CV: "Atlantic/Cape_Verde", ZZ: "Etc/GMT+1" },
+  "UTC": { "001": "Etc/UTC", ZZ: "Etc/UTC Etc/GMT" },
+  "GMT Standard Time": { "001": "Europe/London", ES: "Atlantic/Canary", FO: "Atlantic/Faeroe", GB: "Europe/London", GG: "Europe/Guernsey", IE: "Europe/Dublin", IM: "Europe/Isle_of_Man", JE: "Europe/Jersey", PT: "Europe/Lisbon Atlantic/Madeira" },
+  "Greenwich Standard Time": { "001": "Atlantic/Reykjavik", BF: "Africa/Ouagadougou", CI: "Africa/Abidjan", GH: "Africa/Accra", GL: "America/Danmarkshavn", GM: "Africa/Banjul", GN: "Africa/Conakry", GW: "Africa/Bissau", IS: "Atlantic/Reykjavik", LR: "Africa/Monrovia", ML: "Africa/Bamako", MR: "Africa/Nouakchott", SH: "Atlantic/St_Helena", SL: "Africa/Freetown", SN: "Africa/Dakar", TG: "Africa/Lome" },
+  "Sao Tome Standard Time": { "001": "Africa/Sao_Tome", ST: "Africa/Sao_Tome" },
+  "Morocco Standard Time": { "001": "Africa/Casablanca", EH: "Africa/El_Aaiun", MA: "Africa/Casablanca" },
+  "W. Europe Standard Time": { "001": "Europe/Berlin", AD: "Europe/Andorra", AT: "Europe/Vienna", CH: "Europe/Zurich", DE: "Europe/Berlin Europe/Busingen", GI: "Europe/Gibraltar", IT: "Europe/Rome", LI: "Europe/Vaduz", LU: "Europe/Luxembourg", MC: "Europe/Monaco", MT: "Europe/Malta", NL: "Europe/Amsterdam", NO: "Europe/Oslo", SE: "Europe/Stockholm", SJ: "Arctic/Longyearbyen", SM: "Europe/San_Marino", VA: "Europe/Vatican" },
+  "Central Europe Standard Time": { "001": "Europe/Budapest", AL: "Europe/Tirane", CZ: "Europe/Prague", HU: "Europe/Budapest", ME: "Europe/Podgorica", RS: "Europe/Belgrade", SI: "Europe/Ljubljana", SK: "Europe/Bratislava" },
+  "Romance Standard Time": { "001": "Europe/Paris", BE: "Europe/Brussels", DK: "Europe/Copenhagen", ES: "Europe/Madrid Africa/Ceuta", FR: "Europe/Paris" },
+  "Central European Standard Time": { "001": "Europe/Warsaw", BA: "Europe/Sarajevo", HR: "Europe/Zagreb", MK: "Europe/Skopje", PL: "Europe/Warsaw" },
+  "W. Central Africa Standard Time": { "001": "Africa/Lagos", AO: "Africa/Luanda", BJ: "Africa/Porto-Novo", CD: "Africa/Kinshasa", CF: "Africa/Bangui", CG: "Africa/Brazzaville", CM: "Africa/Douala", DZ: "Africa/Algiers", GA: "Africa/Libreville", GQ: "Africa/Malabo", NE: "Africa/Niamey", NG: "Africa/Lagos", TD: "Africa/Ndjamena", TN: "Africa/Tunis", ZZ: "Etc/GMT-1" },
+  "Jordan Standard Time": { "001": "Asia/Amman", JO: "Asia/Amman" },
+  "GTB Standard Time": { "001": "Europe/Bucharest", CY: "Asia/Nicosia Asia/Famagusta", GR: "Europe/Athens", RO: "Europe/Bucharest" },
+  "Middle East Standard Time": { "001": "Asia/Beirut", LB: "Asia/Beirut" },
+  "Egypt Standard Time": { "001": "Africa/Cairo", EG: "Africa/Cairo" },
+  "E. Europe Standard Time": { "001": "Europe/Chisinau", MD: "Europe/Chisinau" },
+  "Syria Standard Time": { "001": "Asia/Damascus", SY: "Asia/Damascus" },
+  "West Bank Standard Time": { "001": "Asia/Hebron", PS: "Asia/Hebron Asia/Gaza" },
+  "South Africa Standard Time": { "001": "Africa/Johannesburg", BI: "Africa/Bujumbura", BW: "Africa/Gaborone", CD: "Africa/Lubumbashi", LS: "Africa/Maseru", MW: "Africa/Blantyre", MZ: "Africa/Maputo", RW: "Africa/Kigali", SZ: "Africa/Mbabane", ZA: "Africa/Johannesburg", ZM: "Africa/Lusaka", ZW: "Africa/Harare", ZZ: "Etc/GMT-2" },
+  "FLE Standard Time": { "001": "Europe/Kiev", AX: "Europe/Mariehamn", BG: "Europe/Sofia", EE: "Europe/Tallinn", FI: "Europe/Helsinki", LT: "Europe/Vilnius", LV: "Europe/Riga", UA: "Europe/Kiev Europe/Uzhgorod Europe/Zaporozhye" },
+  "Israel Standard Time": { "001": "Asia/Jerusalem", IL: "Asia/Jerusalem" },
+  "South Sudan Standard Time": { "001": "Africa/Juba", SS: "Africa/Juba" },
+  "Kaliningrad Standard Time": { "001": "Europe/Kaliningrad", RU: "Europe/Kaliningrad" },
+  "Sudan Standard Time": { "001": "Africa/Khartoum", SD: "Africa/Khartoum" },
+  "Libya Standard Time": { "001": "Africa/Tripoli", LY: "Africa/Tripoli" },
+  "Namibia Standard Time": { "001": "Africa/Windhoek", NA: "Africa/Windhoek" },
+  "Arabic Standard Time": { "001": "Asia/Baghdad", IQ: "Asia/Baghdad" },
+  "Turkey Standard Time": { "001": "Europe/Istanbul", TR: "Europe/Istanbul" },
+  "Arab Standard Time": { "001": "Asia/Riyadh", BH: "Asia/Bahrain", KW: "Asia/Kuwait", QA: "Asia/Qatar", SA: "Asia/Riyadh", YE: "Asia/Aden" },
+  "Belarus Standard Time": { "001": "Europe/Minsk", BY: "Europe/Minsk" },
+  "Russian Standard Time": { "001": "Europe/Moscow", RU: "Europe/Moscow Europe/Kirov", UA: "Europe/Simferopol" },
+  "E. Africa Standard Time": { "001": "Africa/Nairobi", AQ: "Antarctica/Syowa", DJ: "Africa/Djibouti", ER: "Africa/Asmera", ET: "Africa/Addis_Ababa", KE: "Africa/Nairobi", KM: "Indian/Comoro", MG: "Indian/Antananarivo", SO: "Africa/Mogadishu", TZ: "Africa/Dar_es_Salaam", UG: "Africa/Kampala", YT: "Indian/Mayotte", ZZ: "Etc/GMT-3" },
+  "Volgograd Standard Time": { "001": "Europe/Volgograd", RU: "Europe/Volgograd" },
+  "Iran Standard Time": { "001": "Asia/Tehran", IR: "Asia/Tehran" },
+  "Arabian Standard Time": { "001": "Asia/Dubai", AE: "Asia/Dubai", OM: "Asia/Muscat", ZZ: "Etc/GMT-4" },
+  "Astrakhan Standard Time": { "001": "Europe/Astrakhan", RU: "Europe/Astrakhan Europe/Ulyanovsk" },
+  "Azerbaijan Standard Time": { "001": "Asia/Baku", AZ: "Asia/Baku" },
+  "Russia Time Zone 3": { "001": "Europe/Samara", RU: "Europe/Samara" },
+  "Mauritius Standard Time": { "001": "Indian/Mauritius", MU: "Indian/Mauritius", RE: "Indian/Reunion", SC: "Indian/Mahe" },
+  "Saratov Standard Time": { "001": "Europe/Saratov", RU: "Europe/Saratov" },
+  "Georgian Standard Time": { "001": "Asia/Tbilisi", GE: "Asia/Tbilisi" },
+  "Caucasus Standard Time": { "001": "Asia/Yerevan", AM: "Asia/Yerevan" },
+  "Afghanistan Standard Time": { "001": "Asia/Kabul", AF: "Asia/Kabul" },
+  "West Asia Standard Time": { "001": "Asia/Tashkent", AQ: "Antarctica/Mawson", KZ: "Asia/Oral Asia/Aqtau Asia/Aqtobe Asia/Atyrau", MV: "Indian/Maldives", TF: "Indian/Kerguelen", TJ: "Asia/Dushanbe", TM: "Asia/Ashgabat", UZ: "Asia/Tashkent Asia/Samarkand", ZZ: "Etc/GMT-5" },
+  "Qyzylorda Standard Time": { "001": "Asia/Qyzylorda", KZ: "Asia/Qyzylorda" },
+  "Ekaterinburg Standard Time": { "001": "Asia/Yekaterinburg", RU: "Asia/Yekaterinburg" },
+  "Pakistan Standard Time": { "001": "Asia/Karachi", PK: "Asia/Karachi" },
+  "India Standard Time": { "001": "Asia/Calcutta", IN: "Asia/Calcutta" },
+  "Sri Lanka Standard Time": { "001": "Asia/Colombo", LK: "Asia/Colombo" },
+  "Nepal Standard Time": { "001": "Asia/Katmandu", NP: "Asia/Katmandu" },
+  "Central Asia Standard Time": { "001": "Asia/Bishkek", AQ: "Antarctica/Vostok", CN: "Asia/Urumqi", IO: "Indian/Chagos", KG: "Asia/Bishkek", KZ: "Asia/Almaty Asia/Qostanay", ZZ: "Etc/GMT-6" },
+  "Bangladesh Standard Time": { "001": "Asia/Dhaka", BD: "Asia/Dhaka", BT: "Asia/Thimphu" },
+  "Omsk Standard Time": { "001": "Asia/Omsk", RU: "Asia/Omsk" },
+  "Myanmar Standard Time": { "001": "Asia/Rangoon", CC: "Indian/Cocos", MM: "Asia/Rangoon" },
+  "SE Asia Standard Time": { "001": "Asia/Bangkok", AQ: "Antarctica/Davis", CX: "Indian/Christmas", ID: "Asia/Jakarta Asia/Pontianak", KH: "Asia/Phnom_Penh", LA: "Asia/Vientiane", TH: "Asia/Bangkok", VN: "Asia/Saigon", ZZ: "Etc/GMT-7" },
+  "Altai Standard Time": { "001": "Asia/Barnaul", RU: "Asia/Barnaul" },
+  "W. Mongolia Standard Time": { "001": "Asia/Hovd", MN: "Asia/Hovd" },
+  "North Asia Standard Time": { "001": "Asia/Krasnoyarsk", RU: "Asia/Krasnoyarsk Asia/Novokuznetsk" },
+  "N. Central Asia Standard Time": { "001": "Asia/Novosibirsk", RU: "Asia/Novosibirsk" },
+  "Tomsk Standard Time": { "001": "Asia/Tomsk", RU: "Asia/Tomsk" },
+  "China Standard Time": { "001": "Asia/Shanghai", CN: "Asia/Shanghai", HK: "Asia/Hong_Kong", MO: "Asia/Macau" },
+  "North Asia East Standard Time": { "001": "Asia/Irkutsk", RU: "Asia/Irkutsk" },
+  "Singapore Standard Time": { "001": "Asia/Singapore", BN: "Asia/Brunei", ID: "Asia/Makassar", MY: "Asia/Kuala_Lumpur Asia/Kuching", PH: "Asia/Manila", SG: "Asia/Singapore", ZZ: "Etc/GMT-8" },
+  "W. Australia Standard Time": { "001": "Australia/Perth", AU: "Australia/Perth" },
+  "Taipei Standard Time": { "001": "Asia/Taipei", TW: "Asia/Taipei" },
+  "Ulaanbaatar Standard Time": { "001": "Asia/Ulaanbaatar", MN: "Asia/Ulaanbaatar Asia/Choibalsan" },
+  "Aus Central W. Standard Time": { "001": "Australia/Eucla", AU: "Australia/Eucla" },
+  "Transbaikal Standard Time": { "001": "Asia/Chita", RU: "Asia/Chita" },
+  "Tokyo Standard Time": { "001": "Asia/Tokyo", ID: "Asia/Jayapura", JP: "Asia/Tokyo", PW: "Pacific/Palau", TL: "Asia/Dili", ZZ: "Etc/GMT-9" },
+  "North Korea Standard Time": { "001": "Asia/Pyongyang", KP: "Asia/Pyongyang" },
+  "Korea Standard Time": { "001": "Asia/Seoul", KR: "Asia/Seoul" },
+  "Yakutsk Standard Time": { "001": "Asia/Yakutsk", RU: "Asia/Yakutsk Asia/Khandyga" },
+  "Cen. Australia Standard Time": { "001": "Australia/Adelaide", AU: "Australia/Adelaide Australia/Broken_Hill" },
+  "AUS Central Standard Time": { "001": "Australia/Darwin", AU: "Australia/Darwin" },
+  "E. Australia Standard Time": { "001": "Australia/Brisbane", AU: "Australia/Brisbane Australia/Lindeman" },
+  "AUS Eastern Standard Time": { "001": "Australia/Sydney", AU: "Australia/Sydney Australia/Melbourne" },
+  "West Pacific Standard Time": { "001": "Pacific/Port_Moresby", AQ: "Antarctica/DumontDUrville", FM: "Pacific/Truk", GU: "Pacific/Guam", MP: "Pacific/Saipan", PG: "Pacific/Port_Moresby", ZZ: "Etc/GMT-10" },
+  "Tasmania Standard Time": { "001": "Australia/Hobart", AU: "Australia/Hobart Antarctica/Macquarie" },
+  "Vladivostok Standard Time": { "001": "Asia/Vladivostok", RU: "Asia/Vladivostok Asia/Ust-Nera" },
+  "Lord Howe Standard Time": { "001": "Australia/Lord_Howe", AU: "Australia/Lord_Howe" },
+  "Bougainville Standard Time": { "001": "Pacific/Bougainville", PG: "Pacific/Bougainville" },
+  "Russia Time Zone 10": { "001": "Asia/Srednekolymsk", RU: "Asia/Srednekolymsk" },
+  "Magadan Standard Time": { "001": "Asia/Magadan", RU: "Asia/Magadan" },
+  "Norfolk Standard Time": { "001": "Pacific/Norfolk", NF: "Pacific/Norfolk" },
+  "Sakhalin Standard Time": { "001": "Asia/Sakhalin", RU: "Asia/Sakhalin" },
+  "Central Pacific Standard Time": { "001": "Pacific/Guadalcanal", AQ: "Antarctica/Casey", FM: "Pacific/Ponape Pacific/Kosrae", NC: "Pacific/Noumea", SB: "Pacific/Guadalcanal", VU: "Pacific/Efate", ZZ: "Etc/GMT-11" },
+  "Russia Time Zone 11": { "001": "Asia/Kamchatka", RU: "Asia/Kamchatka Asia/Anadyr" },
+  "Kamchatka Standard Time": { "001": "Asia/Kamchatka", RU: "Asia/Kamchatka" },
+  "New Zealand Standard Time": { "001": "Pacific/Auckland", AQ: "Antarctica/McMurdo", NZ: "Pacific/Auckland" },
+  "UTC+12": { "001": "Etc/GMT-12", KI: "Pacific/Tarawa", MH: "Pacific/Majuro Pacific/Kwajalein", NR: "Pacific/Nauru", TV: "Pacific/Funafuti", UM: "Pacific/Wake", WF: "Pacific/Wallis", ZZ: "Etc/GMT-12" },
+  "Fiji Standard Time": { "001": "Pacific/Fiji", FJ: "Pacific/Fiji" },
+  "Chatham Islands Standard Time": { "001": "Pacific/Chatham", NZ: "Pacific/Chatham" },
+  "UTC+13": { "001": "Etc/GMT-13", KI: "Pacific/Enderbury", TK: "Pacific/Fakaofo", ZZ: "Etc/GMT-13" },
+  "Tonga Standard Time": { "001": "Pacific/Tongatapu", TO: "Pacific/Tongatapu" },
+  "Samoa Standard Time": { "001": "Pacific/Apia", WS: "Pacific/Apia" },
+  "Line Islands Standard Time": { "001": "Pacific/Kiritimati", KI: "Pacific/Kiritimati", ZZ: "Etc/GMT-14" },
+};
+
+// Case-insensitive lookup: Outlook is not consistent about capitalisation ("Turks and Caicos")
+const WINDOWS_ZONES_BY_UPPER = new Map<string, Record<string, string>>(
+  Object.entries(WINDOWS_ZONES).map(([name, territories]) => [name.toUpperCase(), territories]),
+);
+
+// Territory whose zone list contains the given IANA zone (e.g. Europe/Zurich -> CH), if any
+const territoryCache = new Map<string, string | undefined>();
+function territoryOf(ianaZone: string): string | undefined {
+  if (territoryCache.has(ianaZone)) return territoryCache.get(ianaZone);
+  let found: string | undefined;
+  for (const territories of Object.values(WINDOWS_ZONES)) {
+    for (const [territory, zones] of Object.entries(territories)) {
+      if (territory === "001" || territory === "ZZ") continue;
+      if (zones.split(" ").includes(ianaZone)) {
+        found = territory;
+        break;
+      }
+    }
+    if (found !== undefined) break;
+  }
+  territoryCache.set(ianaZone, found);
+  return found;
+}
+
+// True if the name is a Windows zone known to the CLDR table
+export function isWindowsZone(name: string): boolean {
+  return WINDOWS_ZONES_BY_UPPER.has(name.trim().toUpperCase());
+}
+
+// Map a Windows timezone identifier to its IANA equivalent.
+// Resolution order for the territory variant:
+// 1) the preferred zone itself, if it is one of this Windows zone's variants (keeps Europe/Zurich for Swiss users)
+// 2) the territory given explicitly (e.g. WINDOWS_TZ_TERRITORY=CH), else the preferred zone's territory
+// 3) the CLDR golden zone ("001")
+// Names that already are IANA zones are returned unchanged; unknown names return undefined.
+export function mapWindowsToIana(windowsTz: string, preferredZone?: string, territory?: string): string | undefined {
+  const name = windowsTz.trim();
+  const territories = WINDOWS_ZONES_BY_UPPER.get(name.toUpperCase());
+  if (territories === undefined) {
+    return IANAZone.isValidZone(name) ? name : undefined;
+  }
+
+  if (typeof preferredZone === "string") {
+    for (const zones of Object.values(territories)) {
+      if (zones.split(" ").includes(preferredZone)) return preferredZone;
+    }
+  }
+
+  const wanted = territory ?? (typeof preferredZone === "string" ? territoryOf(preferredZone) : undefined);
+  const zones = (typeof wanted === "string" ? territories[wanted.toUpperCase()] : undefined) ?? territories["001"];
+  return zones?.split(" ")[0];
+}
@@ -0,0 +1,167 @@
+// xml.ts
+// Small XML reader for WebDAV / CalDAV request bodies (src/caldav.ts), plus escaping for the responses.
+// - Elements, attributes, character data, CDATA; comments and processing instructions are skipped
+// - Element names are resolved to their namespace URI (xmlns / xmlns:prefix declarations)
+// - Only the five predefined entities and character references; DOCTYPE declarations are refused
+// Not a general purpose parser: enough for the PROPFIND and REPORT bodies calendar clients send.
+
+export interface XmlElement {
+  namespace: string; // resolved namespace URI, "" when none
+  name: string; // local name
+  attributes: Map<string, string>; // by local name; namespace declarations left out
+  children: XmlElement[];
+  text: string; // character data directly inside the element
+}
+
+export class XmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XmlError";
+  }
+}
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&([^;&\s]*);/g, (_match, ref: string) => {
+    const code = ref.startsWith("#x") ? parseInt(ref.slice(2), 16) : ref.startsWith("#") ? Number(ref.slice(1)) : undefined;
+    if (code !== undefined) {
+      if (!Number.isInteger(code) || code < 1 || code > 0x10ffff) throw new XmlError(`Invalid character reference &${ref};`);
+      return String.fromCodePoint(code);
+    }
+    const value = ENTITIES[ref];
+    if (value === undefined) throw new XmlError(`Unknown entity &${ref};`);
+    return value;
+  });
+}
+
+// Index of the `>` closing the tag that starts at `start`, skipping quoted attribute values
+function tagEnd(source: string, start: number): number {
+  let quote: string | undefined;
+  for (let i = start + 1; i < source.length; i++) {
+    const ch = source[i];
+    if (quote !== undefined) {
+      if (ch === quote) quote = undefined;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  throw new XmlError("Unterminated tag");
+}
+
+function skipPast(source: string, marker: string, from: number): number {
+  const end = source.indexOf(marker, from);
+  if (end === -1) throw new XmlError(`Missing "${marker}"`);
+  return end + marker.length;
+}
+
+function resolve(qname: string, scope: Map<string, string>): { namespace: string; name: string } {
+  const colon = qname.indexOf(":");
+  if (colon === -1) return { namespace: scope.get("") ?? "", name: qname };
+  const prefix = qname.slice(0, colon);
+  const namespace = scope.get(prefix);
+  if (namespace === undefined) throw new XmlError(`Undeclared namespace prefix "${prefix}"`);
+  return { namespace, name: qname.slice(colon + 1) };
+}
+
+interface OpenElement {
+  element: XmlElement;
+  qname: string;
+  scope: Map<string, string>; // prefix ("" for the default namespace) -> URI
+}
+
+// Parse a document and return its root element. Throws XmlError.
+export function parseXml(source: string): XmlElement {
+  const stack: OpenElement[] = [];
+  let root: XmlElement | undefined;
+  let pos = 0;
+
+  const addText = (text: string): void => {
+    const top = stack[stack.length - 1];
+    if (top !== undefined) top.element.text += text;
+    else if (text.trim().length > 0) throw new XmlError("Text outside the root element");
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf("<", pos);
+    if (lt === -1) {
+      addText(decodeEntities(source.slice(pos)));
+      break;
+    }
+    if (lt > pos) addText(decodeEntities(source.slice(pos, lt)));
+
+    if (source.startsWith("<!--", lt)) {
+      pos = skipPast(source, "-->", lt + 4);
+      continue;
+    }
+    if (source.startsWith("<![CDATA[", lt)) {
+      pos = skipPast(source, "]]>", lt + 9);
+      addText(source.slice(lt + 9, pos - 3));
+      continue;
+    }
+    if (source.startsWith("<?", lt)) {
+      pos = skipPast(source, "?>", lt + 2);
+      continue;
+    }
+    if (source.startsWith("<!", lt)) throw new XmlError("DOCTYPE declarations are not supported");
+
+    const end = tagEnd(source, lt);
+    const tag = source.slice(lt + 1, end);
+    pos = end + 1;
+
+    if (tag.startsWith("/")) {
+      const open = stack.pop();
+      const qname = tag.slice(1).trim();
+      if (open === undefined || open.qname !== qname) throw new XmlError(`Unexpected closing tag </${qname}>`);
+      if (stack.length === 0) root = open.element;
+      continue;
+    }
+
+    if (root !== undefined) throw new XmlError("More than one root element");
+    const selfClosing = tag.endsWith("/");
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const qname = /^[^\s/>]+/.exec(body)?.[0];
+    if (qname === undefined) throw new XmlError("Empty tag");
+
+    const parent = stack[stack.length - 1];
+    const scope = new Map(parent?.scope ?? []);
+    const raw: [string, string][] = [];
+    for (const match of body.slice(qname.length).matchAll(ATTRIBUTE)) {
+      const [, name, doubleQuoted, singleQuoted] = match;
+      const value = decodeEntities(doubleQuoted ?? singleQuoted ?? "");
+      if (name === "xmlns") scope.set("", value);
+      else if (name!.startsWith("xmlns:")) scope.set(name!.slice(6), value);
+      else raw.push([name!, value]);
+    }
+    const attributes = new Map(raw.map(([name, value]) => [name.slice(name.indexOf(":") + 1), value]));
+
+    const element: XmlElement = { ...resolve(qname, scope), attributes, children: [], text: "" };
+    parent?.element.children.push(element);
+    if (selfClosing) {
+      if (parent === undefined) root = element;
+    } else {
+      stack.push({ element, qname, scope });
+    }
+  }
+
+  if (stack.length > 0) throw new XmlError(`Element <${stack[stack.length - 1]!.qname}> is not closed`);
+  if (root === undefined) throw new XmlError("No root element");
+  return root;
+}
+
+// Child elements with this namespace and local name
+export function childElements(element: XmlElement, namespace: string, name: string): XmlElement[] {
+  return element.children.filter((c) => c.namespace === namespace && c.name === name);
+}
+
+export function childElement(element: XmlElement, namespace: string, name: string): XmlElement | undefined {
+  return element.children.find((c) => c.namespace === namespace && c.name === name);
+}
+
+// Escape text for element content and double-quoted attribute values
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
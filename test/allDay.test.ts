@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { IANAZone } from "luxon";
+import { normalizeAllDayEvents } from "../src/allDay.js";
+import { getParam, getProperty, parseCalendar, type IcsComponent } from "../src/ics.js";
+
+const ZONE = "Europe/Zurich";
+
+function resolve(tzid: string): string | undefined {
+  return IANAZone.isValidZone(tzid) ? tzid : undefined;
+}
+
+function normalized(...events: string[][]): IcsComponent {
+  const calendar = parseCalendar(["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR", ""].join("\r\n"));
+  normalizeAllDayEvents(calendar, resolve, ZONE);
+  return calendar;
+}
+
+function dates(event: IcsComponent, ...names: string[]): (string | undefined)[] {
+  return names.map((name) => {
+    const prop = getProperty(event, name);
+    return prop === undefined ? undefined : `${prop.value}${getParam(prop, "VALUE") === "DATE" && getParam(prop, "TZID") === undefined ? " (date)" : ""}`;
+  });
+}
+
+test("converts midnight-to-midnight events in their own zone", () => {
+  const [event] = normalized(["UID:trip", "DTSTART;TZID=Europe/Zurich:20261005T000000", "DTEND;TZID=Europe/Zurich:20261008T000000"]).components;
+  assert.deepEqual(dates(event!, "DTSTART", "DTEND"), ["20261005 (date)", "20261008 (date)"]);
+});
+
+test("converts flagged UTC events that start at midnight in the target zone", () => {
+  const calendar = normalized(["UID:holiday", "DTSTART:20261004T220000Z", "DTEND:20261005T220000Z", "X-MICROSOFT-CDO-ALLDAYEVENT:TRUE"]);
+  assert.deepEqual(dates(calendar.components[0]!, "DTSTART", "DTEND"), ["20261005 (date)", "20261006 (date)"]);
+});
+
+test("leaves UTC midnights without the flag and timed events alone", () => {
+  const calendar = normalized(
+    ["UID:utc", "DTSTART:20261005T000000Z", "DTEND:20261006T000000Z"],
+    ["UID:timed", "DTSTART;TZID=Europe/Zurich:20261005T000000", "DTEND;TZID=Europe/Zurich:20261005T090000"],
+  );
+  assert.deepEqual(dates(calendar.components[0]!, "DTSTART"), ["20261005T000000Z"]);
+  assert.deepEqual(dates(calendar.components[1]!, "DTSTART"), ["20261005T000000"]);
+});
+
+test("replaces DURATION with a DATE DTEND", () => {
+  const [event] = normalized(["UID:dur", "DTSTART;TZID=Europe/Zurich:20261005T000000", "DURATION:P2D", "X-MICROSOFT-CDO-ALLDAYEVENT:TRUE"]).components;
+  assert.deepEqual(dates(event!, "DTSTART", "DTEND", "DURATION"), ["20261005 (date)", "20261007 (date)", undefined]);
+});
+
+test("turns the series' EXDATE, UNTIL and overrides' RECURRENCE-ID into dates", () => {
+  const calendar = normalized(
+    [
+      "UID:series",
+      "DTSTART;TZID=Europe/Zurich:20261005T000000",
+      "DTEND;TZID=Europe/Zurich:20261006T000000",
+      "RRULE:FREQ=DAILY;UNTIL=20261009T220000Z",
+      "EXDATE;TZID=Europe/Zurich:20261007T000000",
+    ],
+    ["UID:series", "RECURRENCE-ID;TZID=Europe/Zurich:20261008T000000", "DTSTART;TZID=Europe/Zurich:20261008T000000", "DTEND;TZID=Europe/Zurich:20261009T000000"],
+  );
+  const [master, override] = calendar.components;
+  assert.deepEqual(dates(master!, "EXDATE", "RRULE"), ["20261007 (date)", "FREQ=DAILY;UNTIL=20261010"]);
+  assert.deepEqual(dates(override!, "RECURRENCE-ID", "DTSTART"), ["20261008 (date)", "20261008 (date)"]);
+});
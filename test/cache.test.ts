@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { configureCache, feedCacheKey, getCacheEntry, setCacheEntry, strongEtag, type CacheEntry } from "../src/cache.js";
+
+const SECRET_URL = "https://outlook.office365.com/owa/calendar/abc/s3cr3t/calendar.ics";
+
+function entry(key: string, body: string): CacheEntry {
+  return { key, source: body, body, etag: strongEtag(body), lastModified: new Date().toUTCString(), upstream: {}, fetchedAt: Date.now() };
+}
+
+test("keys depend on the URL and the options, not their order", () => {
+  assert.equal(feedCacheKey(SECRET_URL, { a: 1, b: 2 }), feedCacheKey(SECRET_URL, { b: 2, a: 1 }));
+  assert.notEqual(feedCacheKey(SECRET_URL, { a: 1 }), feedCacheKey(SECRET_URL, { a: 2 }));
+});
+
+test("persisted entries hold only the hash of their key and are read back", () => {
+  const dir = mkdtempSync(join(tmpdir(), "cache-test-"));
+  try {
+    configureCache({ ttlSeconds: 600, maxEntries: 1, dir });
+    const key = feedCacheKey(SECRET_URL, { targetTz: "Europe/Zurich" });
+    setCacheEntry(entry(key, "BEGIN:VCALENDAR"));
+    const files = readdirSync(dir);
+    assert.equal(files.length, 1);
+    const text = readFileSync(join(dir, files[0]!), "utf8");
+    assert.ok(!text.includes("s3cr3t"));
+    assert.equal((JSON.parse(text) as CacheEntry).key, files[0]!.replace(/\.json$/, ""));
+
+    setCacheEntry(entry(feedCacheKey("https://example.com/other.ics", {}), "other")); // evicts the first from memory
+    const restored = getCacheEntry(key);
+    assert.equal(restored?.key, key);
+    assert.equal(restored?.body, "BEGIN:VCALENDAR");
+    assert.equal(getCacheEntry(feedCacheKey(SECRET_URL, {})), undefined);
+  } finally {
+    configureCache({ ttlSeconds: 600, maxEntries: 100 });
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
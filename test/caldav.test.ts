@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { buildDavCalendar, davTarget, DavError, propfind, report, type DavCalendar } from "../src/caldav.js";
+import { parseCalendar } from "../src/ics.js";
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "PRODID:-//Test//EN",
+  "METHOD:PUBLISH",
+  "BEGIN:VTIMEZONE",
+  "TZID:Europe/Zurich",
+  "END:VTIMEZONE",
+  "BEGIN:VEVENT",
+  "UID:weekly",
+  "DTSTART;TZID=Europe/Zurich:20261005T090000",
+  "RRULE:FREQ=WEEKLY;COUNT=4",
+  "SUMMARY:Standup",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:weekly",
+  "RECURRENCE-ID;TZID=Europe/Zurich:20261012T090000",
+  "DTSTART;TZID=Europe/Zurich:20261012T140000",
+  "SUMMARY:Standup (moved)",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:{lunch}",
+  "DTSTART:20261201T110000Z",
+  "SUMMARY:Lunch",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+function dav(): DavCalendar {
+  return buildDavCalendar(parseCalendar(ICS), "/dav/token/", "Team", '"ctag"', "Europe/Zurich");
+}
+
+function hrefs(xml: string): string[] {
+  return [...xml.matchAll(/<D:response><D:href>([^<]*)<\/D:href>/g)].map((m) => m[1]!);
+}
+
+function query(filter: string): string {
+  return `<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav"><D:prop><D:getetag/></D:prop><C:filter>${filter}</C:filter></C:calendar-query>`;
+}
+
+function rejected(status: number, condition: string): (err: unknown) => boolean {
+  return (err) => err instanceof DavError && err.status === status && err.condition === condition;
+}
+
+test("groups each UID with its overrides and the zones they use, without METHOD", () => {
+  const calendar = dav();
+  const names = [...calendar.objects.keys()];
+  assert.equal(names[0], "weekly.ics");
+  assert.match(names[1]!, /^[0-9a-f]{32}\.ics$/);
+  const weekly = calendar.objects.get("weekly.ics")!;
+  assert.equal(weekly.components.length, 2);
+  assert.ok(weekly.body.includes("BEGIN:VTIMEZONE\r\nTZID:Europe/Zurich\r\n"));
+  assert.ok(!weekly.body.includes("METHOD"));
+  assert.ok(!calendar.objects.get(names[1]!)!.body.includes("VTIMEZONE"));
+});
+
+test("resolves paths below the principal", () => {
+  const calendar = dav();
+  assert.deepEqual(davTarget(calendar, []), { kind: "principal" });
+  assert.deepEqual(davTarget(calendar, ["calendar", ""]), { kind: "calendar" });
+  assert.equal(davTarget(calendar, ["calendar", "weekly.ics"])?.kind, "object");
+  assert.equal(davTarget(calendar, ["calendar", "missing.ics"]), undefined);
+  assert.equal(davTarget(calendar, ["other"]), undefined);
+});
+
+test("PROPFIND Depth 1 on the collection lists every object with its ETag", () => {
+  const calendar = dav();
+  const body = '<D:propfind xmlns:D="DAV:" xmlns:CS="http://calendarserver.org/ns/"><D:prop><D:getetag/><CS:getctag/><D:foo/></D:prop></D:propfind>';
+  const xml = propfind(calendar, { kind: "calendar" }, 1, body);
+  assert.deepEqual(hrefs(xml), ["/dav/token/calendar/", "/dav/token/calendar/weekly.ics", `/dav/token/calendar/${[...calendar.objects.keys()][1]}`]);
+  assert.ok(xml.includes("<CS:getctag>ctag</CS:getctag>"));
+  assert.ok(xml.includes(`<D:getetag>${calendar.objects.get("weekly.ics")!.etag.replace(/"/g, "&quot;")}</D:getetag>`));
+  assert.ok(xml.includes('<D:propstat><D:prop><D:foo/></D:prop><D:status>HTTP/1.1 404 Not Found</D:status></D:propstat>'));
+  assert.deepEqual(hrefs(propfind(calendar, { kind: "calendar" }, 0, "")), ["/dav/token/calendar/"]);
+});
+
+test("PROPFIND refuses bodies that aren't a DAV:propfind", () => {
+  assert.throws(() => propfind(dav(), { kind: "calendar" }, 0, "<propfind/>"), (err) => err instanceof DavError && err.status === 400);
+  assert.throws(() => propfind(dav(), { kind: "calendar" }, 0, "<D:propfind xmlns:D='DAV:'>"), (err) => err instanceof DavError && err.status === 400);
+});
+
+test("calendar-multiget returns the data of known hrefs and 404 for unknown ones", () => {
+  const body = `<C:calendar-multiget xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+    <D:prop><C:calendar-data/></D:prop>
+    <D:href>/dav/token/calendar/weekly.ics</D:href>
+    <D:href>https://proxy.example.com/dav/token/calendar/gone.ics</D:href>
+  </C:calendar-multiget>`;
+  const xml = report(dav(), { kind: "calendar" }, body);
+  assert.deepEqual(hrefs(xml), ["/dav/token/calendar/weekly.ics", "https://proxy.example.com/dav/token/calendar/gone.ics"]);
+  assert.ok(xml.includes("<C:calendar-data>BEGIN:VCALENDAR\r\n"));
+  assert.ok(xml.includes("gone.ics</D:href><D:status>HTTP/1.1 404 Not Found</D:status></D:response>"));
+});
+
+test("calendar-query filters objects by component and time range", () => {
+  const calendar = dav();
+  const all = report(calendar, { kind: "calendar" }, query('<C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT"/></C:comp-filter>'));
+  assert.equal(hrefs(all).length, 2);
+  const december = report(calendar, { kind: "calendar" }, query(
+    '<C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT"><C:time-range start="20261130T000000Z" end="20261231T000000Z"/></C:comp-filter></C:comp-filter>',
+  ));
+  assert.deepEqual(hrefs(december), [`/dav/token/calendar/${[...calendar.objects.keys()][1]}`]);
+});
+
+test("calendar-query refuses filters it can't evaluate", () => {
+  const calendar = dav();
+  const propFilter = '<C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT"><C:prop-filter name="SUMMARY"/></C:comp-filter></C:comp-filter>';
+  assert.throws(() => report(calendar, { kind: "calendar" }, query(propFilter)), rejected(403, "<C:supported-filter/>"));
+  assert.throws(() => report(calendar, { kind: "calendar" }, query('<C:comp-filter name="VEVENT"/>')), rejected(403, "<C:valid-filter/>"));
+  const badRange = '<C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT"><C:time-range start="2026-11-30"/></C:comp-filter></C:comp-filter>';
+  assert.throws(() => report(calendar, { kind: "calendar" }, query(badRange)), rejected(403, "<C:valid-filter/>"));
+  const other = '<D:sync-collection xmlns:D="DAV:"/>';
+  assert.throws(() => report(calendar, { kind: "calendar" }, other), rejected(403, "<D:supported-report/>"));
+});
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { DateTime } from "luxon";
+import { changesSince, clearChanges, diffSnapshots, recordChanges, takeSnapshot, type Snapshot } from "../src/changes.js";
+import { parseCalendar } from "../src/ics.js";
+
+const ZONE = "Europe/Zurich";
+
+function snapshot(...events: string[]): Snapshot {
+  return takeSnapshot(parseCalendar(`BEGIN:VCALENDAR\nVERSION:2.0\n${events.join("\n")}\nEND:VCALENDAR\n`), ZONE);
+}
+
+function event(uid: string, lines: string[]): string {
+  return ["BEGIN:VEVENT", `UID:${uid}`, ...lines, "END:VEVENT"].join("\n");
+}
+
+const REVIEW = ["DTSTART;TZID=Europe/Zurich:20261021T140000", "DTEND;TZID=Europe/Zurich:20261021T150000", "SUMMARY:Review", "LOCATION:Room 1"];
+const SERIES = ["DTSTART;TZID=Europe/Zurich:20261005T090000", "DTEND;TZID=Europe/Zurich:20261005T093000", "RRULE:FREQ=WEEKLY;COUNT=4", "SUMMARY:Standup"];
+const MOVED = ["RECURRENCE-ID;TZID=Europe/Zurich:20261012T090000", "DTSTART;TZID=Europe/Zurich:20261012T100000", "DTEND;TZID=Europe/Zurich:20261012T103000", "SUMMARY:Standup"];
+
+afterEach(() => clearChanges("test"));
+
+test("no changes between identical snapshots", () => {
+  assert.deepEqual(diffSnapshots(snapshot(event("a", REVIEW)), snapshot(event("a", REVIEW))), []);
+});
+
+test("reports added and removed events", () => {
+  const changes = diffSnapshots(snapshot(event("a", REVIEW)), snapshot(event("b", REVIEW)));
+  assert.deepEqual(changes.map((c) => [c.type, c.uid]), [["added", "b"], ["removed", "a"]]);
+  assert.equal(changes[0]?.before, null);
+  assert.equal(changes[1]?.after, null);
+});
+
+test("one edit can be rescheduled, retitled and moved at once", () => {
+  const edited = ["DTSTART;TZID=Europe/Zurich:20261021T150000", "DTEND;TZID=Europe/Zurich:20261021T160000", "SUMMARY:Design review", "LOCATION:Room 2"];
+  const changes = diffSnapshots(snapshot(event("a", REVIEW)), snapshot(event("a", edited)));
+  assert.deepEqual(changes.map((c) => c.type), ["rescheduled", "retitled", "location-changed"]);
+  assert.equal(changes[0]?.before?.start, "2026-10-21T14:00:00+02:00");
+  assert.equal(changes[0]?.after?.start, "2026-10-21T15:00:00+02:00");
+});
+
+test("a changed recurrence rule is a reschedule", () => {
+  const longer = SERIES.map((l) => l.replace("COUNT=4", "COUNT=8"));
+  const changes = diffSnapshots(snapshot(event("s", SERIES)), snapshot(event("s", longer)));
+  assert.deepEqual(changes.map((c) => [c.type, c.after?.recurrence]), [["rescheduled", "FREQ=WEEKLY;COUNT=8"]]);
+});
+
+test("a cancelled event counts as removed", () => {
+  const changes = diffSnapshots(snapshot(event("a", REVIEW)), snapshot(event("a", [...REVIEW, "STATUS:CANCELLED"])));
+  assert.deepEqual(changes.map((c) => c.type), ["removed"]);
+});
+
+test("tracks moved occurrences on their own", () => {
+  const changes = diffSnapshots(snapshot(event("s", SERIES)), snapshot(event("s", SERIES), event("s", MOVED)));
+  assert.deepEqual(changes.map((c) => [c.type, c.recurrenceId]), [["added", "2026-10-12T09:00:00+02:00"]]);
+});
+
+test("an occurrence newly excluded by EXDATE is removed", () => {
+  const excluded = [...SERIES, "EXDATE;TZID=Europe/Zurich:20261019T090000"];
+  const changes = diffSnapshots(snapshot(event("s", SERIES)), snapshot(event("s", excluded)));
+  assert.deepEqual(changes.map((c) => [c.type, c.recurrenceId, c.before?.start]), [["removed", "2026-10-19T09:00:00+02:00", "2026-10-19T09:00:00+02:00"]]);
+  assert.deepEqual(diffSnapshots(snapshot(event("s", excluded)), snapshot(event("s", excluded))), []);
+});
+
+test("a moved occurrence that becomes an EXDATE is reported once", () => {
+  const excluded = [...SERIES, "EXDATE;TZID=Europe/Zurich:20261012T090000"];
+  const changes = diffSnapshots(snapshot(event("s", SERIES), event("s", MOVED)), snapshot(event("s", excluded)));
+  assert.deepEqual(changes.map((c) => [c.type, c.recurrenceId]), [["removed", "2026-10-12T09:00:00+02:00"]]);
+  assert.equal(changes[0]?.before?.start, "2026-10-12T10:00:00+02:00");
+});
+
+test("all-day events are compared by date", () => {
+  const allDay = ["DTSTART;VALUE=DATE:20261023", "DTEND;VALUE=DATE:20261024", "SUMMARY:Conference"];
+  const twoDays = ["DTSTART;VALUE=DATE:20261023", "DTEND;VALUE=DATE:20261025", "SUMMARY:Conference"];
+  const changes = diffSnapshots(snapshot(event("c", allDay)), snapshot(event("c", twoDays)));
+  assert.deepEqual(changes.map((c) => [c.type, c.before?.end, c.after?.end, c.after?.allDay]), [["rescheduled", "2026-10-24", "2026-10-25", true]]);
+});
+
+test("history numbers changes and answers since an ID or an instant", () => {
+  const drafts = diffSnapshots(snapshot(event("a", REVIEW)), snapshot(event("b", REVIEW)));
+  const first = recordChanges("test", drafts, new Date("2026-10-19T08:00:00Z"));
+  const second = recordChanges("test", drafts.slice(0, 1), new Date("2026-10-19T09:00:00Z"));
+  assert.deepEqual([...first, ...second].map((c) => c.id), [1, 2, 3]);
+  assert.deepEqual(changesSince("test", 2).map((c) => c.id), [3]);
+  assert.deepEqual(changesSince("test", DateTime.fromISO("2026-10-19T10:30:00+02:00")).map((c) => c.id), [3]);
+  assert.equal(changesSince("test").length, 3);
+  assert.deepEqual(changesSince("unknown"), []);
+});
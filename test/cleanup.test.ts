@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { cleanupEvent, htmlToText, stripBoilerplate } from "../src/cleanup.js";
+import { getParam, getProperty, getText, parseCalendar, type IcsComponent } from "../src/ics.js";
+
+const TEAMS_LINK = "https://teams.microsoft.com/l/meetup-join/19%3ameeting_abc%40thread.v2/0";
+const RULE = "________________________________________________________________________________";
+
+const TEAMS_INVITATION = [
+  "Agenda: budget",
+  "",
+  RULE,
+  "Microsoft Teams meeting",
+  "Join on your computer, mobile app or room device",
+  `Click here to join the meeting<${TEAMS_LINK}>`,
+  "Meeting ID: 123 456 789",
+  RULE,
+  "Call in (audio only)",
+  "+41 44 000 00 00",
+  RULE,
+].join("\n");
+
+function event(...lines: string[]): IcsComponent {
+  const calendar = parseCalendar(["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VEVENT", "UID:meeting", ...lines, "END:VEVENT", "END:VCALENDAR", ""].join("\r\n"));
+  return calendar.components[0]!;
+}
+
+function escape(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/,/g, "\\,").replace(/;/g, "\\;").replace(/\n/g, "\\n");
+}
+
+test("turns HTML into readable text", () => {
+  const html = '<html><head><style>p{}</style></head><body><p>Hi&nbsp;all</p><ul><li>One</li><li>Two &amp; three</li></ul><a href="https://example.com/doc">the doc</a></body></html>';
+  assert.equal(htmlToText(html), "Hi all\n\n- One\n- Two & three\nthe doc (https://example.com/doc)");
+});
+
+test("removes Teams invitation blocks including the dial-in sections", () => {
+  assert.equal(stripBoilerplate(TEAMS_INVITATION), "Agenda: budget");
+});
+
+test("keeps the text after the invitation block", () => {
+  assert.equal(stripBoilerplate(`${TEAMS_INVITATION}\nNotes from last week\n${RULE}\nAction items`), `Agenda: budget\n\nNotes from last week\n${RULE}\nAction items`);
+  const single = ["Agenda", RULE, "Microsoft Teams meeting", `Join: ${TEAMS_LINK}`, RULE, "Bring the slides"].join("\n");
+  assert.equal(stripBoilerplate(single), "Agenda\nBring the slides");
+});
+
+test("removes Zoom invitations up to the end", () => {
+  const text = ["See you there", "", "Join Zoom Meeting", "https://example.zoom.us/j/123456789", "Meeting ID: 123 456 789"].join("\n");
+  assert.equal(stripBoilerplate(text), "See you there");
+});
+
+test("leaves descriptions without invitations alone", () => {
+  assert.equal(stripBoilerplate(`Notes\n${RULE}\nMore notes`), `Notes\n${RULE}\nMore notes`);
+});
+
+test("collapses the invitation into a join line and publishes the link", () => {
+  const e = event(`DESCRIPTION:${escape(TEAMS_INVITATION)}`, "LOCATION:Microsoft Teams Meeting");
+  cleanupEvent(e, { joinLocation: true });
+  assert.equal(getText(e, "DESCRIPTION"), `Agenda: budget\n\nJoin Microsoft Teams meeting: ${TEAMS_LINK}`);
+  assert.equal(getProperty(e, "URL")?.value, TEAMS_LINK);
+  assert.equal(getProperty(e, "CONFERENCE")?.value, TEAMS_LINK);
+  assert.equal(getParam(getProperty(e, "CONFERENCE")!, "LABEL"), "Microsoft Teams");
+  assert.equal(getText(e, "LOCATION"), TEAMS_LINK);
+});
+
+test("derives the description from X-ALT-DESC when the plain one is empty", () => {
+  const e = event("DESCRIPTION:\\n", "X-ALT-DESC;FMTTYPE=text/html:<p>Quarterly <b>review</b></p>");
+  cleanupEvent(e, { joinLocation: false });
+  assert.equal(getText(e, "DESCRIPTION"), "Quarterly review");
+  assert.equal(getProperty(e, "X-ALT-DESC"), undefined);
+  assert.equal(getProperty(e, "URL"), undefined);
+});
+
+test("appends the link to a real location", () => {
+  const e = event("X-MICROSOFT-SKYPETEAMSMEETINGURL:" + TEAMS_LINK, "LOCATION:Room 4");
+  cleanupEvent(e, { joinLocation: true });
+  assert.equal(getText(e, "LOCATION"), `Room 4; ${TEAMS_LINK}`);
+});
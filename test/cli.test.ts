@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { test } from "node:test";
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "UID:utc",
+  "SUMMARY:Review",
+  "DTSTART:20260115T080000Z",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+// Run cli.ts with stdin, without the server's environment defaults leaking in
+function cli(args: string[], input = ICS): { status: number | null; stdout: string; stderr: string } {
+  const result = spawnSync(process.execPath, ["--no-warnings", "--loader", "ts-node/esm", "cli.ts", ...args], {
+    input,
+    encoding: "utf8",
+    env: { PATH: process.env.PATH ?? "" },
+    timeout: 60_000,
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+test("transforms stdin to stdout", () => {
+  const { status, stdout } = cli(["--tz", "Europe/London", "--client", "google"]);
+  assert.equal(status, 0);
+  assert.ok(stdout.includes("DTSTART;TZID=Europe/London:20260115T080000\r\n"));
+  assert.ok(stdout.includes("BEGIN:VTIMEZONE\r\nTZID:Europe/London\r\n"));
+});
+
+test("prints the report with --explain", () => {
+  const { status, stdout } = cli(["--explain", "--tz", "Europe/Zurich"]);
+  assert.equal(status, 0);
+  assert.match(stdout, /^1 event\(s\) in, 1 out/);
+  assert.ok(stdout.includes("-> 20260115T090000 (Europe/Zurich) = 2026-01-15T08:00:00Z"));
+});
+
+test("exits 2 on invalid options and 1 on input that isn't a calendar", () => {
+  const invalid = cli(["--privacy", "secret"]);
+  assert.equal(invalid.status, 2);
+  assert.match(invalid.stderr, /^--privacy must be one of full, titles, freebusy\n/);
+  assert.equal(cli(["--bogus"]).status, 2);
+  const notCalendar = cli([], "<html></html>");
+  assert.equal(notCalendar.status, 1);
+  assert.match(notCalendar.stderr, /^stdin: /);
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { applyCalendarProperties, clientProfile } from "../src/clientProfile.js";
+import { getParam, getProperty, parseCalendar, type IcsComponent } from "../src/ics.js";
+import { transformIcs, type TransformOptions } from "../src/transform.js";
+
+const SOURCE_PRODID = "-//Microsoft Corporation//Outlook 16.0 MIMEDIR//EN";
+
+function source(): IcsComponent {
+  return parseCalendar(`BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:${SOURCE_PRODID}\r\nEND:VCALENDAR\r\n`);
+}
+
+function values(calendar: IcsComponent): Record<string, string> {
+  return Object.fromEntries(calendar.properties.map((p) => [p.name, p.value]));
+}
+
+const INFO = { name: "Team", timeZone: "Europe/Zurich", refreshMinutes: 15 };
+
+test("defaults to the google profile", () => {
+  assert.equal(clientProfile(undefined), clientProfile("google"));
+});
+
+test("google replaces PRODID and names the calendar", () => {
+  const calendar = source();
+  applyCalendarProperties(calendar, clientProfile("google"), INFO);
+  assert.deepEqual(values(calendar), {
+    VERSION: "2.0",
+    PRODID: "-//Google Inc//Google Calendar 70.9054//EN",
+    "X-WR-CALNAME": "Team",
+    NAME: "Team",
+  });
+});
+
+test("apple adds the zone hint and refresh intervals", () => {
+  const calendar = source();
+  applyCalendarProperties(calendar, clientProfile("apple"), INFO);
+  assert.equal(getProperty(calendar, "X-WR-TIMEZONE")?.value, "Europe/Zurich");
+  assert.equal(getProperty(calendar, "REFRESH-INTERVAL")?.value, "PT15M");
+  assert.equal(getParam(getProperty(calendar, "REFRESH-INTERVAL")!, "VALUE"), "DURATION");
+  assert.equal(getProperty(calendar, "X-PUBLISHED-TTL")?.value, "PT15M");
+});
+
+test("outlook keeps the source PRODID; generic adds nothing but PRODID", () => {
+  const outlook = source();
+  applyCalendarProperties(outlook, clientProfile("outlook"), INFO);
+  assert.equal(getProperty(outlook, "PRODID")?.value, SOURCE_PRODID);
+
+  const generic = source();
+  applyCalendarProperties(generic, clientProfile("generic"), INFO);
+  assert.deepEqual(values(generic), { VERSION: "2.0", PRODID: "-//Outlook ICS Proxy//EN" });
+});
+
+test("profiles that keep UTC leave UTC times alone", () => {
+  const ics = "BEGIN:VCALENDAR\r\nVERSION:2.0\r\nBEGIN:VEVENT\r\nUID:utc\r\nDTSTART:20260115T080000Z\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n";
+  const opts: TransformOptions = { targetTz: "Europe/Zurich", overrideExistingTz: true, tzMode: "convert" };
+  const dtstart = (options: TransformOptions) => {
+    const calendar = parseCalendar(transformIcs(ics, options));
+    return getProperty(calendar.components.find((c) => c.name === "VEVENT")!, "DTSTART")?.value;
+  };
+  assert.equal(dtstart(opts), "20260115T090000");
+  assert.equal(dtstart({ ...opts, client: "apple" }), "20260115T080000Z");
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DateTime } from "luxon";
+import { EventRangeError, listEvents, parseEventRange } from "../src/events.js";
+import { parseCalendar, type IcsComponent } from "../src/ics.js";
+
+const ZONE = "Europe/Zurich";
+const NOW = DateTime.fromISO("2026-10-10T12:00:00", { zone: ZONE });
+
+function calendar(...events: string[][]): IcsComponent {
+  return parseCalendar(["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR", ""].join("\r\n"));
+}
+
+test("defaults to today and the next 30 days", () => {
+  const range = parseEventRange(undefined, undefined, ZONE, NOW);
+  assert.equal(range.from.toISO(), "2026-10-10T00:00:00.000+02:00");
+  assert.equal(range.to.toISO(), "2026-11-09T00:00:00.000+01:00");
+});
+
+test("reads dates without offset in the zone and rejects bad ranges", () => {
+  const range = parseEventRange("2026-10-01", "2026-10-02T12:00:00Z", ZONE, NOW);
+  assert.equal(range.from.toISO(), "2026-10-01T00:00:00.000+02:00");
+  assert.equal(range.to.toUTC().toISO(), "2026-10-02T12:00:00.000Z");
+  assert.throws(() => parseEventRange("yesterday", undefined, ZONE, NOW), EventRangeError);
+  assert.throws(() => parseEventRange("2026-10-02", "2026-10-01", ZONE, NOW), EventRangeError);
+  assert.throws(() => parseEventRange("2026-01-01", "2027-06-01", ZONE, NOW), EventRangeError);
+});
+
+test("lists timed and all-day events in start order with people reduced to name and email", () => {
+  const cal = calendar(
+    [
+      "UID:review",
+      "DTSTART;TZID=Europe/Zurich:20261012T090000",
+      "DTEND;TZID=Europe/Zurich:20261012T100000",
+      "SUMMARY:Review\\, part 2",
+      "LOCATION:Room 4",
+      "ORGANIZER;CN=Ann:mailto:ann@example.com",
+      "ATTENDEE;CN=Bob;ROLE=OPT-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:bob@example.com",
+      "X-MICROSOFT-CDO-BUSYSTATUS:TENTATIVE",
+    ],
+    ["UID:holiday", "DTSTART;VALUE=DATE:20261011", "DTEND;VALUE=DATE:20261012", "SUMMARY:Holiday", "TRANSP:TRANSPARENT"],
+  );
+  const events = listEvents(cal, parseEventRange("2026-10-10", "2026-10-20", ZONE, NOW), ZONE);
+  assert.deepEqual(events, [
+    {
+      uid: "holiday",
+      title: "Holiday",
+      start: "2026-10-11",
+      end: "2026-10-12",
+      timeZone: null,
+      allDay: true,
+      location: null,
+      organizer: null,
+      attendees: [],
+      busyStatus: "FREE",
+    },
+    {
+      uid: "review",
+      title: "Review, part 2",
+      start: "2026-10-12T09:00:00+02:00",
+      end: "2026-10-12T10:00:00+02:00",
+      timeZone: "Europe/Zurich",
+      allDay: false,
+      location: "Room 4",
+      organizer: { name: "Ann", email: "ann@example.com" },
+      attendees: [{ name: "Bob", email: "bob@example.com", role: "OPT-PARTICIPANT", status: "ACCEPTED" }],
+      busyStatus: "TENTATIVE",
+    },
+  ]);
+});
+
+test("expands series into the range and skips events outside it", () => {
+  const cal = calendar(
+    ["UID:daily", "DTSTART;TZID=Europe/Zurich:20261001T090000", "RRULE:FREQ=DAILY", "SUMMARY:Standup"],
+    ["UID:old", "DTSTART:20260101T090000Z", "SUMMARY:Old"],
+  );
+  const events = listEvents(cal, parseEventRange("2026-10-24", "2026-10-27", ZONE, NOW), ZONE);
+  assert.deepEqual(events.map((e) => e.start), ["2026-10-24T09:00:00+02:00", "2026-10-25T09:00:00+01:00", "2026-10-26T09:00:00+01:00"]);
+  assert.ok(events.every((e) => e.uid.startsWith("daily-")));
+});
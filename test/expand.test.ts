@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DateTime } from "luxon";
+import { expandCalendar, expandWindow } from "../src/expand.js";
+import { getProperty, parseCalendar, type IcsComponent } from "../src/ics.js";
+
+const ZONE = "Europe/Zurich";
+const NOW = DateTime.fromISO("2026-10-10T12:00:00", { zone: ZONE });
+
+function calendar(...events: string[][]): IcsComponent {
+  return parseCalendar(["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR", ""].join("\r\n"));
+}
+
+function instances(cal: IcsComponent): string[][] {
+  return cal.components
+    .filter((c) => c.name === "VEVENT")
+    .map((e) => [getProperty(e, "UID")?.value ?? "", getProperty(e, "DTSTART")?.value ?? "", getProperty(e, "SUMMARY")?.value ?? ""]);
+}
+
+const WEEKLY = ["UID:weekly", "DTSTART;TZID=Europe/Zurich:20261005T090000", "DTEND;TZID=Europe/Zurich:20261005T093000", "RRULE:FREQ=WEEKLY;COUNT=4", "SUMMARY:Standup"];
+
+test("falls back to the default window without a filter", () => {
+  assert.deepEqual(expandWindow(undefined), { pastDays: 30, futureDays: 365 });
+  assert.deepEqual(expandWindow({ pastDays: 7 }), { pastDays: 7, futureDays: 365 });
+});
+
+test("replaces a series with one event per instance", () => {
+  const cal = calendar(WEEKLY);
+  expandCalendar(cal, { pastDays: 30, futureDays: 30 }, ZONE, NOW);
+  assert.deepEqual(instances(cal), [
+    ["weekly-20261005T070000Z", "20261005T090000", "Standup"],
+    ["weekly-20261012T070000Z", "20261012T090000", "Standup"],
+    ["weekly-20261019T070000Z", "20261019T090000", "Standup"],
+    ["weekly-20261026T080000Z", "20261026T090000", "Standup"],
+  ]);
+  assert.ok(cal.components.every((e) => getProperty(e, "RRULE") === undefined));
+});
+
+test("uses overrides in place of their instance and drops cancelled ones", () => {
+  const cal = calendar(
+    WEEKLY,
+    ["UID:weekly", "RECURRENCE-ID;TZID=Europe/Zurich:20261012T090000", "DTSTART;TZID=Europe/Zurich:20261012T140000", "SUMMARY:Standup (moved)"],
+    ["UID:weekly", "RECURRENCE-ID;TZID=Europe/Zurich:20261019T090000", "DTSTART;TZID=Europe/Zurich:20261019T090000", "STATUS:CANCELLED"],
+  );
+  expandCalendar(cal, { pastDays: 30, futureDays: 30 }, ZONE, NOW);
+  assert.deepEqual(instances(cal), [
+    ["weekly-20261005T070000Z", "20261005T090000", "Standup"],
+    ["weekly-20261012T070000Z", "20261012T140000", "Standup (moved)"],
+    ["weekly-20261026T080000Z", "20261026T090000", "Standup"],
+  ]);
+  assert.ok(cal.components.every((e) => getProperty(e, "RECURRENCE-ID") === undefined));
+});
+
+test("emits only instances and single events inside the window", () => {
+  const cal = calendar(WEEKLY, ["UID:old", "DTSTART:20260101T090000Z", "SUMMARY:Old"], ["UID:soon", "DTSTART:20261011T090000Z", "SUMMARY:Soon"]);
+  expandCalendar(cal, { pastDays: 1, futureDays: 10 }, ZONE, NOW);
+  assert.deepEqual(instances(cal).map(([uid]) => uid), ["weekly-20261012T070000Z", "weekly-20261019T070000Z", "soon"]);
+});
+
+test("keeps series it can't evaluate as they are", () => {
+  const cal = calendar(["UID:hourly", "DTSTART:20261010T090000Z", "RRULE:FREQ=HOURLY", "SUMMARY:Ping"]);
+  expandCalendar(cal, { pastDays: 30, futureDays: 30 }, ZONE, NOW);
+  assert.deepEqual(instances(cal), [["hourly", "20261010T090000Z", "Ping"]]);
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { explainTransform } from "../src/explain.js";
+import { parseEventFilter } from "../src/filter.js";
+import { transformIcs, type TransformOptions } from "../src/transform.js";
+
+const OPTS: TransformOptions = { targetTz: "Europe/Zurich", overrideExistingTz: true, tzMode: "convert" };
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "PRODID:-//Microsoft Corporation//Outlook 16.0 MIMEDIR//EN",
+  "BEGIN:VEVENT",
+  "UID:win",
+  "DTSTART;TZID=Eastern Standard Time:20260115T090000",
+  "SUMMARY:Review",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:lunch",
+  "DTSTART;TZID=Europe/Zurich:20260115T120000",
+  "SUMMARY:Lunch",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+test("returns the same output as transformIcs", () => {
+  assert.equal(explainTransform(ICS, OPTS).output, transformIcs(ICS, OPTS));
+});
+
+test("explains how each time was read and rewritten", () => {
+  const { report } = explainTransform(ICS, OPTS);
+  assert.match(report, /^2 event\(s\) in, 2 out: 1 rewritten, 1 unchanged, 0 dropped or expanded\n/);
+  assert.match(report, /Target zone: Europe\/Zurich \(tzmode=convert, override=1\)/);
+  assert.ok(report.includes('    DTSTART: 20260115T090000 (Windows zone "Eastern Standard Time" mapped to America/New_York) = 2026-01-15T14:00:00Z'));
+  assert.ok(report.includes("      -> 20260115T150000 (Europe/Zurich) = 2026-01-15T14:00:00Z"));
+  assert.ok(report.includes("    - DTSTART;TZID=Eastern Standard Time:20260115T090000\n    + DTSTART;TZID=Europe/Zurich:20260115T150000"));
+  assert.ok(!report.includes("instant moved"));
+});
+
+test("describes floating times and zones it can't resolve", () => {
+  const floating = ICS.replace("DTSTART;TZID=Europe/Zurich:20260115T120000", "DTSTART:20260115T120000");
+  assert.ok(explainTransform(floating, { ...OPTS, targetTz: "Europe/London" }).report.includes("floating, read as Europe/London"));
+  const unknown = ICS.replace("TZID=Eastern Standard Time", "TZID=Nowhere Time");
+  assert.ok(explainTransform(unknown, OPTS).report.includes('(unknown zone "Nowhere Time")\n      -> 20260115T090000 (unknown zone "Nowhere Time")\n      ! zone not resolved: left as published'));
+});
+
+test("names the stage that dropped an event", () => {
+  const { report } = explainTransform(ICS, { ...OPTS, filter: parseEventFilter({ exclude: "lunch" })! });
+  assert.ok(report.includes('VEVENT 2: "Lunch"\n  UID: lunch\n  dropped: did not pass the filter'));
+});
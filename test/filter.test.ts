@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DateTime } from "luxon";
+import { eventPredicate, filterEvents, FilterError, parseEventFilter, withoutWindow } from "../src/filter.js";
+import { getProperties, getProperty, parseCalendar, type IcsComponent } from "../src/ics.js";
+import { dropEvents } from "../src/recurrence.js";
+
+const ZONE = "Europe/Zurich";
+
+// A weekly series with a moved occurrence, a daily series with an edited one, and a single event
+const CALENDAR = `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//Test//EN
+BEGIN:VEVENT
+UID:weekly
+DTSTART;TZID=Europe/Zurich:20261005T090000
+DTEND;TZID=Europe/Zurich:20261005T093000
+RRULE:FREQ=WEEKLY;COUNT=4
+SUMMARY:Standup
+END:VEVENT
+BEGIN:VEVENT
+UID:weekly
+RECURRENCE-ID;TZID=Europe/Zurich:20261012T090000
+DTSTART;TZID=Europe/Zurich:20261012T140000
+DTEND;TZID=Europe/Zurich:20261012T143000
+SUMMARY:Standup with the board
+X-MICROSOFT-CDO-BUSYSTATUS:OOF
+END:VEVENT
+BEGIN:VEVENT
+UID:daily
+DTSTART;VALUE=DATE:20261005
+DTEND;VALUE=DATE:20261006
+RRULE:FREQ=DAILY;COUNT=3
+SUMMARY:Offsite
+CATEGORIES:Travel
+END:VEVENT
+BEGIN:VEVENT
+UID:daily
+RECURRENCE-ID;VALUE=DATE:20261006
+DTSTART;VALUE=DATE:20261006
+DTEND;VALUE=DATE:20261007
+SUMMARY:Offsite (day 2)
+CATEGORIES:Travel
+END:VEVENT
+BEGIN:VEVENT
+UID:single
+DTSTART:20261007T120000Z
+DTEND:20261007T130000Z
+SUMMARY:Lunch
+TRANSP:TRANSPARENT
+END:VEVENT
+END:VCALENDAR
+`;
+
+function events(calendar: IcsComponent): IcsComponent[] {
+  return calendar.components.filter((c) => c.name === "VEVENT");
+}
+
+function find(calendar: IcsComponent, uid: string, override = false): IcsComponent | undefined {
+  return events(calendar).find((e) => getProperty(e, "UID")?.value === uid && (getProperty(e, "RECURRENCE-ID") !== undefined) === override);
+}
+
+function exdates(event: IcsComponent | undefined): string[] {
+  return event !== undefined ? getProperties(event, "EXDATE").map((p) => p.value) : [];
+}
+
+test("parses filter options and rejects invalid ones", () => {
+  assert.equal(parseEventFilter({}), undefined);
+  assert.deepEqual(parseEventFilter({ past: "2w", future: "1y", busy: "busy, oof", categories: ["a,b", "c"] }), {
+    pastDays: 14,
+    futureDays: 365,
+    categories: ["a", "b", "c"],
+    busyStatus: ["BUSY", "OOF"],
+  });
+  assert.throws(() => parseEventFilter({ past: "soon" }), FilterError);
+  assert.throws(() => parseEventFilter({ include: "(" }), FilterError);
+  assert.throws(() => parseEventFilter({ busy: "maybe" }), FilterError);
+});
+
+test("refuses patterns that can backtrack exponentially", () => {
+  for (const pattern of ["(a+)+$", "(x*y?)*", "((ab)+c)+", "(a|ab)*", "(?:\\w{2,})+", "(a+){2,}"]) {
+    assert.throws(() => parseEventFilter({ exclude: pattern }), /repeats a group/, pattern);
+  }
+  for (const pattern of ["^standup|review$", "(sync|standup)", "(team )?standup+", "[(a+)]+", "\\(a+\\)+", "(ab){3}"]) {
+    assert.ok(parseEventFilter({ include: pattern }), pattern);
+  }
+});
+
+test("matches text, categories and busy status", () => {
+  const calendar = parseCalendar(CALENDAR);
+  const keep = (input: Parameters<typeof parseEventFilter>[0]) => {
+    const predicate = eventPredicate(parseEventFilter(input)!, ZONE);
+    return events(calendar).filter(predicate).map((e) => getProperty(e, "SUMMARY")?.value);
+  };
+  assert.deepEqual(keep({ include: "^standup" }), ["Standup", "Standup with the board"]);
+  assert.deepEqual(keep({ exclude: "board|lunch" }), ["Standup", "Offsite", "Offsite (day 2)"]);
+  assert.deepEqual(keep({ categories: "travel" }), ["Offsite", "Offsite (day 2)"]);
+  assert.deepEqual(keep({ busy: "FREE" }), ["Lunch"]);
+});
+
+test("keeps series with any occurrence inside the window", () => {
+  const calendar = parseCalendar(CALENDAR);
+  const now = DateTime.fromISO("2026-10-25T12:00:00", { zone: ZONE });
+  const predicate = eventPredicate(parseEventFilter({ past: "1w" })!, ZONE, now);
+  // The weekly series runs until 26 Oct; the rest ended before 18 Oct
+  assert.deepEqual(events(calendar).filter(predicate).map((e) => getProperty(e, "SUMMARY")?.value), ["Standup"]);
+});
+
+test("a filtered occurrence becomes an EXDATE instead of falling back to the series", () => {
+  const calendar = parseCalendar(CALENDAR);
+  filterEvents(calendar, parseEventFilter({ busy: "BUSY,FREE" })!, ZONE);
+  assert.equal(find(calendar, "weekly", true), undefined);
+  assert.deepEqual(exdates(find(calendar, "weekly")), ["20261012T090000"]);
+  assert.equal(getProperties(find(calendar, "weekly")!, "EXDATE")[0]?.params[0]?.values[0], ZONE);
+});
+
+test("a filtered series takes its occurrences along", () => {
+  const calendar = parseCalendar(CALENDAR);
+  filterEvents(calendar, parseEventFilter({ exclude: "^standup$|^offsite$" })!, ZONE);
+  // "Standup with the board" and "Offsite (day 2)" pass on their own, but their series are gone
+  assert.deepEqual(events(calendar).map((e) => getProperty(e, "UID")?.value), ["single"]);
+});
+
+test("dropEvents keeps all-day EXDATEs as dates and leaves other events alone", () => {
+  const calendar = parseCalendar(CALENDAR);
+  dropEvents(calendar, new Set([find(calendar, "daily", true)!]));
+  const master = find(calendar, "daily");
+  assert.deepEqual(exdates(master), ["20261006"]);
+  assert.equal(getProperties(master!, "EXDATE")[0]?.params[0]?.values[0], "DATE");
+  assert.equal(events(calendar).length, 4);
+});
+
+test("dropping a series and its occurrence together adds no EXDATE", () => {
+  const calendar = parseCalendar(CALENDAR);
+  dropEvents(calendar, new Set([find(calendar, "weekly")!, find(calendar, "weekly", true)!]));
+  assert.equal(find(calendar, "weekly"), undefined);
+  assert.equal(find(calendar, "weekly", true), undefined);
+  assert.equal(events(calendar).length, 3);
+});
+
+test("withoutWindow keeps everything but the date window", () => {
+  assert.equal(withoutWindow({ pastDays: 30, futureDays: 365 }), undefined);
+  assert.deepEqual(withoutWindow({ pastDays: 30, exclude: "lunch" }), { exclude: "lunch" });
+});
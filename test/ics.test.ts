@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  createIcsParser,
+  decodeText,
+  decodeTextList,
+  encodeText,
+  foldLine,
+  getParam,
+  getProperty,
+  getText,
+  parseCalendar,
+  parseContentLine,
+  serializeIcs,
+  serializeProperty,
+  unfoldLines,
+} from "../src/ics.js";
+
+const CALENDAR = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "PRODID:-//Test//EN",
+  "BEGIN:VEVENT",
+  "UID:event-1",
+  "DTSTART;TZID=W. Europe Standard Time:20261005T090000",
+  `SUMMARY:${"Quarterly planning, budget\\; headcount ".repeat(3).trim()}`,
+  'ATTENDEE;CN="Doe, Jane";ROLE=REQ-PARTICIPANT:mailto:jane@example.com',
+  "CATEGORIES:Work,Travel\\, abroad",
+  "BEGIN:VALARM",
+  "ACTION:DISPLAY",
+  "TRIGGER:-PT10M",
+  "END:VALARM",
+  "END:VEVENT",
+  "END:VCALENDAR",
+];
+
+test("serializing a parsed calendar gives back the same text", () => {
+  const text = serializeIcs(parseCalendar(CALENDAR.join("\r\n")));
+  assert.equal(text, serializeIcs(parseCalendar(text)));
+  assert.deepEqual(unfoldLines(text), CALENDAR);
+  assert.ok(text.endsWith("\r\n"));
+});
+
+test("parses components, parameters and TEXT values", () => {
+  const calendar = parseCalendar(CALENDAR.join("\n"));
+  const event = calendar.components[0]!;
+  assert.equal(event.name, "VEVENT");
+  assert.equal(event.components[0]?.name, "VALARM");
+  assert.equal(getParam(getProperty(event, "DTSTART")!, "TZID"), "W. Europe Standard Time");
+  assert.equal(getParam(getProperty(event, "ATTENDEE")!, "CN"), "Doe, Jane");
+  assert.equal(getProperty(event, "ATTENDEE")?.value, "mailto:jane@example.com");
+  assert.match(getText(event, "SUMMARY") ?? "", /^Quarterly planning, budget; headcount/);
+  assert.deepEqual(decodeTextList(getProperty(event, "CATEGORIES")!.value), ["Work", "Travel, abroad"]);
+});
+
+test("folds at 75 octets without splitting UTF-8 sequences", () => {
+  const line = `DESCRIPTION:${"Zürich → München 🚆 ".repeat(12)}`;
+  const folded = foldLine(line);
+  assert.ok(folded.length > 1);
+  for (const [i, part] of folded.entries()) {
+    assert.ok(Buffer.byteLength(part) <= 75, `line ${i} is ${Buffer.byteLength(part)} octets`);
+    assert.ok(!part.includes("�"));
+    if (i > 0) assert.ok(part.startsWith(" "));
+  }
+  assert.deepEqual(unfoldLines(folded.join("\r\n")), [line]);
+});
+
+test("lines of exactly 75 octets are not folded", () => {
+  const line = `SUMMARY:${"x".repeat(67)}`;
+  assert.deepEqual(foldLine(line), [line]);
+  assert.equal(foldLine(`${line}y`).length, 2);
+});
+
+test("incremental parsing matches parsing the whole text, wherever the chunks split", () => {
+  const text = serializeIcs(parseCalendar(CALENDAR.join("\r\n")));
+  for (const size of [1, 2, 7, 64]) {
+    const parser = createIcsParser();
+    for (let i = 0; i < text.length; i += size) parser.push(text.slice(i, i + size));
+    assert.equal(serializeIcs(parser.end()[0]!), text, `chunks of ${size}`);
+  }
+});
+
+test("content lines: quoted parameter values, RFC 6868 escapes and invalid lines", () => {
+  const prop = parseContentLine('LOCATION;ALTREP="http://example.com/a;b:c";X-NOTE=say ^\'hi^\':Room 1');
+  assert.deepEqual(prop?.params, [
+    { name: "ALTREP", values: ["http://example.com/a;b:c"] },
+    { name: "X-NOTE", values: ['say "hi"'] },
+  ]);
+  assert.equal(prop?.value, "Room 1");
+  assert.equal(serializeProperty(prop!), 'LOCATION;ALTREP="http://example.com/a;b:c";X-NOTE=say ^\'hi^\':Room 1');
+  assert.equal(parseContentLine("not a content line"), undefined);
+  assert.equal(parseContentLine('X;P="unterminated:value'), undefined);
+});
+
+test("TEXT escaping round-trips", () => {
+  const text = "a, b; c\\d\nnext line";
+  assert.equal(encodeText(text), "a\\, b\\; c\\\\d\\nnext line");
+  assert.equal(decodeText(encodeText(text)), text);
+});
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseCalendar } from "../src/ics.js";
+import { componentToJCal, propertyToJCal } from "../src/jcal.js";
+
+test("writes dates, times, offsets and periods in their extended forms", () => {
+  assert.deepEqual(propertyToJCal({ name: "DTSTART", params: [{ name: "TZID", values: ["Europe/Zurich"] }], value: "20261005T090000" }), [
+    "dtstart", { tzid: "Europe/Zurich" }, "date-time", "2026-10-05T09:00:00",
+  ]);
+  assert.deepEqual(propertyToJCal({ name: "DTSTART", params: [{ name: "VALUE", values: ["DATE"] }], value: "20261005" }), ["dtstart", {}, "date", "2026-10-05"]);
+  assert.deepEqual(propertyToJCal({ name: "EXDATE", params: [], value: "20261005,20261006" }), ["exdate", {}, "date", "2026-10-05", "2026-10-06"]);
+  assert.deepEqual(propertyToJCal({ name: "TZOFFSETTO", params: [], value: "+0530" }), ["tzoffsetto", {}, "utc-offset", "+05:30"]);
+  assert.deepEqual(propertyToJCal({ name: "FREEBUSY", params: [], value: "20261005T090000Z/PT1H" }), ["freebusy", {}, "period", "2026-10-05T09:00:00Z/PT1H"]);
+});
+
+test("decodes text, splits lists and types numbers", () => {
+  assert.deepEqual(propertyToJCal({ name: "SUMMARY", params: [], value: "Review\\, part 2\\nRoom 4" }), ["summary", {}, "text", "Review, part 2\nRoom 4"]);
+  assert.deepEqual(propertyToJCal({ name: "CATEGORIES", params: [], value: "Travel,Work\\, misc" }), ["categories", {}, "text", "Travel", "Work, misc"]);
+  assert.deepEqual(propertyToJCal({ name: "SEQUENCE", params: [], value: "3" }), ["sequence", {}, "integer", 3]);
+  assert.deepEqual(propertyToJCal({ name: "GEO", params: [], value: "47.37;8.54" }), ["geo", {}, "float", [47.37, 8.54]]);
+  assert.deepEqual(propertyToJCal({ name: "X-MICROSOFT-CDO-BUSYSTATUS", params: [], value: "BUSY" }), ["x-microsoft-cdo-busystatus", {}, "unknown", "BUSY"]);
+});
+
+test("turns RRULEs into objects", () => {
+  assert.deepEqual(propertyToJCal({ name: "RRULE", params: [], value: "FREQ=WEEKLY;COUNT=4;BYDAY=MO,WE;UNTIL=20261231T000000Z" }), [
+    "rrule", {}, "recur", { freq: "WEEKLY", count: 4, byday: ["MO", "WE"], until: "2026-12-31T00:00:00Z" },
+  ]);
+});
+
+test("converts the component tree", () => {
+  const calendar = parseCalendar("BEGIN:VCALENDAR\r\nVERSION:2.0\r\nBEGIN:VEVENT\r\nUID:a\r\nATTENDEE;CN=Ann;ROLE=CHAIR:mailto:ann@example.com\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n");
+  assert.deepEqual(componentToJCal(calendar), [
+    "vcalendar",
+    [["version", {}, "text", "2.0"]],
+    [["vevent", [["uid", {}, "text", "a"], ["attendee", { cn: "Ann", role: "CHAIR" }, "cal-address", "mailto:ann@example.com"]], []]],
+  ]);
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { afterEach, test, type TestContext } from "node:test";
+import { configureLog, log, redact, withRequestId } from "../src/log.js";
+
+const SECRET_URL = "https://outlook.office365.com/owa/calendar/0123abcd@example.com/4567cdef/calendar.ics";
+
+afterEach(() => configureLog({ level: "info", format: "json" }));
+
+// Run `fn` and return what it logged, one parsed entry per line
+function captured(t: TestContext, fn: () => void): Record<string, unknown>[] {
+  const spy = t.mock.method(console, "log", () => {});
+  fn();
+  return spy.mock.calls.map((call) => JSON.parse(String(call.arguments[0])) as Record<string, unknown>);
+}
+
+test("redacts URL paths, credentials and feed tokens", () => {
+  assert.equal(redact(`fetching ${SECRET_URL} failed`), "fetching https://outlook.office365.com/<redacted> failed");
+  assert.equal(redact("webcal://user:pw@example.com/cal.ics"), "webcal://example.com/<redacted>");
+  assert.equal(redact("GET /feeds/s3cr3t-t0ken.ics?client=apple"), "GET /feeds/<token>.ics?client=apple");
+  assert.equal(redact("https://example.com/"), "https://example.com/");
+});
+
+test("masks secret fields and redacts nested values and errors", (t) => {
+  const [entry] = captured(t, () =>
+    log.warn(`upstream ${SECRET_URL}`, { url: SECRET_URL, feed: { token: "abc", path: "/feeds/abc" }, error: new Error(`GET ${SECRET_URL}`) }),
+  );
+  assert.equal(entry?.level, "warn");
+  assert.equal(entry?.msg, "upstream https://outlook.office365.com/<redacted>");
+  assert.equal(entry?.url, "<redacted>");
+  assert.deepEqual(entry?.feed, { token: "<redacted>", path: "/feeds/<token>" });
+  assert.equal(entry?.error, "GET https://outlook.office365.com/<redacted>");
+});
+
+test("drops entries below the level and tags entries with the request ID", (t) => {
+  configureLog({ level: "warn", format: "json" });
+  const entries = captured(t, () => {
+    log.info("ignored");
+    withRequestId("req-1", () => log.error("kept"));
+  });
+  assert.equal(entries.length, 1);
+  assert.equal(entries[0]?.msg, "kept");
+  assert.equal(entries[0]?.requestId, "req-1");
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getProperties, getProperty, parseCalendar, type IcsComponent } from "../src/ics.js";
+import { handleMeetings, MeetingOptionError, parseMeetingOptions } from "../src/meetings.js";
+
+const OWNER = "ann@example.com";
+
+const CALENDAR = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "UID:weekly",
+  "DTSTART;TZID=Europe/Zurich:20261005T090000",
+  "RRULE:FREQ=WEEKLY;COUNT=4",
+  "SUMMARY:Standup",
+  `ATTENDEE;PARTSTAT=ACCEPTED:mailto:${OWNER}`,
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:weekly",
+  "RECURRENCE-ID;TZID=Europe/Zurich:20261012T090000",
+  "DTSTART;TZID=Europe/Zurich:20261012T090000",
+  "SUMMARY:Abgesagt: Standup",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:offsite",
+  "DTSTART:20261007T080000Z",
+  "SUMMARY:Offsite",
+  `ATTENDEE;PARTSTAT=DECLINED:mailto:${OWNER.toUpperCase()}`,
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:lunch",
+  "DTSTART:20261008T110000Z",
+  "SUMMARY:Lunch",
+  `ATTENDEE:mailto:${OWNER}`,
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+function handled(input: Parameters<typeof parseMeetingOptions>[0]): IcsComponent {
+  const calendar = parseCalendar(CALENDAR);
+  handleMeetings(calendar, parseMeetingOptions(input)!);
+  return calendar;
+}
+
+function summaries(calendar: IcsComponent): string[] {
+  return calendar.components.map((e) => getProperty(e, "SUMMARY")?.value ?? "");
+}
+
+test("parses options and needs the owner for declined and unanswered", () => {
+  assert.equal(parseMeetingOptions({}), undefined);
+  assert.equal(parseMeetingOptions({ cancelled: "keep" }), undefined);
+  assert.deepEqual(parseMeetingOptions({ declined: "Drop", owner: ["mailto:Ann@Example.com", "bob@example.com"] }), {
+    cancelled: "keep",
+    declined: "drop",
+    unanswered: "keep",
+    owners: [OWNER, "bob@example.com"],
+  });
+  assert.throws(() => parseMeetingOptions({ cancelled: "hide" }), MeetingOptionError);
+  assert.throws(() => parseMeetingOptions({ unanswered: "mark" }), MeetingOptionError);
+});
+
+test("a dropped cancelled occurrence becomes an EXDATE on its series", () => {
+  const calendar = handled({ cancelled: "drop" });
+  assert.deepEqual(summaries(calendar), ["Standup", "Offsite", "Lunch"]);
+  assert.deepEqual(getProperties(calendar.components[0]!, "EXDATE").map((p) => p.value), ["20261012T090000"]);
+});
+
+test("marks declined and unanswered meetings as free", () => {
+  const calendar = handled({ declined: "mark", unanswered: "mark", owner: OWNER });
+  const [, , offsite, lunch] = calendar.components;
+  assert.equal(getProperty(offsite!, "TRANSP")?.value, "TRANSPARENT");
+  assert.equal(getProperty(offsite!, "STATUS"), undefined);
+  assert.equal(getProperty(lunch!, "STATUS")?.value, "TENTATIVE");
+  assert.equal(getProperty(lunch!, "X-MICROSOFT-CDO-BUSYSTATUS")?.value, "FREE");
+  assert.equal(getProperty(calendar.components[0]!, "TRANSP"), undefined);
+});
+
+test("dropping a declined series takes its occurrences along", () => {
+  const calendar = parseCalendar(CALENDAR.replace("PARTSTAT=ACCEPTED", "PARTSTAT=DECLINED"));
+  handleMeetings(calendar, parseMeetingOptions({ declined: "drop", owner: OWNER })!);
+  assert.deepEqual(summaries(calendar), ["Lunch"]);
+});
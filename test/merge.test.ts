@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { cacheSize, feedCacheKey, setCacheEntry, strongEtag } from "../src/cache.js";
+import { getProperty, getText, parseCalendar, type IcsComponent } from "../src/ics.js";
+import { getMergedFeed, mergeCalendars, type SourceFeed } from "../src/merge.js";
+import { transformIcs, type TransformOptions } from "../src/transform.js";
+
+const OPTS: TransformOptions = { targetTz: "Europe/Zurich", overrideExistingTz: true, tzMode: "convert" };
+
+function calendar(...events: string[][]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR", ""].join("\r\n");
+}
+
+// Put a source in the cache as freshly fetched, so getMergedFeed never goes upstream
+function cached(url: string, ics: string, opts: TransformOptions): void {
+  const body = transformIcs(ics, opts);
+  setCacheEntry({ key: feedCacheKey(url, opts), source: ics, body, etag: strongEtag(body), lastModified: new Date().toUTCString(), upstream: {}, fetchedAt: Date.now() });
+}
+
+function event(merged: IcsComponent, uid: string): IcsComponent {
+  const found = merged.components.find((c) => c.name === "VEVENT" && getProperty(c, "UID")?.value === uid);
+  assert.ok(found, `event ${uid}`);
+  return found;
+}
+
+const TEAM: SourceFeed = { url: "https://example.com/team.ics", prefix: "[Team] ", category: "Team", color: "teal" };
+const TEAM_ICS = calendar(
+  ["UID:review", "DTSTART:20261005T090000Z", "SUMMARY:Review", "X-MICROSOFT-CDO-BUSYSTATUS:TENTATIVE"],
+  ["UID:doctor", "DTSTART:20261006T090000Z", "SUMMARY:Doctor", "CLASS:PRIVATE"],
+);
+
+test("decorates each source's events", async () => {
+  cached(TEAM.url, TEAM_ICS, OPTS);
+  const merged = parseCalendar((await getMergedFeed([TEAM], OPTS)).body);
+  const review = event(merged, "review");
+  assert.equal(getText(review, "SUMMARY"), "[Team] Review");
+  assert.equal(getProperty(review, "CATEGORIES")?.value, "Team");
+  assert.equal(getProperty(review, "COLOR")?.value, "teal");
+});
+
+test("decorations are redacted by the privacy mode and on private events", async () => {
+  const doctor = event(parseCalendar((await getMergedFeed([TEAM], OPTS)).body), "doctor");
+  assert.equal(getText(doctor, "SUMMARY"), "Busy");
+  assert.equal(getProperty(doctor, "CATEGORIES"), undefined);
+  assert.equal(getProperty(doctor, "COLOR"), undefined);
+
+  const freebusy: TransformOptions = { ...OPTS, privacy: "freebusy" };
+  cached(TEAM.url, TEAM_ICS, freebusy);
+  const review = event(parseCalendar((await getMergedFeed([TEAM], freebusy)).body), "review");
+  assert.equal(getText(review, "SUMMARY"), "Tentative");
+  assert.equal(getProperty(review, "CATEGORIES"), undefined);
+  assert.equal(getProperty(review, "COLOR"), undefined);
+
+  const titles: TransformOptions = { ...OPTS, privacy: "titles" };
+  cached(TEAM.url, TEAM_ICS, titles);
+  const titled = event(parseCalendar((await getMergedFeed([TEAM], titles)).body), "review");
+  assert.equal(getText(titled, "SUMMARY"), "[Team] Review");
+  assert.equal(getProperty(titled, "COLOR"), undefined);
+});
+
+test("the merged output is cached until a source changes", async () => {
+  const personal: SourceFeed = { url: "https://example.com/personal.ics" };
+  cached(personal.url, calendar(["UID:gym", "DTSTART:20261007T170000Z", "SUMMARY:Gym"]), OPTS);
+  cached(TEAM.url, TEAM_ICS, OPTS);
+  const before = cacheSize();
+  const first = await getMergedFeed([personal, TEAM], OPTS);
+  assert.equal(cacheSize(), before + 1);
+  assert.deepEqual(await getMergedFeed([personal, TEAM], OPTS), first);
+  assert.equal(cacheSize(), before + 1);
+
+  cached(personal.url, calendar(["UID:gym", "DTSTART:20261007T170000Z", "SUMMARY:Swim"]), OPTS);
+  const changed = await getMergedFeed([personal, TEAM], OPTS);
+  assert.notEqual(changed.etag, first.etag);
+  assert.equal(getText(event(parseCalendar(changed.body), "gym"), "SUMMARY"), "Swim");
+  assert.equal(cacheSize(), before + 1);
+});
+
+test("keeps one copy per UID and RECURRENCE-ID: higher SEQUENCE, then newer DTSTAMP", () => {
+  const a = parseCalendar(calendar(
+    ["UID:weekly", "DTSTAMP:20261001T080000Z", "DTSTART:20261005T090000Z", "RRULE:FREQ=WEEKLY", "SUMMARY:A series"],
+    ["UID:weekly", "RECURRENCE-ID:20261012T090000Z", "SEQUENCE:2", "DTSTART:20261012T100000Z", "SUMMARY:A moved"],
+    ["UID:lunch", "DTSTAMP:20261001T080000Z", "DTSTART:20261005T110000Z", "SUMMARY:A lunch"],
+  ));
+  const b = parseCalendar(calendar(
+    ["UID:weekly", "DTSTAMP:20261002T080000Z", "DTSTART:20261005T090000Z", "RRULE:FREQ=WEEKLY", "SUMMARY:B series"],
+    ["UID:weekly", "RECURRENCE-ID:20261012T090000Z", "SEQUENCE:1", "DTSTAMP:20261003T080000Z", "DTSTART:20261012T110000Z", "SUMMARY:B moved"],
+    ["UID:lunch", "DTSTAMP:20261001T080000Z", "DTSTART:20261005T120000Z", "SUMMARY:B lunch"],
+    ["DTSTART:20261006T090000Z", "SUMMARY:No UID"],
+  ));
+  const merged = mergeCalendars([a, b], "Europe/Zurich");
+  const events = merged.components.filter((c) => c.name === "VEVENT");
+  assert.deepEqual(events.map((e) => getText(e, "SUMMARY")), ["B series", "A moved", "A lunch", "No UID"]);
+  assert.deepEqual(merged.components.filter((c) => c.name === "VTIMEZONE").map((c) => getProperty(c, "TZID")?.value), ["Europe/Zurich"]);
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { recordCacheLookup, recordHttpRequest, recordUpstreamFetch, registerGauge, renderMetrics } from "../src/metrics.js";
+
+function lines(prefix: string): string[] {
+  return renderMetrics().split("\n").filter((line) => line.startsWith(prefix));
+}
+
+test("counts requests by route, method and status with a duration histogram", () => {
+  recordHttpRequest("/calendar.ics", "GET", 200, 0.02);
+  recordHttpRequest("/calendar.ics", "GET", 200, 0.3);
+  assert.deepEqual(lines('icsproxy_http_requests_total{route="/calendar.ics"'), ['icsproxy_http_requests_total{route="/calendar.ics",method="GET",status="200"} 2']);
+  const buckets = lines('icsproxy_http_request_duration_seconds_bucket{route="/calendar.ics"');
+  assert.ok(buckets.includes('icsproxy_http_request_duration_seconds_bucket{route="/calendar.ics",le="0.01"} 0'));
+  assert.ok(buckets.includes('icsproxy_http_request_duration_seconds_bucket{route="/calendar.ics",le="0.025"} 1'));
+  assert.ok(buckets.includes('icsproxy_http_request_duration_seconds_bucket{route="/calendar.ics",le="+Inf"} 2'));
+  assert.deepEqual(lines('icsproxy_http_request_duration_seconds_count{route="/calendar.ics"}'), ['icsproxy_http_request_duration_seconds_count{route="/calendar.ics"} 2']);
+});
+
+test("labels upstream fetches by status, and network failures as error", () => {
+  recordUpstreamFetch(304, 0.1);
+  recordUpstreamFetch(undefined, 1);
+  assert.deepEqual(lines("icsproxy_upstream_responses_total{"), ['icsproxy_upstream_responses_total{status="304"} 1', 'icsproxy_upstream_responses_total{status="error"} 1']);
+  assert.equal(lines('icsproxy_upstream_fetch_duration_seconds_count{outcome="not_modified"}').length, 1);
+});
+
+test("derives the cache hit ratio from the lookups", () => {
+  for (const status of ["HIT", "HIT", "REVALIDATED", "MISS"] as const) recordCacheLookup(status);
+  assert.deepEqual(lines("icsproxy_cache_hit_ratio "), ["icsproxy_cache_hit_ratio 0.75"]);
+});
+
+test("renders registered gauges with HELP and TYPE", () => {
+  registerGauge("test_gauge", "A gauge for the tests", () => 42);
+  const text = renderMetrics();
+  assert.ok(text.includes("# HELP icsproxy_test_gauge A gauge for the tests\n# TYPE icsproxy_test_gauge gauge\nicsproxy_test_gauge 42\n"));
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getProperty, parseCalendar, type IcsComponent } from "../src/ics.js";
+import { applyPrivacy } from "../src/privacy.js";
+
+function event(...lines: string[]): IcsComponent {
+  const calendar = parseCalendar(["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VEVENT", ...lines, "END:VEVENT", "END:VCALENDAR", ""].join("\r\n"));
+  return calendar.components[0]!;
+}
+
+const MEETING = [
+  "UID:review",
+  "DTSTART:20261015T090000Z",
+  "DTEND:20261015T100000Z",
+  "SUMMARY:Salary review",
+  "DESCRIPTION:Bring the numbers",
+  "LOCATION:Room 4",
+  "ATTENDEE;CN=Ann:mailto:ann@example.com",
+  "X-MICROSOFT-CDO-BUSYSTATUS:TENTATIVE",
+  "X-ALT-DESC;FMTTYPE=text/html:<p>Bring the numbers</p>",
+  "BEGIN:VALARM",
+  "ACTION:DISPLAY",
+  "DESCRIPTION:Salary review",
+  "TRIGGER:-PT15M",
+  "END:VALARM",
+];
+
+function names(e: IcsComponent): string[] {
+  return e.properties.map((p) => p.name);
+}
+
+test("full mode leaves the event untouched", () => {
+  const e = event(...MEETING);
+  const before = structuredClone(e);
+  applyPrivacy(e, "full");
+  assert.deepEqual(e, before);
+});
+
+test("titles mode keeps the subject and scheduling properties only", () => {
+  const e = event(...MEETING);
+  applyPrivacy(e, "titles");
+  assert.deepEqual(names(e), ["UID", "DTSTART", "DTEND", "SUMMARY", "X-MICROSOFT-CDO-BUSYSTATUS"]);
+  assert.equal(getProperty(e, "SUMMARY")?.value, "Salary review");
+  assert.deepEqual(e.components, []);
+});
+
+test("freebusy mode replaces the subject with the busy status", () => {
+  const e = event(...MEETING);
+  applyPrivacy(e, "freebusy");
+  assert.equal(getProperty(e, "SUMMARY")?.value, "Tentative");
+  assert.equal(getProperty(e, "DESCRIPTION"), undefined);
+  assert.equal(getProperty(e, "X-ALT-DESC"), undefined);
+  assert.deepEqual(e.components, []);
+});
+
+test("private and confidential events are reduced to free/busy in every mode", () => {
+  for (const cls of ["PRIVATE", "confidential"]) {
+    const e = event("UID:private", "DTSTART:20261015T090000Z", "SUMMARY:Doctor", `CLASS:${cls}`);
+    applyPrivacy(e, "full");
+    assert.equal(getProperty(e, "SUMMARY")?.value, "Busy", cls);
+  }
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DateTime } from "luxon";
+import { parseCalendar, type IcsComponent } from "../src/ics.js";
+import { eventOccurrences, expandRRule, parseRRule } from "../src/recurrence.js";
+
+const ZONE = "Europe/Zurich";
+
+function event(...lines: string[]): IcsComponent {
+  const calendar = parseCalendar(["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VEVENT", ...lines, "END:VEVENT", "END:VCALENDAR", ""].join("\r\n"));
+  return calendar.components[0]!;
+}
+
+function starts(e: IcsComponent, limit = 10): string[] {
+  const result: string[] = [];
+  for (const o of eventOccurrences(e, ZONE) ?? []) {
+    if (result.length >= limit) break;
+    result.push(o.start.toISO()!);
+  }
+  return result;
+}
+
+test("parses supported rules and refuses the rest", () => {
+  const rule = parseRRule("FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=3", ZONE);
+  assert.equal(rule?.freq, "MONTHLY");
+  assert.equal(rule?.interval, 2);
+  assert.deepEqual(rule?.byDay, [{ weekday: 5, nth: -1 }]);
+  assert.equal(rule?.count, 3);
+  assert.equal(parseRRule("FREQ=HOURLY", ZONE), undefined);
+  assert.equal(parseRRule("FREQ=YEARLY;BYWEEKNO=20", ZONE), undefined);
+});
+
+test("a DATE-only UNTIL includes that whole day", () => {
+  const dtstart = DateTime.fromISO("2026-10-05T09:00", { zone: ZONE });
+  const rule = parseRRule("FREQ=DAILY;UNTIL=20261007", ZONE)!;
+  assert.equal([...expandRRule(dtstart, rule)].length, 3);
+});
+
+test("series keep their wall-clock time across DST changes", () => {
+  const e = event("UID:weekly", "DTSTART;TZID=Europe/Zurich:20261019T090000", "RRULE:FREQ=WEEKLY;COUNT=3");
+  assert.deepEqual(starts(e), ["2026-10-19T09:00:00.000+02:00", "2026-10-26T09:00:00.000+01:00", "2026-11-02T09:00:00.000+01:00"]);
+});
+
+test("merges RDATEs and skips EXDATEs", () => {
+  const e = event(
+    "UID:daily",
+    "DTSTART;TZID=Europe/Zurich:20261005T090000",
+    "RRULE:FREQ=DAILY;COUNT=3",
+    "RDATE;TZID=Europe/Zurich:20261004T120000",
+    "EXDATE;TZID=Europe/Zurich:20261006T090000",
+  );
+  assert.deepEqual(starts(e), ["2026-10-04T12:00:00.000+02:00", "2026-10-05T09:00:00.000+02:00", "2026-10-07T09:00:00.000+02:00"]);
+});
+
+test("stops on rules that can never match", () => {
+  const e = event("UID:never", "DTSTART;VALUE=DATE:20260201", "RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30");
+  assert.deepEqual(starts(e), ["2026-02-01T00:00:00.000+01:00"]);
+});
+
+test("returns undefined for events it can't evaluate", () => {
+  assert.equal(eventOccurrences(event("UID:none", "SUMMARY:No start"), ZONE), undefined);
+  assert.equal(eventOccurrences(event("UID:hourly", "DTSTART:20261005T090000Z", "RRULE:FREQ=HOURLY"), ZONE), undefined);
+});
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getProperties, getProperty, getText, parseCalendar, type IcsComponent } from "../src/ics.js";
+import { applyRules, parseRules, RuleError } from "../src/rules.js";
+
+const ZONE = "Europe/Zurich";
+
+const CALENDAR = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "UID:standup",
+  "DTSTART;TZID=Europe/Zurich:20261005T090000",
+  "DTEND;TZID=Europe/Zurich:20261005T091500",
+  "RRULE:FREQ=DAILY;COUNT=5",
+  "SUMMARY:Standup",
+  "ORGANIZER:mailto:Lead@Example.com",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:standup",
+  "RECURRENCE-ID;TZID=Europe/Zurich:20261006T090000",
+  "DTSTART;TZID=Europe/Zurich:20261006T100000",
+  "DTEND;TZID=Europe/Zurich:20261006T101500",
+  "SUMMARY:Standup (late)",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:holiday",
+  "DTSTART;VALUE=DATE:20261010",
+  "DTEND;VALUE=DATE:20261011",
+  "SUMMARY:Holiday",
+  "CATEGORIES:Personal",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:review",
+  "DTSTART:20261007T120000Z",
+  "DTEND:20261007T140000Z",
+  "SUMMARY:Review",
+  "LOCATION:Room 4",
+  "BEGIN:VALARM",
+  "ACTION:DISPLAY",
+  "TRIGGER:-PT5M",
+  "DESCRIPTION:Own reminder",
+  "END:VALARM",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+function applied(rules: unknown): IcsComponent {
+  const calendar = parseCalendar(CALENDAR);
+  applyRules(calendar, parseRules(rules)!, ZONE);
+  return calendar;
+}
+
+function event(calendar: IcsComponent, uid: string, override = false): IcsComponent | undefined {
+  return calendar.components.find((e) => getProperty(e, "UID")?.value === uid && (getProperty(e, "RECURRENCE-ID") !== undefined) === override);
+}
+
+test("validates rules and names the rule that is wrong", () => {
+  assert.equal(parseRules(undefined), undefined);
+  assert.equal(parseRules([]), undefined);
+  assert.deepEqual(parseRules([{ name: "tag", match: { SUMMARY: "^standup", organizer: "mailto:Lead@Example.com", maxDuration: "1h" }, append: { CATEGORIES: "Daily, misc" } }]), [
+    { name: "tag", match: { properties: { SUMMARY: "^standup" }, organizers: ["lead@example.com"], maxMinutes: 60 }, append: { CATEGORIES: "Daily\\, misc" } },
+  ]);
+  const invalid: [unknown, RegExp][] = [
+    [{}, /"rules" must be a list/],
+    [[{ match: {} }], /^rule 1: needs at least one action/],
+    [[{ name: "x", match: { SUMMARY: "(" }, drop: true }], /^rule 1 "x": "match.SUMMARY": invalid regular expression/],
+    [[{ match: { summary: "a" }, drop: true }], /unknown condition "match.summary"/],
+    [[{ set: { DTSTART: "20260101" } }], /DTSTART can't be changed by rules/],
+    [[{ drop: true, remove: ["LOCATION"] }], /"drop" can't be combined/],
+    [[{ alarms: [{ at: "09:00" }] }], /alarms with "at" need "match.allDay: true"/],
+    [[{ prefix: { CATEGORIES: "x" } }], /use "append" to add an item/],
+  ];
+  for (const [rules, message] of invalid) {
+    assert.throws(() => parseRules(rules), (err) => err instanceof RuleError && message.test(err.message), message.source);
+  }
+});
+
+test("rewrites matching events and leaves the rest alone", () => {
+  const calendar = applied([
+    { match: { organizer: "lead@example.com" }, prefix: { SUMMARY: "[Team] " }, append: { CATEGORIES: "Daily" } },
+    { match: { allDay: false, minDuration: "2h" }, set: { LOCATION: "Room 5; 2nd floor" }, remove: ["X-NOTHING"] },
+  ]);
+  assert.equal(getText(event(calendar, "standup")!, "SUMMARY"), "[Team] Standup");
+  assert.equal(getProperty(event(calendar, "standup")!, "CATEGORIES")?.value, "Daily");
+  assert.equal(getText(event(calendar, "standup", true)!, "SUMMARY"), "Standup (late)");
+  assert.equal(getText(event(calendar, "review")!, "LOCATION"), "Room 5; 2nd floor");
+  assert.equal(getText(event(calendar, "holiday")!, "LOCATION"), undefined);
+});
+
+test("later rules see the changes of earlier ones", () => {
+  const calendar = applied([
+    { match: { CATEGORIES: "personal" }, append: { CATEGORIES: "Private" } },
+    { match: { categories: "private" }, set: { CLASS: "PRIVATE" } },
+  ]);
+  assert.equal(getProperty(event(calendar, "holiday")!, "CATEGORIES")?.value, "Personal,Private");
+  assert.equal(getProperty(event(calendar, "holiday")!, "CLASS")?.value, "PRIVATE");
+});
+
+test("adds default reminders only to events without their own", () => {
+  const calendar = applied([
+    { match: { allDay: false }, alarms: [{ before: "10m" }] },
+    { match: { allDay: true }, alarms: [{ at: "18:00", daysBefore: 1, description: "Tomorrow: day off" }] },
+  ]);
+  const trigger = (e: IcsComponent | undefined) => e?.components.map((a) => [getProperty(a, "TRIGGER")?.value, getText(a, "DESCRIPTION")]);
+  assert.deepEqual(trigger(event(calendar, "standup")), [["-PT10M", "Standup"]]);
+  assert.deepEqual(trigger(event(calendar, "review")), [["-PT5M", "Own reminder"]]);
+  assert.deepEqual(trigger(event(calendar, "holiday")), [["-PT6H", "Tomorrow: day off"]]);
+});
+
+test("a dropped occurrence becomes an EXDATE; a dropped series takes its overrides along", () => {
+  const occurrence = applied([{ match: { SUMMARY: "late" }, drop: true }]);
+  assert.equal(event(occurrence, "standup", true), undefined);
+  assert.deepEqual(getProperties(event(occurrence, "standup")!, "EXDATE").map((p) => p.value), ["20261006T090000"]);
+
+  const series = applied([{ match: { SUMMARY: "^standup$" }, drop: true }]);
+  assert.deepEqual(series.components.map((e) => getProperty(e, "UID")?.value), ["holiday", "review"]);
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getParam, getProperty, parseCalendar, type IcsComponent } from "../src/ics.js";
+import { transformIcs, type TransformOptions } from "../src/transform.js";
+
+const CONVERT: TransformOptions = { targetTz: "Europe/Zurich", overrideExistingTz: true, tzMode: "convert" };
+
+function calendar(...events: string[][]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Microsoft Corporation//Outlook 16.0 MIMEDIR//EN", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR", ""].join("\r\n");
+}
+
+function transformed(ics: string, opts: TransformOptions = CONVERT): IcsComponent {
+  return parseCalendar(transformIcs(ics, opts));
+}
+
+function event(cal: IcsComponent, uid: string): IcsComponent {
+  const found = cal.components.find((c) => c.name === "VEVENT" && getProperty(c, "UID")?.value === uid);
+  assert.ok(found, `event ${uid}`);
+  return found;
+}
+
+function time(cal: IcsComponent, uid: string, name = "DTSTART"): [string | undefined, string | undefined] {
+  const prop = getProperty(event(cal, uid), name);
+  return [prop !== undefined ? getParam(prop, "TZID") : undefined, prop?.value];
+}
+
+function zones(cal: IcsComponent): string[] {
+  return cal.components.filter((c) => c.name === "VTIMEZONE").map((c) => getProperty(c, "TZID")?.value ?? "");
+}
+
+test("converts UTC times into the target zone", () => {
+  const cal = transformed(calendar(["UID:utc", "DTSTART:20260115T080000Z", "DTEND:20260715T080000Z"]));
+  assert.deepEqual(time(cal, "utc"), ["Europe/Zurich", "20260115T090000"]);
+  assert.deepEqual(time(cal, "utc", "DTEND"), ["Europe/Zurich", "20260715T100000"]);
+  assert.deepEqual(zones(cal), ["Europe/Zurich"]);
+});
+
+test("attaches the target zone to floating times without shifting them", () => {
+  const cal = transformed(calendar(["UID:floating", "DTSTART:20260115T080000"]));
+  assert.deepEqual(time(cal, "floating"), ["Europe/Zurich", "20260115T080000"]);
+});
+
+test("leaves all-day dates alone", () => {
+  const cal = transformed(calendar(["UID:day", "DTSTART;VALUE=DATE:20260115", "DTEND;VALUE=DATE:20260116"]));
+  assert.deepEqual(time(cal, "day"), [undefined, "20260115"]);
+  assert.equal(getParam(getProperty(event(cal, "day"), "DTSTART")!, "VALUE"), "DATE");
+});
+
+test("converts Windows zone names, or keeps them without override", () => {
+  const ics = calendar(["UID:win", "DTSTART;TZID=Eastern Standard Time:20260115T090000"]);
+  assert.deepEqual(time(transformed(ics), "win"), ["Europe/Zurich", "20260115T150000"]);
+  assert.deepEqual(time(transformed(ics, { ...CONVERT, overrideExistingTz: false }), "win"), ["Eastern Standard Time", "20260115T090000"]);
+});
+
+test("preserve mode keeps each event's zone, named in IANA terms, with a VTIMEZONE for each", () => {
+  const ics = calendar(
+    ["UID:win", "DTSTART;TZID=Eastern Standard Time:20260115T090000"],
+    ["UID:utc", "DTSTART:20260115T080000Z"],
+  );
+  const cal = transformed(ics, { ...CONVERT, tzMode: "preserve" });
+  assert.deepEqual(time(cal, "win"), ["America/New_York", "20260115T090000"]);
+  assert.deepEqual(time(cal, "utc"), ["Europe/Zurich", "20260115T090000"]);
+  assert.deepEqual(zones(cal).sort(), ["America/New_York", "Europe/Zurich"]);
+});
+
+test("reads custom zones from the feed's own VTIMEZONE", () => {
+  const custom = [
+    "BEGIN:VTIMEZONE", "TZID:Customized Time Zone",
+    "BEGIN:STANDARD", "DTSTART:16010101T030000", "TZOFFSETFROM:+0200", "TZOFFSETTO:+0100", "RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10", "END:STANDARD",
+    "BEGIN:DAYLIGHT", "DTSTART:16010101T020000", "TZOFFSETFROM:+0100", "TZOFFSETTO:+0200", "RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3", "END:DAYLIGHT",
+    "END:VTIMEZONE",
+  ];
+  const ics = calendar(["UID:custom", "DTSTART;TZID=Customized Time Zone:20260715T090000"]).replace("BEGIN:VEVENT", `${custom.join("\r\n")}\r\nBEGIN:VEVENT`);
+  const cal = transformed(ics, { ...CONVERT, targetTz: "Europe/London" });
+  assert.deepEqual(time(cal, "custom"), ["Europe/London", "20260715T080000"]);
+  assert.deepEqual(zones(cal), ["Europe/London"]);
+});
+
+test("replaces PRODID and puts UID first", () => {
+  const cal = transformed(calendar(["SUMMARY:Review", "DTSTART:20260115T080000Z", "UID:order"]));
+  assert.equal(getProperty(cal, "PRODID")?.value, "-//Google Inc//Google Calendar 70.9054//EN");
+  assert.deepEqual(event(cal, "order").properties.map((p) => p.name), ["UID", "DTSTART", "SUMMARY"]);
+});
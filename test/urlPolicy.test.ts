@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import {
+  checkContentType,
+  checkSourceUrl,
+  configureUrlPolicy,
+  DEFAULT_ALLOWED_HOSTS,
+  guardedLookup,
+  isPrivateAddress,
+  UrlRejectedError,
+  type UrlPolicy,
+} from "../src/urlPolicy.js";
+
+const DEFAULT_POLICY: UrlPolicy = {
+  allowHttp: false,
+  allowedHosts: DEFAULT_ALLOWED_HOSTS,
+  allowPrivateNetworks: false,
+  maxRedirects: 3,
+  maxResponseBytes: 10 * 1024 * 1024,
+};
+
+afterEach(() => configureUrlPolicy(DEFAULT_POLICY));
+
+function rejection(status: number): (err: unknown) => boolean {
+  return (err) => err instanceof UrlRejectedError && err.status === status;
+}
+
+test("accepts Outlook publishing URLs", () => {
+  configureUrlPolicy(DEFAULT_POLICY);
+  const url = checkSourceUrl("https://outlook.office365.com/owa/calendar/abc/calendar.ics");
+  assert.equal(url.hostname, "outlook.office365.com");
+  checkSourceUrl("https://eur.outlook.com/owa/calendar/abc/calendar.ics");
+});
+
+test("refuses other schemes, credentials and hosts outside the allowlist", () => {
+  configureUrlPolicy(DEFAULT_POLICY);
+  assert.throws(() => checkSourceUrl("not a url"), rejection(400));
+  assert.throws(() => checkSourceUrl("http://outlook.office365.com/calendar.ics"), rejection(400));
+  assert.throws(() => checkSourceUrl("file:///etc/passwd"), rejection(400));
+  assert.throws(() => checkSourceUrl("https://user:pw@outlook.office365.com/calendar.ics"), rejection(400));
+  assert.throws(() => checkSourceUrl("https://example.com/calendar.ics"), rejection(403));
+  assert.throws(() => checkSourceUrl("https://outlook.com.evil.example/calendar.ics"), rejection(403));
+  assert.throws(() => checkSourceUrl("https://evil-outlook.com/calendar.ics"), rejection(403));
+});
+
+test("refuses private IP literals even when every host is allowed", () => {
+  configureUrlPolicy({ ...DEFAULT_POLICY, allowedHosts: ["*"] });
+  for (const host of ["127.0.0.1", "10.1.2.3", "169.254.169.254", "[::1]", "[::ffff:127.0.0.1]", "[fd00::1]", "[2002:a9fe:a9fe::1]"]) {
+    assert.throws(() => checkSourceUrl(`https://${host}/calendar.ics`), rejection(403), host);
+  }
+  checkSourceUrl("https://8.8.8.8/calendar.ics");
+  configureUrlPolicy({ ...DEFAULT_POLICY, allowedHosts: ["*"], allowPrivateNetworks: true });
+  checkSourceUrl("https://127.0.0.1/calendar.ics");
+});
+
+test("classifies addresses, including IPv4 embedded in IPv6", () => {
+  const blocked = [
+    "0.0.0.0", "10.0.0.1", "100.64.0.1", "127.0.0.1", "169.254.169.254", "172.16.0.1", "192.168.1.1", "224.0.0.1", "255.255.255.255",
+    "::", "::1", "fe80::1", "fc00::1", "ff02::1", "2001:db8::1",
+    "::ffff:127.0.0.1", "::ffff:7f00:1", "64:ff9b::a9fe:a9fe", "::127.0.0.1", "::a9fe:a9fe", "2002:7f00:1::1", "2002:a9fe:a9fe::",
+    "::ffff:0:127.0.0.1", "::FFFF:0:a9fe:a9fe", "64:ff9b:1::a00:1", "64:ff9b:1:7f00:0:100::", "fe80::1%eth0",
+    "not-an-address",
+  ];
+  for (const address of blocked) assert.equal(isPrivateAddress(address), true, address);
+  for (const address of ["8.8.8.8", "52.96.0.1", "2606:4700::1111", "2603:1026::1", "::ffff:8.8.8.8", "64:ff9b::808:808", "::ffff:0:8.8.8.8", "64:ff9b:1::808:808", "64:ff9b:1:808:8:800::"]) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test("guardedLookup refuses hosts that resolve to non-public addresses", async () => {
+  configureUrlPolicy(DEFAULT_POLICY);
+  const err = await new Promise<unknown>((resolve) => guardedLookup("localhost", {}, (e) => resolve(e)));
+  assert.ok(rejection(403)(err));
+
+  configureUrlPolicy({ ...DEFAULT_POLICY, allowPrivateNetworks: true });
+  const address = await new Promise<unknown>((resolve) => guardedLookup("localhost", { family: 4 }, (_e, a) => resolve(a)));
+  assert.equal(address, "127.0.0.1");
+});
+
+test("accepts calendar content types only", () => {
+  checkContentType(undefined);
+  checkContentType("text/calendar; charset=utf-8");
+  checkContentType("application/octet-stream");
+  assert.throws(() => checkContentType("text/html; charset=utf-8"), rejection(422));
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { redactReport, validateIcs, type ValidationIssue } from "../src/validate.js";
+
+function ics(...lines: string[]): string {
+  return [...lines, ""].join("\r\n");
+}
+
+function issues(raw: string): Pick<ValidationIssue, "line" | "code">[] {
+  return validateIcs(raw).issues.map(({ line, code }) => ({ line, code }));
+}
+
+const VALID = ics(
+  "BEGIN:VCALENDAR",
+  "PRODID:-//Test//EN",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "UID:a",
+  "DTSTAMP:20261001T080000Z",
+  "DTSTART:20261005T090000Z",
+  "DTEND:20261005T100000Z",
+  "SUMMARY:Review\\, part 2",
+  "END:VEVENT",
+  "END:VCALENDAR",
+);
+
+test("accepts a valid calendar", () => {
+  assert.deepEqual(validateIcs(VALID), { valid: true, errors: 0, warnings: 0, issues: [], truncated: false });
+});
+
+test("reports missing properties, bad dates and escapes with their lines", () => {
+  const raw = ics(
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    "UID:a",
+    "DTSTAMP:20261001T080000",
+    "DTSTART:20261005",
+    "DTEND:20261005T100000Z",
+    "SUMMARY:Lunch\\: canteen",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  );
+  const report = validateIcs(raw);
+  assert.equal(report.valid, false);
+  assert.deepEqual(issues(raw), [
+    { line: 1, code: "missing-property" },
+    { line: 5, code: "invalid-date" },
+    { line: 6, code: "invalid-date" },
+    { line: 8, code: "bad-escape" },
+  ]);
+  assert.match(report.issues[2]!.message, /a DATE needs VALUE=DATE/);
+});
+
+test("reports DTEND before DTSTART and duplicate UIDs", () => {
+  const raw = VALID.replace("DTEND:20261005T100000Z", "DTEND:20261005T080000Z").replace("END:VCALENDAR", VALID.split("\r\n").slice(3, 10).join("\r\n") + "\r\nEND:VCALENDAR");
+  assert.deepEqual(issues(raw), [
+    { line: 8, code: "end-before-start" },
+    { line: 11, code: "duplicate-uid" },
+  ]);
+});
+
+test("reports unbalanced components and stray lines", () => {
+  const raw = ics("BEGIN:VCALENDAR", "PRODID:-//Test//EN", "VERSION:2.0", "BEGIN:VEVENT", "UID:a", "not a content line", "END:VCALENDAR", "END:VTODO");
+  assert.deepEqual(issues(raw), [
+    { line: 4, code: "unbalanced-component" },
+    { line: 4, code: "missing-property" },
+    { line: 4, code: "missing-property" },
+    { line: 6, code: "invalid-line" },
+    { line: 8, code: "unbalanced-component" },
+  ]);
+});
+
+test("reports TZIDs without VTIMEZONE, Windows names and unknown names once each", () => {
+  const raw = VALID.replace("DTSTART:20261005T090000Z", "DTSTART;TZID=W. Europe Standard Time:20261005T090000").replace("DTEND:20261005T100000Z", "DTEND;TZID=Mars/Olympus:20261005T100000");
+  const report = validateIcs(raw, { targetTz: "Europe/Zurich" });
+  assert.deepEqual(report.issues.map(({ line, severity, code }) => ({ line, severity, code })), [
+    { line: 7, severity: "error", code: "undefined-tzid" },
+    { line: 7, severity: "info", code: "windows-tzid" },
+    { line: 8, severity: "error", code: "undefined-tzid" },
+    { line: 8, severity: "warning", code: "unmapped-tzid" },
+  ]);
+  assert.match(report.issues[1]!.message, /mapped to Europe\/Zurich/);
+});
+
+test("warns about lines longer than 75 octets", () => {
+  const raw = VALID.replace("SUMMARY:Review\\, part 2", `SUMMARY:${"x".repeat(80)}`);
+  assert.deepEqual(issues(raw), [{ line: 9, code: "line-too-long" }]);
+  assert.equal(validateIcs(raw).valid, true);
+});
+
+test("redacted reports keep lines and codes but nothing quoted from the events", () => {
+  const raw = VALID.replace("DTEND:20261005T100000Z", "DTEND:Friday").replace("DTSTART:20261005T090000Z", "DTSTART;TZID=W. Europe Standard Time:20261005T090000");
+  const report = validateIcs(raw);
+  const redacted = redactReport(report);
+  assert.equal(redacted.errors, report.errors);
+  assert.deepEqual(redacted.issues.map(({ line, code }) => ({ line, code })), issues(raw));
+  assert.match(report.issues.find((i) => i.code === "invalid-date")!.message, /"Friday"/);
+  assert.equal(redacted.issues.find((i) => i.code === "invalid-date")?.message, "Invalid DATE / DATE-TIME value");
+  assert.ok(report.issues.some((i) => i.uid === "a"));
+  assert.ok(redacted.issues.every((i) => i.uid === undefined));
+  assert.match(redacted.issues.find((i) => i.code === "windows-tzid")!.message, /W\. Europe Standard Time/);
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DateTime } from "luxon";
+import { getProperty, parseCalendar, type IcsComponent } from "../src/ics.js";
+import { transformIcs } from "../src/transform.js";
+import { clampYearRange, vtimezoneComponent } from "../src/vtimezone.js";
+
+const YEAR = DateTime.utc().year;
+
+function observances(vtimezone: IcsComponent | undefined): string[][] {
+  assert.ok(vtimezone);
+  return vtimezone.components.map((o) => [
+    o.name,
+    ...["DTSTART", "TZOFFSETFROM", "TZOFFSETTO", "RRULE"].map((name) => getProperty(o, name)?.value ?? ""),
+  ]);
+}
+
+test("DST zones get the offset of Jan 1 and yearly rules for each transition", () => {
+  assert.deepEqual(observances(vtimezoneComponent("Europe/Zurich", { startYear: 2025, endYear: 2027 })), [
+    ["STANDARD", "20250101T000000", "+0100", "+0100", ""],
+    ["DAYLIGHT", "20250330T020000", "+0100", "+0200", "FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU"],
+    ["STANDARD", "20251026T030000", "+0200", "+0100", "FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU"],
+  ]);
+  assert.deepEqual(observances(vtimezoneComponent("Australia/Sydney", { startYear: 2025, endYear: 2027 }))[0], ["DAYLIGHT", "20250101T000000", "+1100", "+1100", ""]);
+});
+
+test("fixed-offset zones get a single observance", () => {
+  assert.deepEqual(observances(vtimezoneComponent("Asia/Tokyo", { startYear: 2025, endYear: 2027 })), [["STANDARD", "20250101T000000", "+0900", "+0900", ""]]);
+  assert.equal(vtimezoneComponent("Mars/Olympus"), undefined);
+});
+
+test("year ranges are clamped around the current year", () => {
+  assert.deepEqual(clampYearRange({ startYear: 2025, endYear: 2027 }), { startYear: 2025, endYear: 2027 });
+  assert.deepEqual(clampYearRange({ startYear: 1, endYear: 9999 }), { startYear: YEAR - 30, endYear: YEAR + 10 });
+  assert.deepEqual(clampYearRange({ startYear: 9998, endYear: 10000 }), { startYear: YEAR + 10, endYear: YEAR + 10 });
+  const years = observances(vtimezoneComponent("Europe/Zurich", { startYear: 1, endYear: 9999 })).map((o) => Number(o[1]!.slice(0, 4)));
+  assert.equal(years[0], YEAR - 30);
+  assert.ok(years.every((y) => y <= YEAR + 10));
+});
+
+test("far-away event years don't widen the generated VTIMEZONE", () => {
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    "UID:far",
+    "DTSTART;TZID=Europe/Zurich:99991231T090000",
+    "DTEND;TZID=Europe/Zurich:00010101T090000",
+    "END:VEVENT",
+    "END:VCALENDAR",
+    "",
+  ].join("\r\n");
+  const calendar = parseCalendar(transformIcs(ics, { targetTz: "Europe/Zurich", overrideExistingTz: false, tzMode: "preserve" }));
+  const vtimezone = calendar.components.find((c) => c.name === "VTIMEZONE");
+  const years = observances(vtimezone).map((o) => Number(o[1]!.slice(0, 4)));
+  assert.ok(years.every((y) => y >= YEAR - 30 && y <= YEAR + 10), years.join(","));
+});